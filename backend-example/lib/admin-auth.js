@@ -0,0 +1,48 @@
+// Admin console sessions.
+// Admins log in with ADMIN_PASSWORD and get a signed, expiring session token (see
+// signed-token.js).
+
+const crypto = require('crypto');
+const { createSigner } = require('./signed-token');
+
+const SESSION_TTL = 8 * 60 * 60 * 1000; // 8 hours
+
+const signer = createSigner('ADMIN_SESSION_SECRET');
+
+// Hash both sides so timingSafeEqual always compares equal lengths
+const digest = (value) => crypto.createHash('sha256').update(String(value)).digest();
+
+const isAdminEnabled = () => !!process.env.ADMIN_PASSWORD;
+
+const checkAdminPassword = (password) => isAdminEnabled()
+  && typeof password === 'string'
+  && crypto.timingSafeEqual(digest(password), digest(process.env.ADMIN_PASSWORD));
+
+/**
+ * Start an admin session
+ */
+const createAdminSession = () => {
+  const expiresAt = new Date(Date.now() + SESSION_TTL);
+  return {
+    token: signer.sign({
+      sub: 'admin',
+      exp: Math.floor(expiresAt.getTime() / 1000)
+    }),
+    expiresAt: expiresAt.toISOString()
+  };
+};
+
+/**
+ * Check a session token's signature and expiry
+ */
+const verifyAdminSession = (token) => {
+  const { valid, payload } = signer.verify(token);
+  return valid && payload.sub === 'admin' && typeof payload.exp === 'number';
+};
+
+module.exports = {
+  isAdminEnabled,
+  checkAdminPassword,
+  createAdminSession,
+  verifyAdminSession
+};
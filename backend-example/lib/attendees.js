@@ -0,0 +1,93 @@
+// Named attendees for issued tickets.
+//
+// Every ticket admits one person. The buyer can name that person, with an optional ID
+// number or phone for the gate to check, until ATTENDEE_EDIT_CUTOFF_HOURS before
+// kickoff. Until a ticket is named it is shown with the buyer's name.
+
+const { verifyTicketAccessToken } = require('./buyer-tokens');
+const { getMatch, getKickoff } = require('./matches');
+const { getStore } = require('./store');
+
+const ATTENDEE_EDIT_CUTOFF = parseFloat(process.env.ATTENDEE_EDIT_CUTOFF_HOURS || '6') * 60 * 60 * 1000;
+
+const NAME_MAX_LENGTH = 100;
+const ID_NUMBER_PATTERN = /^[A-Za-z0-9-]{4,20}$/;
+const PHONE_PATTERN = /^\+?\d{9,15}$/;
+
+class AttendeeError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'AttendeeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Last moment a ticket's attendee can be changed. Follows the match if it has been
+ * rescheduled since the ticket was issued.
+ */
+const getAttendeeEditDeadline = (ticket) => {
+  const match = getMatch(ticket.matchId) || { date: ticket.matchDate, time: ticket.matchTime };
+  return new Date(getKickoff(match).getTime() - ATTENDEE_EDIT_CUTOFF);
+};
+
+/**
+ * Ticket as returned to its buyer, with when its attendee stops being editable
+ */
+const withAttendeeDeadline = (ticket) => ({
+  ...ticket,
+  attendeeEditableUntil: getAttendeeEditDeadline(ticket).toISOString()
+});
+
+const normalizeAttendee = ({ name, idNumber, phone }) => {
+  const attendee = {
+    name: String(name || '').trim(),
+    idNumber: String(idNumber || '').trim().toUpperCase(),
+    phone: String(phone || '').replace(/[\s-]/g, '')
+  };
+
+  if (!attendee.name || attendee.name.length > NAME_MAX_LENGTH) {
+    throw new AttendeeError('INVALID_ATTENDEE', `Attendee name is required (at most ${NAME_MAX_LENGTH} characters)`);
+  }
+  if (attendee.idNumber && !ID_NUMBER_PATTERN.test(attendee.idNumber)) {
+    throw new AttendeeError('INVALID_ATTENDEE', 'ID number must be 4-20 letters or digits');
+  }
+  if (attendee.phone && !PHONE_PATTERN.test(attendee.phone)) {
+    throw new AttendeeError('INVALID_ATTENDEE', 'Phone number must be 9-15 digits');
+  }
+
+  return attendee;
+};
+
+/**
+ * Name the person a ticket admits.
+ * `accessToken` is the ticket's access token, which only its buyer was given.
+ */
+const assignAttendee = ({ ticketId, accessToken, name, idNumber, phone }) => {
+  const store = getStore();
+
+  return store.transaction(() => {
+    const ticket = store.getTicket(ticketId);
+    if (!ticket || !verifyTicketAccessToken(accessToken, ticketId)) {
+      throw new AttendeeError('TICKET_NOT_FOUND', 'Ticket not found');
+    }
+
+    if (new Date() >= getAttendeeEditDeadline(ticket)) {
+      throw new AttendeeError('EDIT_CLOSED', 'Attendees can no longer be changed for this match');
+    }
+
+    if (store.listAdmissions(ticketId).length > 0) {
+      throw new AttendeeError('ALREADY_ADMITTED', 'This ticket has already been used at the gate');
+    }
+
+    store.updateTicketAttendee(ticketId, normalizeAttendee({ name, idNumber, phone }));
+    return withAttendeeDeadline(store.getTicket(ticketId));
+  });
+};
+
+module.exports = {
+  AttendeeError,
+  getAttendeeEditDeadline,
+  withAttendeeDeadline,
+  assignAttendee
+};
@@ -0,0 +1,53 @@
+// Proof that a request comes from the buyer who placed an order or holds a ticket.
+//
+// Order and payment references go to PayHero, into receipts and onto the buyer's
+// screen, so knowing one proves nothing. Whoever creates an order gets an order token
+// for it instead, and routes that act on an order or hand out its tickets ask for it.
+// Each ticket handed to its buyer carries an access token, which changing the ticket
+// takes. Both are signed with BUYER_TOKEN_SECRET (see signed-token.js).
+
+const { createSigner } = require('./signed-token');
+
+const signer = createSigner('BUYER_TOKEN_SECRET');
+
+/**
+ * Create the token for an order, given to whoever created it
+ */
+const signOrderToken = (reference) => signer.sign({ sub: 'order', ref: reference });
+
+/**
+ * Check a token was issued for the order with this reference
+ */
+const verifyOrderToken = (token, reference) => {
+  const { valid, payload } = signer.verify(token);
+  return valid && payload.sub === 'order' && !!reference && payload.ref === reference;
+};
+
+/**
+ * Create the token that lets whoever holds a ticket change it
+ */
+const signTicketAccessToken = (ticketId) => signer.sign({ sub: 'ticket', tid: ticketId });
+
+/**
+ * Check a token was issued for the ticket with this ID
+ */
+const verifyTicketAccessToken = (token, ticketId) => {
+  const { valid, payload } = signer.verify(token);
+  return valid && payload.sub === 'ticket' && !!ticketId && payload.tid === ticketId;
+};
+
+/**
+ * Ticket as handed to its buyer, with its access token. Only for tickets returned to
+ * someone who proved they bought them.
+ */
+const withAccessToken = (ticket) => ({
+  ...ticket,
+  accessToken: signTicketAccessToken(ticket.ticketId)
+});
+
+module.exports = {
+  signOrderToken,
+  verifyOrderToken,
+  verifyTicketAccessToken,
+  withAccessToken
+};
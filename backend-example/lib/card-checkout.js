@@ -0,0 +1,137 @@
+// Card payments through PayHero's hosted checkout.
+//
+// Card details never reach us: the buyer is redirected to a checkout page PayHero
+// hosts, and sent back to CARD_RETURN_URL with the order reference and its order token
+// once they have paid or given up. Coming back proves nothing, so the return page asks
+// us to confirm the payment, and we check it with PayHero before issuing the order's
+// tickets. The callback and the reconciler settle card payments like any other.
+
+const { signOrderToken } = require('./buyer-tokens');
+const { createOrder, generateOrderReference, getOrder } = require('./orders');
+const { releaseHold } = require('./holds');
+const { recordPaymentStatus, issuePaymentTickets } = require('./payments');
+const { getStore } = require('./store');
+
+const CARD_PROVIDER = 'card';
+const CARD_RETURN_URL = process.env.CARD_RETURN_URL || 'http://localhost:8080/payment/return';
+
+class CardCheckoutError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'CardCheckoutError';
+    this.code = code;
+  }
+}
+
+/**
+ * Where PayHero sends the buyer back to, for one order. The order token lets the return
+ * page confirm the payment and get its tickets.
+ */
+const toReturnUrl = (reference) => {
+  const url = new URL(CARD_RETURN_URL);
+  url.searchParams.set('order', reference);
+  url.searchParams.set('token', signOrderToken(reference));
+  return url.toString();
+};
+
+/**
+ * Create a hosted checkout for an order, creating the order (and its hold) first when
+ * no `reference` is given. A new order takes the buyer's `phoneNumber`, which the
+ * per-phone cap counts it against like any other order. The caller checks the buyer
+ * holds the order token of an existing order. Returns { payment, checkoutUrl, order }.
+ * Throws OrderError and HoldError like createOrder, and PayHeroError when PayHero
+ * refuses the checkout, in which case the hold is released.
+ */
+const startCardCheckout = async (payHero, { reference, matchId, items, customerName, customerEmail, phoneNumber }) => {
+  if (!customerName || !customerEmail || (!reference && !phoneNumber)) {
+    throw new CardCheckoutError(
+      'INVALID_REQUEST',
+      'Missing required fields: customer_name, customer_email, and phone_number without an order'
+    );
+  }
+
+  const store = getStore();
+  if (reference && store.getPayment(reference)) {
+    throw new CardCheckoutError('ALREADY_STARTED', `Payment ${reference} has already been started`);
+  }
+
+  const order = reference ? getOrder(reference) : createOrder({
+    reference: generateOrderReference(),
+    matchId,
+    items,
+    phoneNumber,
+    customerName,
+    customerEmail
+  });
+  if (!order) {
+    throw new CardCheckoutError('ORDER_NOT_FOUND', `No order ${reference}`);
+  }
+
+  let checkout;
+  try {
+    checkout = await payHero.createCheckout({
+      amount: order.totalAmount,
+      currency: 'KES',
+      external_reference: order.reference,
+      customer_name: customerName,
+      customer_email: customerEmail,
+      return_url: toReturnUrl(order.reference)
+    });
+  } catch (error) {
+    releaseHold(order.reference);
+    throw error;
+  }
+
+  store.savePayment({
+    reference: order.reference,
+    transaction_id: checkout.reference,
+    amount: order.totalAmount,
+    currency: 'KES',
+    customer_name: customerName,
+    phone_number: order.phoneNumber,
+    provider: CARD_PROVIDER,
+    callback_url: payHero.callbackUrl || null,
+    match_id: order.matchId,
+    ticket_type: order.items.length === 1 ? order.items[0].ticketType : null,
+    quantity: order.quantity,
+    status: 'pending',
+    payhero_response: checkout
+  });
+
+  return { payment: store.getPayment(order.reference), checkoutUrl: checkout.checkout_url, order };
+};
+
+/**
+ * Confirm the card payment for an order with PayHero, and issue its tickets once it
+ * succeeded. The caller checks the buyer holds the order's token. Returns
+ * { payment, state, tickets }, with no tickets unless `state` is 'success'. Throws
+ * CardCheckoutError for an order without a card payment, and TicketIssueError when it
+ * was paid but its tickets can no longer be had.
+ */
+const confirmCardPayment = async (payHero, reference) => {
+  const payment = reference && getStore().getPayment(reference);
+  if (!payment || payment.provider !== CARD_PROVIDER) {
+    throw new CardCheckoutError('PAYMENT_NOT_FOUND', `No card payment for order ${reference}`);
+  }
+
+  let state = payment.status;
+  let amountPaid;
+  if (state !== 'success') {
+    const status = await payHero.getTransactionStatus(payment.transaction_id || payment.reference);
+    state = recordPaymentStatus(payment.reference, status.status, 'card-return', status).state;
+    amountPaid = status.amount;
+  }
+
+  const tickets = state === 'success'
+    ? issuePaymentTickets(getStore().getPayment(payment.reference), { amountPaid })
+    : [];
+
+  return { payment: getStore().getPayment(payment.reference), state, tickets };
+};
+
+module.exports = {
+  CARD_PROVIDER,
+  CardCheckoutError,
+  startCardCheckout,
+  confirmCardPayment
+};
@@ -0,0 +1,82 @@
+// Emails sent to buyers, each rendered as { subject, html, text }.
+// Everything taken from an order or ticket is escaped before it goes into the HTML.
+
+const TICKETS_URL = process.env.WALLET_URL || 'http://localhost:8080/my-tickets';
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Amounts are stored as 'KES 250'
+const parseAmount = (amount) => Number(String(amount || '').replace(/[^\d.]/g, '')) || 0;
+
+const layout = (title, body) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:#111827">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f8fafc">
+<tr><td align="center" style="padding:24px 12px">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:8px;overflow:hidden">
+<tr><td style="background:#111827;padding:16px 24px;font-size:20px;font-weight:bold;color:#facc15">mookh.</td></tr>
+<tr><td style="padding:24px">${body}</td></tr>
+<tr><td style="padding:16px 24px;font-size:12px;color:#6b7280;border-top:1px solid #e5e7eb">chan.mookh.com</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+/**
+ * Receipt for an order's tickets, sent with the tickets attached as a PDF.
+ * `tickets` are the tickets of one payment, all for the same match.
+ */
+const renderTicketReceipt = ({ tickets }) => {
+  const [first] = tickets;
+  const match = `${first.teamA} vs ${first.teamB}`;
+  const total = tickets.reduce((sum, ticket) => sum + parseAmount(ticket.totalAmount), 0);
+  const count = tickets.length === 1 ? 'ticket is' : `${tickets.length} tickets are`;
+  const subject = `Your CHAN ${tickets.length === 1 ? 'ticket' : 'tickets'}: ${match}`;
+
+  const rows = tickets.map((ticket) => `<tr>
+<td style="padding:8px 0;border-bottom:1px solid #e5e7eb">#${escapeHtml(ticket.ticketId)}<br><span style="color:#6b7280;font-size:12px">${escapeHtml(ticket.ticketType)} &middot; ${escapeHtml(ticket.gate)}, Section ${escapeHtml(ticket.section)}, Row ${escapeHtml(ticket.row)}, Seat ${escapeHtml(ticket.seat)}</span></td>
+<td align="right" style="padding:8px 0;border-bottom:1px solid #e5e7eb">${escapeHtml(ticket.totalAmount)}</td>
+</tr>`).join('\n');
+
+  const html = layout(subject, `
+<p style="margin:0 0 16px">Hi ${escapeHtml(first.holderName)},</p>
+<p style="margin:0 0 16px">Thanks for your payment. Your ${count} for <strong>${escapeHtml(match)}</strong> attached as a PDF. Show each ticket's QR code at the gate.</p>
+<p style="margin:0 0 16px;color:#374151">${escapeHtml(first.matchDate)}, kick-off ${escapeHtml(first.matchTime)}<br>${escapeHtml(first.venue)}<br>Gates open ${escapeHtml(first.gateOpenTime)}</p>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="font-size:14px">
+${rows}
+<tr><td style="padding:8px 0;font-weight:bold">Total paid</td><td align="right" style="padding:8px 0;font-weight:bold">KES ${escapeHtml(total)}</td></tr>
+</table>
+<p style="margin:16px 0 0;font-size:12px;color:#6b7280">Payment reference ${escapeHtml(first.reference)}. Lost this email? Your tickets are also at <a href="${escapeHtml(TICKETS_URL)}" style="color:#f97316">${escapeHtml(TICKETS_URL)}</a>.</p>`);
+
+  const text = [
+    `Hi ${first.holderName},`,
+    '',
+    `Thanks for your payment. Your ${count} for ${match} attached as a PDF. Show each ticket's QR code at the gate.`,
+    '',
+    `${first.matchDate}, kick-off ${first.matchTime}`,
+    first.venue,
+    `Gates open ${first.gateOpenTime}`,
+    '',
+    ...tickets.map((ticket) => `#${ticket.ticketId}  ${ticket.ticketType}, ${ticket.gate}, Section ${ticket.section}, Row ${ticket.row}, Seat ${ticket.seat}  ${ticket.totalAmount}`),
+    `Total paid: KES ${total}`,
+    '',
+    `Payment reference ${first.reference}. Lost this email? Your tickets are also at ${TICKETS_URL}`
+  ].join('\n');
+
+  return { subject, html, text };
+};
+
+module.exports = {
+  renderTicketReceipt
+};
@@ -0,0 +1,203 @@
+// Time-limited ticket holds tied to the STK push lifecycle.
+//
+// A hold sets stock aside when the STK push is sent, so a customer who is entering
+// their PIN cannot lose the ticket to someone else. It is extended while PayHero
+// reports the payment as PENDING/QUEUED, converted to a sale on SUCCESS and released
+// on FAILED. Holds nobody resolves are expired by the sweeper.
+
+const { getMatch, getSaleWindowError } = require('./matches');
+const { holdTickets, releaseTickets, convertHeldTickets } = require('./inventory');
+const { getStore } = require('./store');
+const { toPaymentState } = require('./payment-state.mjs');
+
+const HOLD_TTL = parseInt(process.env.HOLD_TTL_SECONDS || '300', 10) * 1000;
+const HOLD_EXTENSION = parseInt(process.env.HOLD_EXTENSION_SECONDS || '120', 10) * 1000;
+const HOLD_SWEEP_INTERVAL = 30000; // 30 seconds
+
+class HoldError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'HoldError';
+    this.code = code;
+  }
+}
+
+const expiresIn = (ms) => new Date(Date.now() + ms).toISOString();
+
+/**
+ * Hold tickets for a payment reference. `items` lists the tiers and quantities the
+ * payment covers; either all of them are held or none are.
+ * Creating a hold again for the same reference returns the existing hold.
+ */
+const createHold = ({ reference, matchId, items }) => {
+  const store = getStore();
+
+  return store.transaction(() => {
+    const existing = store.getHold(reference);
+    if (existing) {
+      return existing;
+    }
+
+    const match = getMatch(matchId);
+    if (match && match.status === 'archived') {
+      throw new HoldError('NOT_ON_SALE', `Tickets for match ${matchId} are no longer on sale`);
+    }
+
+    items.forEach(({ tier, quantity }) => {
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new HoldError('INVALID_QUANTITY', `Hold at least one ${tier} ticket`);
+      }
+      if (!match || !match.tiers[tier]) {
+        throw new HoldError('UNKNOWN_TICKET_TYPE', `Unknown ticket type ${tier} for match ${matchId}`);
+      }
+
+      const saleWindowError = getSaleWindowError(match.tiers[tier]);
+      if (saleWindowError) {
+        throw new HoldError(saleWindowError, saleWindowError === 'SALE_NOT_STARTED'
+          ? `${tier} tickets are not on sale yet`
+          : `${tier} ticket sales have ended`);
+      }
+
+      // Throwing rolls back the tiers already held for this reference
+      if (!holdTickets(matchId, tier, quantity)) {
+        throw new HoldError('SOLD_OUT', `Not enough ${tier} tickets left`);
+      }
+    });
+
+    store.saveHold({
+      reference,
+      matchId,
+      items,
+      status: 'active',
+      expiresAt: expiresIn(HOLD_TTL)
+    });
+
+    return store.getHold(reference);
+  });
+};
+
+const getHold = (reference) => getStore().getHold(reference) || null;
+
+/**
+ * Keep an active hold alive while the customer is still paying
+ */
+const extendHold = (reference) => {
+  const store = getStore();
+  const hold = store.getHold(reference);
+  if (!hold || hold.status !== 'active') {
+    return false;
+  }
+
+  const expiresAt = expiresIn(HOLD_EXTENSION);
+  if (expiresAt > hold.expiresAt) {
+    store.updateHold(reference, { expiresAt });
+  }
+  return true;
+};
+
+/**
+ * Put an active hold's tickets back on sale.
+ * `status` records why: 'released' for failed payments, 'expired' for the sweeper.
+ */
+const releaseHold = (reference, status = 'released') => {
+  const store = getStore();
+
+  return store.transaction(() => {
+    const hold = store.getHold(reference);
+    if (!hold || hold.status !== 'active') {
+      return false;
+    }
+
+    hold.items.forEach(({ tier, quantity }) => releaseTickets(hold.matchId, tier, quantity));
+    store.updateHold(reference, { status });
+    return true;
+  });
+};
+
+/**
+ * Turn a hold into a sale once its payment succeeds.
+ * Returns true if the hold's tickets are now sold for `paymentReference`. A converted
+ * hold is claimed by the first payment that asks for it, so it only ever covers one sale.
+ */
+const convertHold = (reference, paymentReference) => {
+  const store = getStore();
+
+  return store.transaction(() => {
+    const hold = store.getHold(reference);
+    if (!hold) {
+      return false;
+    }
+
+    if (hold.status === 'converted') {
+      if (!paymentReference || !hold.paymentReference) {
+        store.updateHold(reference, { paymentReference });
+        return true;
+      }
+      return hold.paymentReference === paymentReference;
+    }
+
+    if (hold.status !== 'active') {
+      return false;
+    }
+
+    hold.items.forEach(({ tier, quantity }) => convertHeldTickets(hold.matchId, tier, quantity));
+    store.updateHold(reference, { status: 'converted', paymentReference });
+    return true;
+  });
+};
+
+/**
+ * Apply a PayHero payment status to the payment's hold
+ */
+const syncHoldWithPayment = (reference, status) => {
+  switch (toPaymentState(status)) {
+    case 'pending':
+    case 'processing':
+      return extendHold(reference);
+    case 'success':
+      return convertHold(reference);
+    case 'failed':
+    case 'cancelled':
+      return releaseHold(reference);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Release every active hold past its expiry. Returns how many were expired.
+ */
+const expireStaleHolds = () => {
+  const stale = getStore().listExpiredHolds(new Date().toISOString());
+  return stale.filter((hold) => releaseHold(hold.reference, 'expired')).length;
+};
+
+/**
+ * Expire stale holds in the background. Returns the timer so callers can stop it.
+ */
+const startHoldSweeper = (interval = HOLD_SWEEP_INTERVAL) => {
+  const timer = setInterval(() => {
+    try {
+      const expired = expireStaleHolds();
+      if (expired > 0) {
+        console.log(`Released ${expired} expired ticket hold(s)`);
+      }
+    } catch (error) {
+      console.error('Hold sweeper error:', error);
+    }
+  }, interval);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  HoldError,
+  createHold,
+  getHold,
+  extendHold,
+  releaseHold,
+  convertHold,
+  syncHoldWithPayment,
+  expireStaleHolds,
+  startHoldSweeper
+};
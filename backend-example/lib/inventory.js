@@ -0,0 +1,95 @@
+// Ticket inventory per match tier.
+// Capacity comes from the match fixtures; sold and held counts live in the store,
+// and every change goes through a conditional update so stock can never go negative.
+
+const { getMatch } = require('./matches');
+const { getStore } = require('./store');
+
+/**
+ * Make sure the store has an inventory row for every tier of a match
+ */
+const seedInventory = (match) => {
+  const store = getStore();
+  Object.entries(match.tiers).forEach(([tierName, tier]) => {
+    store.ensureInventory(match.id, tierName, tier.capacity);
+  });
+};
+
+const toTierInventory = (row) => ({
+  type: row.tier,
+  capacity: row.capacity,
+  sold: row.sold,
+  held: row.held,
+  available: Math.max(row.capacity - row.sold - row.held, 0)
+});
+
+/**
+ * Inventory for every tier of a match, or null for an unknown match
+ */
+const getInventory = (matchId) => {
+  const match = getMatch(matchId);
+  if (!match) {
+    return null;
+  }
+
+  seedInventory(match);
+  return getStore().listInventory(matchId).map(toTierInventory);
+};
+
+/**
+ * Tickets still on sale for one tier, or null for an unknown tier
+ */
+const getAvailable = (matchId, tierName) => {
+  const match = getMatch(matchId);
+  if (!match || !match.tiers[tierName]) {
+    return null;
+  }
+
+  seedInventory(match);
+  return toTierInventory(getStore().getInventoryItem(matchId, tierName)).available;
+};
+
+// Run a stock update for a known tier; unknown tiers never have stock
+const updateStock = (matchId, tierName, update) => {
+  const match = getMatch(matchId);
+  if (!match || !match.tiers[tierName]) {
+    return false;
+  }
+
+  seedInventory(match);
+  return update(getStore());
+};
+
+/**
+ * Record a sale. Returns false, without changing anything, if the tier does not
+ * have enough tickets left.
+ */
+const sellTickets = (matchId, tierName, quantity) =>
+  updateStock(matchId, tierName, (store) => store.sellInventory(matchId, tierName, quantity));
+
+/**
+ * Set tickets aside while a payment is in flight. Returns false if not enough are left.
+ */
+const holdTickets = (matchId, tierName, quantity) =>
+  updateStock(matchId, tierName, (store) => store.holdInventory(matchId, tierName, quantity));
+
+/**
+ * Put held tickets back on sale
+ */
+const releaseTickets = (matchId, tierName, quantity) =>
+  updateStock(matchId, tierName, (store) => store.releaseInventory(matchId, tierName, quantity));
+
+/**
+ * Turn held tickets into sold ones
+ */
+const convertHeldTickets = (matchId, tierName, quantity) =>
+  updateStock(matchId, tierName, (store) => store.convertInventory(matchId, tierName, quantity));
+
+module.exports = {
+  getInventory,
+  getAvailable,
+  sellTickets,
+  holdTickets,
+  releaseTickets,
+  convertHeldTickets
+};
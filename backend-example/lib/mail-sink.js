@@ -0,0 +1,165 @@
+// Local mail sink, for development and automated tests without sending real email.
+//
+// Accepts every message sent to its SMTP port and delivers none of them. Received
+// messages are kept in memory and can be inspected over HTTP:
+//
+//   GET    /messages       summaries, most recent first (?to= for one recipient)
+//   GET    /messages/:id   the raw message as sent, attachments included
+//   DELETE /messages       forget every message
+//
+// Only plain SMTP is spoken: no TLS and no authentication, so leave SMTP_SECURE,
+// SMTP_USER and SMTP_PASS unset when pointing the server at it.
+
+const net = require('net');
+const express = require('express');
+
+const MAX_MESSAGE_SIZE = 10 * 1024 * 1024;
+
+// Headers may be folded over several lines and hold RFC 2047 encoded words
+const decodeHeader = (value) => value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (match, charset, encoding, text) => (
+  encoding.toUpperCase() === 'B'
+    ? Buffer.from(text, 'base64').toString('utf8')
+    : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (hex, code) => String.fromCharCode(parseInt(code, 16))), 'latin1').toString('utf8')
+));
+
+const readHeader = (raw, name) => {
+  const headers = raw.split(/\r?\n\r?\n/)[0].replace(/\r?\n[ \t]+/g, ' ');
+  const line = headers.split(/\r?\n/).find((candidate) => candidate.toLowerCase().startsWith(`${name.toLowerCase()}:`));
+  return line ? decodeHeader(line.slice(name.length + 1).trim()) : '';
+};
+
+const readAddress = (argument) => (/<([^>]*)>/.exec(argument) || [null, argument.trim()])[1];
+
+const createMailSink = () => {
+  const messages = [];
+  let received = 0;
+
+  const smtp = net.createServer((socket) => {
+    let buffer = '';
+    let envelope = { from: null, to: [] };
+    let inData = false;
+
+    const reply = (line) => socket.write(`${line}\r\n`);
+
+    const handleCommand = (line) => {
+      const [verb] = line.split(' ', 1);
+      const argument = line.slice(verb.length).trim();
+
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          return reply(`250-localhost\r\n250-SIZE ${MAX_MESSAGE_SIZE}\r\n250 8BITMIME`);
+        case 'HELO':
+          return reply('250 localhost');
+        case 'MAIL':
+          envelope = { from: readAddress(argument.replace(/^FROM:/i, '')), to: [] };
+          return reply('250 OK');
+        case 'RCPT':
+          if (!envelope.from) {
+            return reply('503 MAIL first');
+          }
+          envelope.to.push(readAddress(argument.replace(/^TO:/i, '')));
+          return reply('250 OK');
+        case 'DATA':
+          if (envelope.to.length === 0) {
+            return reply('503 RCPT first');
+          }
+          inData = true;
+          return reply('354 End data with <CR><LF>.<CR><LF>');
+        case 'RSET':
+          envelope = { from: null, to: [] };
+          return reply('250 OK');
+        case 'NOOP':
+          return reply('250 OK');
+        case 'QUIT':
+          reply('221 Bye');
+          return socket.end();
+        default:
+          return reply('502 Command not implemented');
+      }
+    };
+
+    const handleMessage = (data) => {
+      received += 1;
+      // Undo dot-stuffing
+      const raw = data.replace(/^\.\./gm, '.');
+      const message = {
+        id: String(received),
+        from: envelope.from,
+        to: envelope.to,
+        subject: readHeader(raw, 'Subject'),
+        size: Buffer.byteLength(raw),
+        receivedAt: new Date().toISOString(),
+        raw
+      };
+      messages.push(message);
+      console.log(`📬 Mail ${message.id} to ${message.to.join(', ')}: ${message.subject}`);
+
+      envelope = { from: null, to: [] };
+      inData = false;
+      reply(`250 OK: queued as ${message.id}`);
+    };
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.startsWith('.\r\n') ? 0 : buffer.indexOf('\r\n.\r\n');
+          if (end === -1) {
+            if (buffer.length > MAX_MESSAGE_SIZE) {
+              reply('552 Message too large');
+              socket.destroy();
+            }
+            return;
+          }
+          const data = end === 0 ? '' : buffer.slice(0, end + 2);
+          buffer = buffer.slice(end === 0 ? 3 : end + 5);
+          handleMessage(data);
+        } else {
+          const end = buffer.indexOf('\r\n');
+          if (end === -1) {
+            return;
+          }
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          handleCommand(line);
+        }
+      }
+    });
+    socket.on('error', () => socket.destroy());
+
+    reply('220 localhost mail sink ESMTP');
+  });
+
+  const http = express();
+
+  http.get('/messages', (req, res) => {
+    const to = req.query.to ? String(req.query.to) : null;
+    res.json({
+      messages: messages
+        .filter((message) => !to || message.to.includes(to))
+        .map(({ raw, ...summary }) => summary)
+        .reverse()
+    });
+  });
+
+  http.get('/messages/:id', (req, res) => {
+    const message = messages.find((candidate) => candidate.id === req.params.id);
+    if (!message) {
+      return res.status(404).json({ error_message: 'Message not found' });
+    }
+    res.type('message/rfc822').send(message.raw);
+  });
+
+  http.delete('/messages', (req, res) => {
+    messages.length = 0;
+    res.status(204).end();
+  });
+
+  return { smtp, http, messages };
+};
+
+module.exports = {
+  createMailSink
+};
@@ -0,0 +1,131 @@
+// Email to buyers: ticket receipts with the tickets attached.
+//
+// Transports are registered below and selected with MAIL_DRIVER (default: stub).
+// A transport is a factory returning an object with:
+//
+//   name
+//   send({ to, subject, html, text, attachments }) -> Promise<{ id }>
+//     attachments: [{ filename, content: Buffer, contentType }]
+//
+// The stub sends nothing: it logs each email and keeps the most recent ones in memory,
+// so tests can check what was sent. To see real messages locally, run the mail sink
+// (npm run mail-sink) and use the smtp transport with SMTP_HOST=localhost SMTP_PORT=1025.
+
+const nodemailer = require('nodemailer');
+
+const MAIL_FROM = process.env.MAIL_FROM || 'CHAN Tickets <tickets@chan.mookh.com>';
+// Emails the stub keeps
+const STUB_OUTBOX_SIZE = 100;
+
+class MailError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'MailError';
+    this.code = code;
+  }
+}
+
+const createStubTransport = () => {
+  const outbox = [];
+  let sent = 0;
+
+  return {
+    name: 'stub',
+
+    send: async ({ to, subject, html, text, attachments = [] }) => {
+      sent += 1;
+      const email = { id: `stub-${sent}`, to, subject, html, text, attachments, sentAt: new Date().toISOString() };
+      outbox.push(email);
+      if (outbox.length > STUB_OUTBOX_SIZE) {
+        outbox.shift();
+      }
+      const attached = attachments.map((attachment) => attachment.filename).join(', ');
+      console.log(`Email to ${to} (stub): ${subject}${attached ? ` [${attached}]` : ''}`);
+      return { id: email.id };
+    },
+
+    // Most recent first, optionally only those sent to one address
+    listMessages: (to) => outbox.filter((email) => !to || email.to === to).reverse()
+  };
+};
+
+// Any SMTP server: a provider's relay in production, the mail sink locally
+const createSmtpTransport = ({
+  host = process.env.SMTP_HOST,
+  port = parseInt(process.env.SMTP_PORT || '587', 10),
+  secure = process.env.SMTP_SECURE === 'true',
+  user = process.env.SMTP_USER,
+  pass = process.env.SMTP_PASS
+} = {}) => {
+  if (!host) {
+    throw new MailError('NOT_CONFIGURED', 'Set SMTP_HOST to send email over SMTP');
+  }
+
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined
+  });
+
+  return {
+    name: 'smtp',
+
+    send: async ({ to, subject, html, text, attachments = [] }) => {
+      try {
+        const info = await transporter.sendMail({ from: MAIL_FROM, to, subject, html, text, attachments });
+        return { id: info.messageId };
+      } catch (error) {
+        throw new MailError('SEND_FAILED', `Email to ${to} was not sent: ${error.message}`);
+      }
+    }
+  };
+};
+
+const transports = {
+  stub: createStubTransport,
+  smtp: createSmtpTransport
+};
+
+let defaultTransport = null;
+
+/**
+ * Create a transport with the given driver
+ */
+const createMailTransport = ({ driver = process.env.MAIL_DRIVER || 'stub', ...options } = {}) => {
+  const factory = transports[driver];
+  if (!factory) {
+    throw new Error(`Unknown mail driver: ${driver}`);
+  }
+  return factory(options);
+};
+
+/**
+ * Shared transport used by the server, created on first use
+ */
+const getMailTransport = () => {
+  if (!defaultTransport) {
+    defaultTransport = createMailTransport();
+  }
+  return defaultTransport;
+};
+
+/**
+ * Replace the shared transport, e.g. with a stub in tests
+ */
+const setMailTransport = (transport) => {
+  defaultTransport = transport;
+};
+
+/**
+ * Send an email through the shared transport
+ */
+const sendMail = (email) => getMailTransport().send(email);
+
+module.exports = {
+  MailError,
+  createMailTransport,
+  getMailTransport,
+  setMailTransport,
+  sendMail
+};
@@ -0,0 +1,365 @@
+// Match catalog. This is the single source of match data: the frontend reads it
+// through GET /api/matches, so a match added here shows up on every page.
+//
+// Matches and their ticket tiers live in the store and are managed from the /admin
+// console. The fixtures below only seed an empty store.
+// A tier's capacity is the number of tickets on sale and must fit its seating layout.
+
+const { getStore } = require('./store');
+
+const SEED_MATCHES = [
+  {
+    id: '1',
+    teamA: 'MAD',
+    teamB: 'MAR',
+    date: '30 Aug 2025',
+    time: '18:00',
+    venue: 'Moi Sports Centre Kasarani',
+    gateOpenTime: '15:00',
+    tiers: {
+      Regular: {
+        price: 200,
+        description: 'Gates open 15:00 hrs',
+        capacity: 2400,
+        seating: {
+          gate: 'Gate 1',
+          sections: ['17-Lower', '18-Lower', '19-Lower', '20-Lower'],
+          rowsPerSection: 20,
+          seatsPerRow: 30
+        }
+      },
+      VIP: {
+        price: 500,
+        description: 'Gates open 15:00 hrs, VIP seating',
+        capacity: 200,
+        seating: {
+          gate: 'Gate 3',
+          sections: ['VIP-A', 'VIP-B'],
+          rowsPerSection: 5,
+          seatsPerRow: 20
+        }
+      }
+    }
+  }
+];
+
+// "30 Aug 2025" and "18:00", the formats tickets are printed with
+const DATE_PATTERN = /^\d{1,2} (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) \d{4}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const TEAM_CODE_PATTERN = /^[A-Z]{2,4}$/;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+// Match times are local to the venue, in East Africa Time
+const VENUE_UTC_OFFSET = '+03:00';
+
+class MatchError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'MatchError';
+    this.code = code;
+  }
+}
+
+let seededStore = null;
+
+/**
+ * The store, seeded with the fixtures the first time an empty store is used
+ */
+const catalogStore = () => {
+  const store = getStore();
+  if (seededStore !== store) {
+    if (store.listMatches().length === 0) {
+      store.transaction(() => {
+        SEED_MATCHES.forEach(({ tiers, ...match }) => {
+          store.saveMatch(match);
+          Object.entries(tiers).forEach(([type, tier]) => {
+            store.saveTicketTier({ matchId: match.id, type, ...tier });
+          });
+        });
+      });
+    }
+    seededStore = store;
+  }
+  return store;
+};
+
+const withTiers = (store, match) => match && {
+  ...match,
+  tiers: Object.fromEntries(store.listTicketTiers(match.id).map(({ type, matchId, ...tier }) => [type, tier]))
+};
+
+const getMatch = (matchId) => {
+  const store = catalogStore();
+  return withTiers(store, store.getMatch(matchId)) || null;
+};
+
+const getTier = (matchId, tierName) => {
+  const match = getMatch(matchId);
+  return match ? match.tiers[tierName] || null : null;
+};
+
+/**
+ * Matches on sale. Archived matches are only listed for admins.
+ */
+const listMatches = ({ includeArchived = false } = {}) => {
+  const store = catalogStore();
+  return store.listMatches()
+    .filter((match) => includeArchived || match.status !== 'archived')
+    .map((match) => withTiers(store, match));
+};
+
+/**
+ * Whether a tier is inside its sale window right now.
+ * Returns null when it is, otherwise the reason it is not.
+ */
+const getSaleWindowError = (tier, now = new Date()) => {
+  if (tier.saleStartsAt && now < new Date(tier.saleStartsAt)) {
+    return 'SALE_NOT_STARTED';
+  }
+  if (tier.saleEndsAt && now > new Date(tier.saleEndsAt)) {
+    return 'SALE_ENDED';
+  }
+  return null;
+};
+
+/**
+ * Kickoff of a match, or of the match a ticket is for, as a Date
+ */
+const getKickoff = ({ date, time }) => {
+  const [day, month, year] = date.split(' ');
+  const monthNumber = String(MONTHS.indexOf(month) + 1).padStart(2, '0');
+  return new Date(`${year}-${monthNumber}-${day.padStart(2, '0')}T${time}:00${VENUE_UTC_OFFSET}`);
+};
+
+/**
+ * Match as exposed by the API. Seating layouts stay on the server.
+ */
+const toPublicMatch = (match) => ({
+  id: match.id,
+  teamA: match.teamA,
+  teamB: match.teamB,
+  teamAFlagUrl: match.teamAFlagUrl || null,
+  teamBFlagUrl: match.teamBFlagUrl || null,
+  date: match.date,
+  time: match.time,
+  venue: match.venue,
+  gateOpenTime: match.gateOpenTime,
+  status: match.status,
+  tiers: Object.entries(match.tiers).map(([type, tier]) => ({
+    type,
+    price: tier.price,
+    description: tier.description,
+    capacity: tier.capacity,
+    saleStartsAt: tier.saleStartsAt || null,
+    saleEndsAt: tier.saleEndsAt || null
+  }))
+});
+
+const requireMatch = (matchId) => {
+  const match = getMatch(matchId);
+  if (!match) {
+    throw new MatchError('MATCH_NOT_FOUND', `No match with id ${matchId}`);
+  }
+  return match;
+};
+
+const validateMatchFields = (fields) => {
+  ['teamA', 'teamB'].forEach((key) => {
+    if (fields[key] !== undefined && !TEAM_CODE_PATTERN.test(fields[key])) {
+      throw new MatchError('INVALID_MATCH', `${key} must be a 2-4 letter team code`);
+    }
+  });
+  if (fields.date !== undefined && !DATE_PATTERN.test(fields.date)) {
+    throw new MatchError('INVALID_MATCH', 'date must look like "30 Aug 2025"');
+  }
+  ['time', 'gateOpenTime'].forEach((key) => {
+    if (fields[key] !== undefined && !TIME_PATTERN.test(fields[key])) {
+      throw new MatchError('INVALID_MATCH', `${key} must be a 24-hour HH:mm time`);
+    }
+  });
+  if (fields.venue !== undefined && !String(fields.venue).trim()) {
+    throw new MatchError('INVALID_MATCH', 'venue is required');
+  }
+};
+
+const MATCH_FIELDS = ['teamA', 'teamB', 'teamAFlagUrl', 'teamBFlagUrl', 'date', 'time', 'venue', 'gateOpenTime'];
+
+const pickMatchFields = (input) => Object.fromEntries(
+  MATCH_FIELDS.filter((key) => input[key] !== undefined).map((key) => [key, input[key] || null])
+);
+
+/**
+ * Create a match with no tiers. IDs are sequential, like the seeded fixtures.
+ */
+const createMatch = (input) => {
+  const fields = pickMatchFields(input);
+  const missing = ['teamA', 'teamB', 'date', 'time', 'venue', 'gateOpenTime'].filter((key) => !fields[key]);
+  if (missing.length > 0) {
+    throw new MatchError('INVALID_MATCH', `Missing required fields: ${missing.join(', ')}`);
+  }
+  validateMatchFields(fields);
+
+  const store = catalogStore();
+  return store.transaction(() => {
+    const ids = store.listMatches().map((match) => parseInt(match.id, 10)).filter(Number.isFinite);
+    const id = String(Math.max(0, ...ids) + 1);
+    store.saveMatch({ id, ...fields });
+    return getMatch(id);
+  });
+};
+
+const updateMatch = (matchId, input) => {
+  requireMatch(matchId);
+  const fields = pickMatchFields(input);
+  ['teamA', 'teamB', 'date', 'time', 'venue', 'gateOpenTime'].forEach((key) => {
+    if (key in fields && !fields[key]) {
+      throw new MatchError('INVALID_MATCH', `${key} cannot be empty`);
+    }
+  });
+  validateMatchFields(fields);
+
+  catalogStore().updateMatch(matchId, fields);
+  return getMatch(matchId);
+};
+
+/**
+ * Archive a match to take it off sale, or restore it. Tickets already sold stay valid.
+ */
+const setMatchArchived = (matchId, archived) => {
+  requireMatch(matchId);
+  catalogStore().updateMatch(matchId, { status: archived ? 'archived' : 'active' });
+  return getMatch(matchId);
+};
+
+const seatingCapacity = (seating) => seating.sections.length * seating.rowsPerSection * seating.seatsPerRow;
+
+const GENERAL_ADMISSION = 'General Admission';
+
+const isGeneralAdmission = (seating) => seating.sections.length === 1 && seating.sections[0] === GENERAL_ADMISSION;
+
+/**
+ * Build the seating layout for a tier from admin input.
+ * Without sections, a seated tier keeps its layout and anything else is general
+ * admission: one section with one seat per ticket.
+ */
+const toSeating = (input, capacity, existing) => {
+  const sections = Array.isArray(input.sections)
+    ? input.sections.map((section) => String(section).trim()).filter(Boolean)
+    : [];
+  const gate = input.gate || (existing && existing.gate) || 'Main Gate';
+
+  if (sections.length > 0) {
+    return {
+      gate,
+      sections,
+      rowsPerSection: parseInt(input.rowsPerSection, 10),
+      seatsPerRow: parseInt(input.seatsPerRow, 10)
+    };
+  }
+
+  if (existing && !isGeneralAdmission(existing)) {
+    return { ...existing, gate };
+  }
+
+  return {
+    gate,
+    sections: [GENERAL_ADMISSION],
+    rowsPerSection: 1,
+    seatsPerRow: capacity
+  };
+};
+
+/**
+ * Create or update a ticket tier
+ */
+const saveTier = (matchId, type, input) => {
+  const match = requireMatch(matchId);
+  const existing = match.tiers[type];
+
+  const name = String(type || '').trim();
+  if (!name) {
+    throw new MatchError('INVALID_TIER', 'Tier name is required');
+  }
+
+  const price = parseInt(input.price, 10);
+  const capacity = parseInt(input.capacity, 10);
+  if (!Number.isInteger(price) || price < 1) {
+    throw new MatchError('INVALID_TIER', 'price must be a whole number of KES above zero');
+  }
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new MatchError('INVALID_TIER', 'capacity must be a whole number above zero');
+  }
+
+  const saleStartsAt = input.saleStartsAt || null;
+  const saleEndsAt = input.saleEndsAt || null;
+  if ([saleStartsAt, saleEndsAt].some((value) => value && Number.isNaN(Date.parse(value)))) {
+    throw new MatchError('INVALID_TIER', 'Sale window dates must be ISO timestamps');
+  }
+  if (saleStartsAt && saleEndsAt && new Date(saleStartsAt) >= new Date(saleEndsAt)) {
+    throw new MatchError('INVALID_TIER', 'Sales must start before they end');
+  }
+
+  const seating = toSeating(input, capacity, existing && existing.seating);
+  if (![seating.rowsPerSection, seating.seatsPerRow].every((value) => Number.isInteger(value) && value > 0)) {
+    throw new MatchError('INVALID_TIER', 'rowsPerSection and seatsPerRow must be whole numbers above zero');
+  }
+  if (capacity > seatingCapacity(seating)) {
+    throw new MatchError('INVALID_TIER', `capacity ${capacity} does not fit the ${seatingCapacity(seating)} seats in the layout`);
+  }
+
+  const store = catalogStore();
+  store.transaction(() => {
+    store.saveTicketTier({
+      matchId,
+      type: name,
+      price,
+      description: input.description ?? (existing ? existing.description : ''),
+      capacity,
+      seating,
+      saleStartsAt,
+      saleEndsAt
+    });
+
+    store.ensureInventory(matchId, name, capacity);
+    if (!store.setInventoryCapacity(matchId, name, capacity)) {
+      throw new MatchError('CAPACITY_TOO_LOW', `More than ${capacity} ${name} tickets are already sold or held`);
+    }
+  });
+
+  return getMatch(matchId);
+};
+
+/**
+ * Remove a tier that has not sold or held any tickets
+ */
+const deleteTier = (matchId, type) => {
+  const match = requireMatch(matchId);
+  if (!match.tiers[type]) {
+    throw new MatchError('TIER_NOT_FOUND', `No ${type} tier for match ${matchId}`);
+  }
+
+  const store = catalogStore();
+  store.transaction(() => {
+    const inventory = store.getInventoryItem(matchId, type);
+    if (inventory && !store.deleteInventory(matchId, type)) {
+      throw new MatchError('TIER_IN_USE', `${type} tickets have already been sold or held`);
+    }
+    store.deleteTicketTier(matchId, type);
+  });
+
+  return getMatch(matchId);
+};
+
+module.exports = {
+  MatchError,
+  getMatch,
+  getTier,
+  listMatches,
+  getSaleWindowError,
+  getKickoff,
+  toPublicMatch,
+  createMatch,
+  updateMatch,
+  setMatchArchived,
+  saveTier,
+  deleteTier
+};
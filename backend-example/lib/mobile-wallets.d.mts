@@ -0,0 +1,27 @@
+// Types for mobile-wallets.mjs
+
+export type MobileWalletProvider = 'm-pesa' | 'airtel-money' | 't-kash';
+
+export interface MobileWallet {
+  // What buyers call the wallet, e.g. M-PESA
+  name: string;
+  // The mobile network whose numbers it takes
+  network: string;
+  example: string;
+}
+
+export interface WalletNumberValidation {
+  isValid: boolean;
+  formattedNumber?: string;
+  error?: string;
+}
+
+export declare const MOBILE_WALLETS: Readonly<Record<MobileWalletProvider, MobileWallet>>;
+export declare const DEFAULT_WALLET: MobileWalletProvider;
+
+export declare const isMobileWallet: (provider: string | null | undefined) => provider is MobileWalletProvider;
+export declare const normalizePhoneNumber: (phoneNumber: string | null | undefined) => string | null;
+export declare const validateWalletNumber: (
+  phoneNumber: string | null | undefined,
+  provider?: string
+) => WalletNumberValidation;
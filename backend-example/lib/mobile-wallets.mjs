@@ -0,0 +1,61 @@
+// Mobile money wallets PayHero can send a payment prompt to, shared by the backend
+// (require) and the frontend (import).
+//
+// Each wallet belongs to one network and only takes that network's numbers, so a
+// number is checked against the wallet the buyer picked before a prompt is sent to it.
+// Types: mobile-wallets.d.mts.
+
+export const MOBILE_WALLETS = {
+  'm-pesa': { name: 'M-PESA', network: 'Safaricom', example: '0712 345 678' },
+  'airtel-money': { name: 'Airtel Money', network: 'Airtel', example: '0733 123 456' },
+  't-kash': { name: 'T-Kash', network: 'Telkom', example: '0772 123 456' }
+};
+
+export const DEFAULT_WALLET = 'm-pesa';
+
+// Each network's number ranges, as 254 followed by 9 digits
+const NETWORK_NUMBERS = {
+  'm-pesa': /^254(7[0-2]\d|74[0-8]|75[7-9]|76[89]|79\d|11\d)\d{6}$/,
+  'airtel-money': /^254(10\d|73\d|75[0-6]|762|78\d)\d{6}$/,
+  't-kash': /^254(77\d)\d{6}$/
+};
+
+export const isMobileWallet = (provider) => Object.prototype.hasOwnProperty.call(MOBILE_WALLETS, provider);
+
+/**
+ * A Kenyan phone number in the 254... form PayHero takes, or null. Accepts 07..., 01...,
+ * +254... and the 9 digits after the country code.
+ */
+export const normalizePhoneNumber = (phoneNumber) => {
+  let digits = String(phoneNumber ?? '').replace(/\D/g, '');
+  if (digits.startsWith('0')) {
+    digits = `254${digits.slice(1)}`;
+  } else if (digits.length === 9) {
+    digits = `254${digits}`;
+  }
+  return /^254\d{9}$/.test(digits) ? digits : null;
+};
+
+/**
+ * Check a phone number can receive a prompt from `provider`'s wallet.
+ * Returns the number in 254... form when it can, otherwise an error for the buyer.
+ */
+export const validateWalletNumber = (phoneNumber, provider = DEFAULT_WALLET) => {
+  if (!isMobileWallet(provider)) {
+    return { isValid: false, error: `Unsupported payment provider ${provider}` };
+  }
+  const wallet = MOBILE_WALLETS[provider];
+
+  const formattedNumber = normalizePhoneNumber(phoneNumber);
+  if (!formattedNumber) {
+    return { isValid: false, error: 'Phone number must be 9 digits excluding the country code' };
+  }
+  if (!NETWORK_NUMBERS[provider].test(formattedNumber)) {
+    return {
+      isValid: false,
+      error: `Please enter a ${wallet.network} number for ${wallet.name} (e.g. ${wallet.example})`
+    };
+  }
+
+  return { isValid: true, formattedNumber };
+};
@@ -0,0 +1,147 @@
+// Ticket orders: one payment for several tiers and quantities of a match.
+//
+// An order is created before the STK push. It holds every ticket it covers and fixes
+// the prices the customer is charged, so the STK push is for the order total. Purchase
+// caps apply per order and per phone number; the phone cap counts tickets the number
+// has already paid for or still has on hold. References are random, so one can't be
+// guessed from another.
+
+const crypto = require('crypto');
+const { normalizePhoneNumber } = require('./mobile-wallets.mjs');
+const { getTier } = require('./matches');
+const { createHold } = require('./holds');
+const { getStore } = require('./store');
+
+const MAX_TICKETS_PER_ORDER = parseInt(process.env.MAX_TICKETS_PER_ORDER || '6', 10);
+const MAX_TICKETS_PER_PHONE = parseInt(process.env.MAX_TICKETS_PER_PHONE || '10', 10);
+
+class OrderError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'OrderError';
+    this.code = code;
+  }
+}
+
+const getOrderLimits = () => ({
+  maxTicketsPerOrder: MAX_TICKETS_PER_ORDER,
+  maxTicketsPerPhone: MAX_TICKETS_PER_PHONE
+});
+
+/**
+ * Check every line has a ticket type and a whole quantity, merging repeated tiers
+ */
+const normalizeItems = (items) => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new OrderError('INVALID_ORDER', 'An order needs at least one ticket');
+  }
+
+  const quantities = new Map();
+  items.forEach((item) => {
+    const ticketType = item && item.ticketType;
+    const quantity = Number(item && item.quantity);
+    if (!ticketType || !Number.isInteger(quantity) || quantity < 1) {
+      throw new OrderError('INVALID_ORDER', 'Each ticket needs a type and a quantity of at least 1');
+    }
+    quantities.set(ticketType, (quantities.get(ticketType) || 0) + quantity);
+  });
+
+  return [...quantities].map(([ticketType, quantity]) => ({ ticketType, quantity }));
+};
+
+/**
+ * A new order reference, also sent to PayHero as the payment's external reference
+ */
+const generateOrderReference = () => `CHAN${crypto.randomBytes(10).toString('hex').toUpperCase()}`;
+
+const countTickets = (items) => items.reduce((total, item) => total + item.quantity, 0);
+
+/**
+ * Create an order and hold its tickets.
+ * Creating an order again for the same reference returns the existing order.
+ * Throws OrderError when a cap is exceeded and HoldError when the tickets cannot be held.
+ */
+const createOrder = ({ reference, matchId, items, phoneNumber: rawPhoneNumber, customerName, customerEmail }) => {
+  const store = getStore();
+
+  // Every order has one, so the phone cap always applies. Stored and capped in 254...
+  // form, however it was written.
+  const phoneNumber = normalizePhoneNumber(rawPhoneNumber);
+  if (!phoneNumber) {
+    throw new OrderError('INVALID_PHONE_NUMBER', 'Enter a valid Kenyan phone number, e.g. 0712345678');
+  }
+
+  return store.transaction(() => {
+    const existing = store.getOrder(reference);
+    if (existing) {
+      return existing;
+    }
+
+    const lines = normalizeItems(items);
+    const quantity = countTickets(lines);
+
+    if (quantity > MAX_TICKETS_PER_ORDER) {
+      throw new OrderError('ORDER_LIMIT_EXCEEDED', `You can buy at most ${MAX_TICKETS_PER_ORDER} tickets per order`);
+    }
+
+    if (phoneNumber && store.countOrderedTickets(matchId, phoneNumber) + quantity > MAX_TICKETS_PER_PHONE) {
+      throw new OrderError(
+        'PHONE_LIMIT_EXCEEDED',
+        `Each phone number can buy at most ${MAX_TICKETS_PER_PHONE} tickets for this match`
+      );
+    }
+
+    createHold({
+      reference,
+      matchId,
+      items: lines.map((line) => ({ tier: line.ticketType, quantity: line.quantity }))
+    });
+
+    const pricedLines = lines.map((line) => ({ ...line, unitPrice: getTier(matchId, line.ticketType).price }));
+
+    store.saveOrder({
+      reference,
+      matchId,
+      phoneNumber,
+      customerName,
+      customerEmail,
+      items: pricedLines,
+      totalAmount: pricedLines.reduce((total, line) => total + line.unitPrice * line.quantity, 0),
+      status: 'pending'
+    });
+
+    return store.getOrder(reference);
+  });
+};
+
+const getOrder = (reference) => getStore().getOrder(reference) || null;
+
+/**
+ * Record that an order's tickets have been issued
+ */
+const markOrderPaid = (reference) => {
+  getStore().setOrderStatus(reference, 'paid');
+};
+
+/**
+ * The order as shown to the customer who placed it
+ */
+const toPublicOrder = (order) => ({
+  reference: order.reference,
+  matchId: order.matchId,
+  items: order.items,
+  quantity: order.quantity,
+  totalAmount: order.totalAmount,
+  status: order.status,
+  createdAt: order.createdAt
+});
+
+module.exports = {
+  OrderError,
+  getOrderLimits,
+  generateOrderReference,
+  createOrder,
+  getOrder,
+  markOrderPaid,
+  toPublicOrder
+};
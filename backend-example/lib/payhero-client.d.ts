@@ -0,0 +1,86 @@
+// Types for payhero-client.js, for the TypeScript code that shares it (the Next status route)
+import type { PayHeroPaymentRequest, PayHeroStatusResponse } from '../../src/lib/payhero-types';
+
+export declare const PAYHERO_ENDPOINTS: {
+  readonly INITIATE_PAYMENT: '/api/v2/payments';
+  readonly CARD_CHECKOUT: '/api/v2/checkout';
+  readonly CHECK_STATUS: '/api/v2/transaction-status';
+};
+
+export interface PayHeroClientOptions {
+  /** Defaults to https://backend.payhero.co.ke; a trailing /api/v2 is ignored */
+  baseUrl?: string;
+  /** Basic auth token, with or without the "Basic " prefix */
+  authToken?: string;
+  /** Used when there is no authToken */
+  apiUsername?: string;
+  apiPassword?: string;
+  channelId?: number | string;
+  callbackUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/** channel_id and callback_url default to the client's own */
+export interface InitiatePaymentRequest extends Omit<PayHeroPaymentRequest, 'channel_id'> {
+  channel_id?: number;
+}
+
+export interface InitiatePaymentResponse {
+  success: true;
+  status: string;
+  reference?: string;
+  CheckoutRequestID?: string;
+  [key: string]: unknown;
+}
+
+/** channel_id and callback_url default to the client's own */
+export interface CreateCheckoutRequest {
+  amount: number;
+  currency?: string;
+  external_reference: string;
+  customer_name: string;
+  customer_email: string;
+  /** Where the buyer is sent back to once they have paid or given up */
+  return_url: string;
+  channel_id?: number;
+  callback_url?: string;
+}
+
+export interface CreateCheckoutResponse {
+  success: true;
+  status: string;
+  reference: string;
+  /** The hosted page to redirect the buyer to */
+  checkout_url: string;
+  [key: string]: unknown;
+}
+
+export interface TransactionStatusResponse extends PayHeroStatusResponse {
+  success: true;
+  status: NonNullable<PayHeroStatusResponse['status']>;
+  reference: string;
+  CheckoutRequestID?: string;
+  provider?: string;
+  amount?: number;
+  [key: string]: unknown;
+}
+
+export type PayHeroErrorCode = 'NOT_CONFIGURED' | 'REQUEST_FAILED' | 'INVALID_RESPONSE' | 'API_ERROR';
+
+export declare class PayHeroError extends Error {
+  code: PayHeroErrorCode;
+  /** HTTP status PayHero answered with, if it answered */
+  status?: number;
+  details?: unknown;
+  constructor(code: PayHeroErrorCode, message: string, extra?: { status?: number; details?: unknown });
+}
+
+export declare class PayHeroClient {
+  readonly baseUrl: string;
+  readonly isConfigured: boolean;
+  constructor(options?: PayHeroClientOptions);
+  static fromEnv(env?: Record<string, string | undefined>): PayHeroClient;
+  initiatePayment(request: InitiatePaymentRequest): Promise<InitiatePaymentResponse>;
+  createCheckout(request: CreateCheckoutRequest): Promise<CreateCheckoutResponse>;
+  getTransactionStatus(reference: string): Promise<TransactionStatusResponse>;
+}
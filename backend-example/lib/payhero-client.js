@@ -0,0 +1,201 @@
+// PayHero API client, the only code that talks to PayHero.
+//
+// Used by the Express server and the Next status route. Base URL and credentials come
+// from the options (or the environment with fromEnv), never from the browser. Failures
+// throw PayHeroError; HTTP errors from PayHero keep their status and body.
+// Types: payhero-client.d.ts.
+
+const DEFAULT_BASE_URL = 'https://backend.payhero.co.ke';
+
+// Paths under the base URL, as per the PayHero v2 documentation
+const PAYHERO_ENDPOINTS = {
+  INITIATE_PAYMENT: '/api/v2/payments',
+  CARD_CHECKOUT: '/api/v2/checkout',
+  CHECK_STATUS: '/api/v2/transaction-status'
+};
+
+class PayHeroError extends Error {
+  constructor(code, message, { status, details } = {}) {
+    super(message);
+    this.name = 'PayHeroError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Base URL without a trailing slash or API version, so endpoint paths are never doubled
+ */
+const normalizeBaseUrl = (baseUrl) =>
+  String(baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '').replace(/\/api\/v2$/, '');
+
+/**
+ * Authorization header value. Accepts a ready-made Basic token (with or without the
+ * "Basic " prefix) or an API username and password.
+ */
+const toAuthorization = ({ authToken, apiUsername, apiPassword }) => {
+  if (authToken) {
+    return /^Basic\s/i.test(authToken) ? authToken : `Basic ${authToken}`;
+  }
+  if (apiUsername && apiPassword) {
+    return `Basic ${Buffer.from(`${apiUsername}:${apiPassword}`).toString('base64')}`;
+  }
+  return null;
+};
+
+class PayHeroClient {
+  constructor(options = {}) {
+    this.baseUrl = normalizeBaseUrl(options.baseUrl);
+    this.authorization = toAuthorization(options);
+    this.channelId = options.channelId ? Number(options.channelId) : undefined;
+    this.callbackUrl = options.callbackUrl;
+    this.fetch = options.fetch || globalThis.fetch;
+  }
+
+  /**
+   * Client configured from PAYHERO_* environment variables.
+   * PAYHERO_AUTH_TOKEN takes precedence over PAYHERO_KEY and PAYHERO_SECRET.
+   */
+  static fromEnv(env = process.env) {
+    return new PayHeroClient({
+      baseUrl: env.PAYHERO_BASE_URL,
+      authToken: env.PAYHERO_AUTH_TOKEN,
+      apiUsername: env.PAYHERO_KEY,
+      apiPassword: env.PAYHERO_SECRET,
+      channelId: env.PAYHERO_CHANNEL_ID,
+      callbackUrl: env.PAYHERO_CALLBACK_URL
+    });
+  }
+
+  get isConfigured() {
+    return Boolean(this.authorization);
+  }
+
+  async request(path, init = {}) {
+    if (!this.authorization) {
+      throw new PayHeroError('NOT_CONFIGURED', 'PayHero credentials are not configured');
+    }
+
+    let response;
+    try {
+      response = await this.fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': this.authorization,
+          ...init.headers
+        }
+      });
+    } catch (error) {
+      throw new PayHeroError('REQUEST_FAILED', `Could not reach PayHero: ${error.message}`, { details: error });
+    }
+
+    // PayHero sometimes answers with an empty or non-JSON body
+    const text = await response.text();
+    let data = {};
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      throw new PayHeroError('INVALID_RESPONSE', `Non-JSON response from PayHero (${response.status})`, {
+        status: response.status,
+        details: text.slice(0, 200)
+      });
+    }
+
+    if (!response.ok) {
+      throw new PayHeroError(
+        'API_ERROR',
+        `PayHero API Error: ${response.status} - ${data.error_message || data.message || 'Unknown error'}`,
+        { status: response.status, details: data }
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Send an STK push. channel_id and callback_url default to the client's.
+   */
+  async initiatePayment(request) {
+    const body = {
+      ...request,
+      amount: Number(request.amount),
+      channel_id: request.channel_id ?? this.channelId,
+      callback_url: request.callback_url ?? this.callbackUrl
+    };
+
+    const data = await this.request(PAYHERO_ENDPOINTS.INITIATE_PAYMENT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!data.reference && !data.CheckoutRequestID) {
+      throw new PayHeroError('INVALID_RESPONSE', 'PayHero response is missing reference and CheckoutRequestID', {
+        details: data
+      });
+    }
+
+    return {
+      ...data,
+      success: true,
+      status: data.status || 'QUEUED'
+    };
+  }
+
+  /**
+   * Create a hosted card checkout the buyer is redirected to, returning its
+   * checkout_url and PayHero's reference for the payment. channel_id and callback_url
+   * default to the client's.
+   */
+  async createCheckout(request) {
+    const body = {
+      ...request,
+      amount: Number(request.amount),
+      channel_id: request.channel_id ?? this.channelId,
+      callback_url: request.callback_url ?? this.callbackUrl
+    };
+
+    const data = await this.request(PAYHERO_ENDPOINTS.CARD_CHECKOUT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!data.reference || !data.checkout_url) {
+      throw new PayHeroError('INVALID_RESPONSE', 'PayHero response is missing reference or checkout_url', {
+        details: data
+      });
+    }
+
+    return {
+      ...data,
+      success: true,
+      status: data.status || 'QUEUED'
+    };
+  }
+
+  /**
+   * Status of a payment, by the reference PayHero returned when it was initiated
+   */
+  async getTransactionStatus(reference) {
+    const data = await this.request(
+      `${PAYHERO_ENDPOINTS.CHECK_STATUS}?reference=${encodeURIComponent(reference)}`,
+      { method: 'GET' }
+    );
+
+    return {
+      ...data,
+      success: true,
+      status: data.status || 'PENDING',
+      reference: data.reference || reference
+    };
+  }
+}
+
+module.exports = {
+  PAYHERO_ENDPOINTS,
+  PayHeroError,
+  PayHeroClient
+};
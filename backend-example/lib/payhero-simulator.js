@@ -0,0 +1,335 @@
+// Local stand-in for PayHero, for development and automated tests without real money.
+//
+// Implements the PAYHERO_ENDPOINTS the client uses. An STK push stays QUEUED for a
+// moment, then resolves with the outcome scripted for its phone number and the
+// simulator POSTs the result to the push's callback_url, as PayHero would, signed with
+// the webhook secret when one is given. A card checkout stays QUEUED until the buyer
+// pays, declines or cancels on the simulator's checkout page, which then sends them to
+// the checkout's return_url.
+
+const crypto = require('crypto');
+const express = require('express');
+const { PAYHERO_ENDPOINTS } = require('./payhero-client');
+const { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookPayload } = require('./webhook-signature');
+
+// How each outcome ends, with the M-Pesa result code PayHero reports for it
+const OUTCOMES = {
+  success: { status: 'SUCCESS', transactionStatus: 'completed', resultCode: 0, resultDesc: 'The service request is processed successfully.' },
+  wrong_pin: { status: 'FAILED', transactionStatus: 'failed', resultCode: 2001, resultDesc: 'The initiator information is invalid.' },
+  timeout: { status: 'FAILED', transactionStatus: 'failed', resultCode: 1037, resultDesc: 'DS timeout user cannot be reached' },
+  insufficient_funds: { status: 'FAILED', transactionStatus: 'failed', resultCode: 1, resultDesc: 'The balance is insufficient for the transaction.' },
+  cancelled: { status: 'FAILED', transactionStatus: 'cancelled', resultCode: 1032, resultDesc: 'Request cancelled by user.' }
+};
+
+// Test numbers with a fixed outcome. Any other number gets the default outcome.
+const TEST_PHONES = {
+  '254700000000': 'success',
+  '254700000001': 'wrong_pin',
+  '254700000002': 'timeout',
+  '254700000003': 'insufficient_funds',
+  '254700000004': 'cancelled'
+};
+
+// What each button on the card checkout page does
+const CARD_OUTCOMES = {
+  pay: 'success',
+  decline: 'insufficient_funds',
+  cancel: 'cancelled'
+};
+
+const randomCode = (length) => crypto.randomBytes(length).toString('hex').slice(0, length).toUpperCase();
+
+const checkOutcome = (outcome) => {
+  if (!OUTCOMES[outcome]) {
+    throw new Error(`Unknown outcome "${outcome}", expected one of: ${Object.keys(OUTCOMES).join(', ')}`);
+  }
+  return outcome;
+};
+
+/**
+ * Callback body in the shape /api/payment-callback reads, with the M-Pesa result for
+ * reference
+ */
+const toCallback = (transaction) => {
+  const outcome = OUTCOMES[transaction.outcome];
+  return {
+    event: outcome.status === 'SUCCESS' ? 'payment.completed' : 'payment.failed',
+    data: {
+      transaction: {
+        id: transaction.reference,
+        reference: transaction.externalReference,
+        status: outcome.transactionStatus,
+        amount: transaction.amount,
+        currency: 'KES',
+        provider: transaction.provider,
+        customer_name: transaction.customerName,
+        phone_number: transaction.phoneNumber,
+        created_at: transaction.createdAt,
+        updated_at: transaction.updatedAt,
+        account_id: transaction.accountId,
+        channel_id: String(transaction.channelId),
+        checkout_request_id: transaction.checkoutRequestId,
+        provider_reference: transaction.providerReference,
+        result_code: outcome.resultCode,
+        result_description: outcome.resultDesc
+      }
+    },
+    timestamp: transaction.updatedAt
+  };
+};
+
+const toStatusResponse = (transaction) => ({
+  success: true,
+  status: transaction.status,
+  reference: transaction.reference,
+  CheckoutRequestID: transaction.checkoutRequestId,
+  provider: transaction.provider,
+  amount: transaction.amount,
+  provider_reference: transaction.providerReference,
+  third_party_reference: transaction.externalReference,
+  transaction_date: transaction.updatedAt,
+  ...(transaction.status === 'FAILED' && { message: OUTCOMES[transaction.outcome].resultDesc })
+});
+
+/**
+ * Express app simulating PayHero.
+ * `outcomes` maps phone numbers (254...) to an outcome on top of the test numbers.
+ * Pushes resolve after `delayMs`, or `timeoutMs` for the timeout outcome.
+ */
+const createPayHeroSimulator = ({
+  outcomes = {},
+  defaultOutcome = 'success',
+  delayMs = 5000,
+  timeoutMs = 30000,
+  accountId = 'SIMULATOR',
+  callbackUrl,
+  webhookSecret,
+  fetch = globalThis.fetch,
+  log = console
+} = {}) => {
+  const phoneOutcomes = new Map(Object.entries({ ...TEST_PHONES, ...outcomes }).map(([phone, outcome]) => [phone, checkOutcome(outcome)]));
+  checkOutcome(defaultOutcome);
+
+  const transactions = new Map();
+  const timers = new Set();
+
+  const sendCallback = async (transaction) => {
+    if (!transaction.callbackUrl) {
+      return;
+    }
+    const body = JSON.stringify(toCallback(transaction));
+    const headers = { 'Content-Type': 'application/json' };
+    if (webhookSecret) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers[TIMESTAMP_HEADER] = timestamp;
+      headers[SIGNATURE_HEADER] = signWebhookPayload(body, timestamp, webhookSecret);
+    }
+
+    try {
+      const response = await fetch(transaction.callbackUrl, { method: 'POST', headers, body });
+      transaction.callbackStatus = response.status;
+      log.info(`Callback for ${transaction.reference} answered ${response.status}`);
+    } catch (error) {
+      transaction.callbackStatus = null;
+      log.warn(`Callback for ${transaction.reference} to ${transaction.callbackUrl} failed: ${error.message}`);
+    }
+  };
+
+  const resolve = (transaction) => {
+    const outcome = OUTCOMES[transaction.outcome];
+    transaction.status = outcome.status;
+    transaction.providerReference = outcome.status === 'SUCCESS' ? randomCode(10) : null;
+    transaction.updatedAt = new Date().toISOString();
+    log.info(`${transaction.reference} (${transaction.phoneNumber || transaction.provider}): ${transaction.outcome}`);
+    return sendCallback(transaction);
+  };
+
+  const app = express();
+  app.use(express.json());
+
+  // PayHero rejects requests without Basic auth, and so does the simulator
+  app.use('/api/v2', (req, res, next) => {
+    if (!/^Basic\s+\S+/i.test(req.headers.authorization || '')) {
+      return res.status(401).json({ error_message: 'Unauthorized' });
+    }
+    next();
+  });
+
+  app.post(PAYHERO_ENDPOINTS.INITIATE_PAYMENT, (req, res) => {
+    const { amount, phone_number, channel_id, provider, external_reference, customer_name, callback_url } = req.body || {};
+
+    if (!(Number(amount) > 0) || !/^254\d{9}$/.test(String(phone_number || '')) || !channel_id) {
+      return res.status(400).json({ error_message: 'amount, phone_number (254...) and channel_id are required' });
+    }
+
+    const now = new Date().toISOString();
+    const transaction = {
+      reference: randomCode(10),
+      checkoutRequestId: `ws_CO_${Date.now()}${randomCode(6)}`,
+      externalReference: external_reference || null,
+      amount: Number(amount),
+      phoneNumber: phone_number,
+      provider: provider || 'm-pesa',
+      customerName: customer_name || null,
+      accountId,
+      channelId: channel_id,
+      callbackUrl: callback_url || callbackUrl,
+      outcome: phoneOutcomes.get(phone_number) || defaultOutcome,
+      status: 'QUEUED',
+      providerReference: null,
+      callbackStatus: undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+    transactions.set(transaction.reference, transaction);
+
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      resolve(transaction);
+    }, transaction.outcome === 'timeout' ? timeoutMs : delayMs);
+    timers.add(timer);
+
+    res.status(201).json({
+      success: true,
+      status: 'QUEUED',
+      reference: transaction.reference,
+      CheckoutRequestID: transaction.checkoutRequestId
+    });
+  });
+
+  app.post(PAYHERO_ENDPOINTS.CARD_CHECKOUT, (req, res) => {
+    const { amount, currency, external_reference, customer_name, customer_email, channel_id, callback_url, return_url } = req.body || {};
+
+    if (!(Number(amount) > 0) || !return_url || !channel_id) {
+      return res.status(400).json({ error_message: 'amount, return_url and channel_id are required' });
+    }
+
+    const now = new Date().toISOString();
+    const transaction = {
+      reference: randomCode(10),
+      checkoutRequestId: null,
+      externalReference: external_reference || null,
+      amount: Number(amount),
+      currency: currency || 'KES',
+      phoneNumber: null,
+      provider: 'card',
+      customerName: customer_name || null,
+      customerEmail: customer_email || null,
+      accountId,
+      channelId: channel_id,
+      callbackUrl: callback_url || callbackUrl,
+      returnUrl: return_url,
+      outcome: null,
+      status: 'QUEUED',
+      providerReference: null,
+      callbackStatus: undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+    transactions.set(transaction.reference, transaction);
+
+    res.status(201).json({
+      success: true,
+      status: 'QUEUED',
+      reference: transaction.reference,
+      checkout_url: `${req.protocol}://${req.get('host')}/simulator/checkout/${transaction.reference}`
+    });
+  });
+
+  // The hosted card checkout page, standing in for PayHero's
+  app.get('/simulator/checkout/:reference', (req, res) => {
+    const transaction = transactions.get(req.params.reference);
+    if (!transaction || transaction.provider !== 'card') {
+      return res.status(404).send('Checkout not found');
+    }
+
+    const buttons = Object.keys(CARD_OUTCOMES)
+      .map((action) => `<button name="action" value="${action}">${action[0].toUpperCase()}${action.slice(1)}</button>`)
+      .join(' ');
+    res.type('html').send(`<!doctype html>
+<title>PayHero simulator checkout</title>
+<h1>Pay ${transaction.currency} ${transaction.amount}</h1>
+<p>${transaction.externalReference || transaction.reference} (${transaction.status})</p>
+<form method="post">${buttons}</form>`);
+  });
+
+  app.post('/simulator/checkout/:reference', express.urlencoded({ extended: false }), async (req, res) => {
+    const transaction = transactions.get(req.params.reference);
+    const outcome = CARD_OUTCOMES[req.body && req.body.action];
+    if (!transaction || transaction.provider !== 'card') {
+      return res.status(404).send('Checkout not found');
+    }
+    if (!outcome) {
+      return res.status(400).send(`action must be one of: ${Object.keys(CARD_OUTCOMES).join(', ')}`);
+    }
+
+    if (transaction.status === 'QUEUED') {
+      transaction.outcome = outcome;
+      await resolve(transaction);
+    }
+
+    const returnUrl = new URL(transaction.returnUrl);
+    returnUrl.searchParams.set('reference', transaction.reference);
+    res.redirect(303, returnUrl.toString());
+  });
+
+  app.get(PAYHERO_ENDPOINTS.CHECK_STATUS, (req, res) => {
+    const transaction = transactions.get(String(req.query.reference || ''));
+    if (!transaction) {
+      return res.status(404).json({ error_message: 'Transaction not found' });
+    }
+    res.json(toStatusResponse(transaction));
+  });
+
+  // Scripting and inspection, not part of PayHero's API
+  app.get('/simulator/phones', (req, res) => {
+    res.json({ defaultOutcome, outcomes: Object.fromEntries(phoneOutcomes), available: Object.keys(OUTCOMES) });
+  });
+
+  app.put('/simulator/phones/:phone', (req, res) => {
+    const outcome = req.body && req.body.outcome;
+    if (!OUTCOMES[outcome]) {
+      return res.status(400).json({ error_message: `outcome must be one of: ${Object.keys(OUTCOMES).join(', ')}` });
+    }
+    phoneOutcomes.set(req.params.phone, outcome);
+    res.json({ phone: req.params.phone, outcome });
+  });
+
+  app.delete('/simulator/phones/:phone', (req, res) => {
+    phoneOutcomes.delete(req.params.phone);
+    res.status(204).end();
+  });
+
+  app.get('/simulator/transactions', (req, res) => {
+    res.json({ transactions: [...transactions.values()] });
+  });
+
+  // Resolve a queued push now instead of waiting for its delay
+  app.post('/simulator/transactions/:reference/resolve', async (req, res) => {
+    const transaction = transactions.get(req.params.reference);
+    if (!transaction) {
+      return res.status(404).json({ error_message: 'Transaction not found' });
+    }
+    if (transaction.status === 'QUEUED') {
+      // A card checkout nobody acted on ends as if the buyer paid
+      transaction.outcome = transaction.outcome || 'success';
+      await resolve(transaction);
+    }
+    res.json(toStatusResponse(transaction));
+  });
+
+  // Stop pending resolutions, so tests can shut down cleanly
+  app.locals.stop = () => {
+    timers.forEach(clearTimeout);
+    timers.clear();
+  };
+
+  return app;
+};
+
+module.exports = {
+  OUTCOMES,
+  CARD_OUTCOMES,
+  TEST_PHONES,
+  createPayHeroSimulator
+};
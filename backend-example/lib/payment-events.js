@@ -0,0 +1,78 @@
+// Live payment status for browsers waiting on a payment.
+//
+// Every change of a stored payment's state is published here, and streamed to the
+// browser with Server-Sent Events on GET /api/payments/events/:transactionId, keyed by
+// the reference PayHero returned for the STK push. A stream starts with the payment's
+// current state, so a browser that connects after the callback still sees it. Browsers
+// that cannot open the stream fall back to polling the status route.
+
+const { EventEmitter } = require('events');
+
+const HEARTBEAT_INTERVAL = parseInt(process.env.PAYMENT_EVENTS_HEARTBEAT_MS || '15000', 10);
+const RETRY_INTERVAL = 3000;
+
+const emitter = new EventEmitter();
+// One listener per open stream; there is no sensible cap
+emitter.setMaxListeners(0);
+
+/**
+ * A stored payment as sent to the browser
+ */
+const toPaymentEvent = (payment) => ({
+  reference: payment.transaction_id || payment.reference,
+  state: payment.status,
+  updatedAt: payment.updated_at
+});
+
+/**
+ * Tell every open stream for a payment about its current state
+ */
+const publishPaymentState = (payment) => {
+  emitter.emit(payment.reference, toPaymentEvent(payment));
+};
+
+/**
+ * Call `listener(event)` whenever the payment stored under `reference` changes state.
+ * Returns a function that stops listening.
+ */
+const subscribeToPayment = (reference, listener) => {
+  emitter.on(reference, listener);
+  return () => emitter.off(reference, listener);
+};
+
+/**
+ * Turn a response into a Server-Sent Events stream of a payment's state, starting with
+ * its current one. The stream stays open until the browser disconnects.
+ */
+const streamPaymentEvents = (req, res, payment) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const send = (event) => {
+    res.write(`event: payment\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  res.write(`retry: ${RETRY_INTERVAL}\n\n`);
+  send(toPaymentEvent(payment));
+
+  const unsubscribe = subscribeToPayment(payment.reference, send);
+  // Comment lines keep idle connections from being closed by proxies
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+module.exports = {
+  publishPaymentState,
+  subscribeToPayment,
+  streamPaymentEvents
+};
@@ -0,0 +1,42 @@
+// Types for payment-state.mjs
+
+export type PaymentState = 'idle' | 'initiating' | 'pending' | 'processing' | 'success' | 'failed' | 'cancelled';
+
+// Statuses PayHero reports, from transaction-status and from its callbacks
+export type ProviderPaymentStatus =
+  | 'QUEUED' | 'PENDING' | 'PROCESSING' | 'SUCCESS' | 'FAILED'
+  | 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export declare const PAYMENT_STATES: readonly PaymentState[];
+
+export interface TransitionOptions {
+  // The move comes from reconciling with PayHero, which may turn a failure into a success
+  reconciliation?: boolean;
+  // The client resetting the payment modal, the only way back to idle
+  reset?: boolean;
+  // The status was reported by PayHero or the backend, never idle or initiating
+  reported?: boolean;
+  // For the log line of an illegal move
+  reference?: string;
+  source?: string;
+  logger?: Pick<Console, 'warn'>;
+}
+
+export interface TransitionResult {
+  state: PaymentState | null;
+  changed: boolean;
+  legal: boolean;
+}
+
+export declare const toPaymentState: (status: string | null | undefined) => PaymentState | null;
+export declare const isFinalState: (state: string | null | undefined) => boolean;
+export declare const canTransition: (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  options?: Pick<TransitionOptions, 'reconciliation' | 'reset' | 'reported'>
+) => boolean;
+export declare const transitionPayment: (
+  from: string | null | undefined,
+  to: string | null | undefined,
+  options?: TransitionOptions
+) => TransitionResult;
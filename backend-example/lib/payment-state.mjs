@@ -0,0 +1,113 @@
+// Payment state machine, shared by the backend (require) and the frontend (import).
+//
+// Payment statuses come from several places: PayHero's transaction status
+// (QUEUED, PENDING, PROCESSING, SUCCESS, FAILED), its callbacks (pending, completed,
+// failed, cancelled) and the payment modal itself. Each maps to one PaymentState, and a
+// payment only moves between states along TRANSITIONS. A failed or cancelled payment
+// only becomes successful through reconciliation. Illegal moves are logged and ignored.
+// Types: payment-state.d.mts.
+
+export const PAYMENT_STATES = ['idle', 'initiating', 'pending', 'processing', 'success', 'failed', 'cancelled'];
+
+const STATUS_STATES = {
+  idle: 'idle',
+  initiating: 'initiating',
+  queued: 'pending',
+  pending: 'pending',
+  processing: 'processing',
+  success: 'success',
+  completed: 'success',
+  failed: 'failed',
+  cancelled: 'cancelled',
+  canceled: 'cancelled'
+};
+
+// Every state can also go back to idle, but only when the client resets the payment
+// modal to let go of a payment (the `reset` option)
+const TRANSITIONS = {
+  idle: ['initiating'],
+  initiating: ['pending', 'processing', 'success', 'failed', 'cancelled'],
+  pending: ['processing', 'success', 'failed', 'cancelled'],
+  processing: ['success', 'failed', 'cancelled'],
+  success: [],
+  // A callback can tell us a payment reported as failed was cancelled
+  failed: ['cancelled'],
+  cancelled: []
+};
+
+// Only allowed for a reconciliation event, e.g. PayHero later reporting the money arrived
+const RECONCILIATION_TRANSITIONS = {
+  failed: ['success'],
+  cancelled: ['success']
+};
+
+// States only the payment modal moves a payment into. PayHero never reports them, so a
+// reported status (the `reported` option) naming one is rejected.
+const CLIENT_STATES = ['idle', 'initiating'];
+
+// Statuses some sources report for a state they have no name for: PayHero's transaction
+// status says FAILED for a payment its callback reported as cancelled
+const REPORTED_AS = {
+  cancelled: ['failed']
+};
+
+/**
+ * PaymentState for any status a provider, callback or component reports, or null
+ */
+export const toPaymentState = (status) => STATUS_STATES[String(status ?? '').toLowerCase()] ?? null;
+
+export const isFinalState = (state) => ['success', 'failed', 'cancelled'].includes(toPaymentState(state));
+
+export const canTransition = (from, to, { reconciliation = false, reset = false, reported = false } = {}) => {
+  const fromState = toPaymentState(from);
+  const toState = toPaymentState(to);
+
+  if (!toState) {
+    return false;
+  }
+  if (toState === 'idle') {
+    return reset;
+  }
+  if (reported && CLIENT_STATES.includes(toState)) {
+    return false;
+  }
+  if (!fromState || fromState === toState) {
+    return true;
+  }
+
+  return TRANSITIONS[fromState].includes(toState)
+    || (reconciliation && (RECONCILIATION_TRANSITIONS[fromState] || []).includes(toState));
+};
+
+/**
+ * Move a payment from one status to another. Both may be raw provider statuses.
+ * Returns the state the payment is in afterwards: the new one if the move is legal,
+ * otherwise the old one, and logs the illegal move.
+ */
+export const transitionPayment = (from, to, {
+  reconciliation = false,
+  reset = false,
+  reported = false,
+  reference,
+  source,
+  logger = console
+} = {}) => {
+  const fromState = toPaymentState(from);
+  const toState = toPaymentState(to);
+
+  if (fromState && (REPORTED_AS[fromState] || []).includes(toState)) {
+    return { state: fromState, changed: false, legal: true };
+  }
+
+  if (canTransition(fromState, toState, { reconciliation, reset, reported })) {
+    return { state: toState, changed: toState !== fromState, legal: true };
+  }
+
+  logger.warn(
+    toState
+      ? `Illegal payment transition ${fromState} -> ${toState}`
+      : `Unknown payment status ${JSON.stringify(to)}`,
+    { reference, source, from, to }
+  );
+  return { state: fromState, changed: false, legal: false };
+};
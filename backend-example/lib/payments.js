@@ -0,0 +1,91 @@
+// Payment status updates, and the tickets of payments that succeeded.
+//
+// Statuses from PayHero status checks and callbacks go through the payment state
+// machine (payment-state.mjs): payments are stored with their PaymentState, moves the
+// machine does not allow are logged and ignored, and the payment's ticket hold follows
+// the resulting state. Every change is published to the payment's live status stream
+// (payment-events.js).
+
+const { transitionPayment } = require('./payment-state.mjs');
+const { syncHoldWithPayment } = require('./holds');
+const { publishPaymentState } = require('./payment-events');
+const { getOrder, markOrderPaid } = require('./orders');
+const { issueTickets } = require('./tickets');
+const { getStore } = require('./store');
+
+/**
+ * Apply a reported status to a stored payment. `source` is where the status came from
+ * ('status-check', 'webhook', ...); pass `reconciliation` for reconciliation events.
+ * `details` is what PayHero reported, whose M-PESA receipt code is kept with the payment.
+ * Returns the transition, whose `state` is the payment's state afterwards.
+ */
+const recordPaymentStatus = (reference, status, source, details, { reconciliation = false } = {}) => {
+  const store = getStore();
+
+  const { transition, stored } = store.transaction(() => {
+    const payment = store.getPayment(reference);
+    // Every status recorded here was reported by PayHero, never set by the client
+    const transition = transitionPayment(payment && payment.status, status, { reference, source, reconciliation, reported: true });
+    const stored = Boolean(payment && transition.changed);
+
+    if (stored) {
+      store.setPaymentStatus(reference, transition.state, source, details);
+    }
+    if (payment && details && details.provider_reference && details.provider_reference !== payment.provider_reference) {
+      store.updatePayment(reference, { provider_reference: details.provider_reference });
+    }
+    if (transition.legal) {
+      syncHoldWithPayment(reference, transition.state);
+    }
+
+    return { transition, stored };
+  });
+
+  // Only once committed, so nobody is told about a change that was rolled back
+  if (stored) {
+    publishPaymentState(store.getPayment(reference));
+  }
+
+  return transition;
+};
+
+/**
+ * Ask PayHero for a payment's status and record it as a reconciliation event from
+ * `source`. Returns the payment's state afterwards and what PayHero reported.
+ */
+const reconcilePayment = async (payHero, payment, source) => {
+  const status = await payHero.getTransactionStatus(payment.transaction_id || payment.reference);
+  const { state } = recordPaymentStatus(payment.reference, status.status, source, status, { reconciliation: true });
+  return { state, status };
+};
+
+/**
+ * Issue the tickets for a payment recorded as successful, to the buyer named on its
+ * order. Tickets already issued for the payment are returned as they are.
+ * Throws TicketIssueError when the tickets can no longer be had.
+ */
+const issuePaymentTickets = (payment, { amountPaid } = {}) => {
+  const order = getOrder(payment.reference);
+
+  const tickets = issueTickets({
+    // Tickets are keyed by PayHero's reference, as when the buyer's browser issues them
+    reference: payment.transaction_id || payment.reference,
+    holdReference: payment.reference,
+    matchId: order ? order.matchId : payment.match_id,
+    items: order ? order.items : [{ ticketType: payment.ticket_type, quantity: payment.quantity || 1 }],
+    holderName: (order && order.customerName) || payment.customer_name || '',
+    holderEmail: (order && order.customerEmail) || '',
+    amountPaid
+  });
+
+  if (order) {
+    markOrderPaid(order.reference);
+  }
+  return tickets;
+};
+
+module.exports = {
+  recordPaymentStatus,
+  reconcilePayment,
+  issuePaymentTickets
+};
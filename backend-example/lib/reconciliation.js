@@ -0,0 +1,232 @@
+// Reconciliation of our payments with PayHero.
+//
+// A payment whose callback never arrived would stay pending forever, so the reconciler
+// asks PayHero for the status of every payment still pending RECONCILE_AFTER_MINUTES
+// after it was created, and records the answer as a reconciliation event: a late
+// success gets its tickets issued, a failure releases its hold (payments.js). A payment
+// PayHero still reports as pending after RECONCILE_EXPIRE_MINUTES is given up on and
+// recorded as failed, which PayHero reporting it paid later still turns into a success.
+//
+// Once a day in Kenya (East Africa Time) is over, a report compares each payment made
+// that day with what PayHero reports for it and lists the discrepancies. The report
+// only reads: the reconciler is what corrects payments.
+
+const { recordPaymentStatus, reconcilePayment, issuePaymentTickets } = require('./payments');
+const { isFinalState, toPaymentState } = require('./payment-state.mjs');
+const { getStore } = require('./store');
+
+const RECONCILE_AFTER = parseInt(process.env.RECONCILE_AFTER_MINUTES || '5', 10) * 60 * 1000;
+const RECONCILE_EXPIRE_AFTER = parseInt(process.env.RECONCILE_EXPIRE_MINUTES || '60', 10) * 60 * 1000;
+const RECONCILE_INTERVAL = parseInt(process.env.RECONCILE_INTERVAL_SECONDS || '60', 10) * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+// How long issuing the tickets of a successful payment is retried
+const TICKET_RETRY_WINDOW = DAY;
+// East Africa Time is UTC+3 all year
+const REPORT_UTC_OFFSET = 3 * 60 * 60 * 1000;
+
+class ReconciliationError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'ReconciliationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Drive one payment towards a final state and issue its tickets if it succeeded.
+ * Returns what became of it: 'succeeded', 'failed', 'expired' or 'pending'.
+ */
+const settlePayment = async (payHero, payment) => {
+  let state = payment.status;
+  let amountPaid;
+
+  if (state !== 'success') {
+    const reconciled = await reconcilePayment(payHero, payment, 'reconciliation');
+    state = reconciled.state;
+    amountPaid = reconciled.status.amount;
+
+    if (!isFinalState(state)) {
+      if (Date.now() - Date.parse(payment.created_at) < RECONCILE_EXPIRE_AFTER) {
+        return 'pending';
+      }
+      recordPaymentStatus(payment.reference, 'failed', 'reconciliation', {
+        reason: 'expired',
+        status: reconciled.status.status
+      }, { reconciliation: true });
+      console.log(`Payment ${payment.reference} expired after PayHero kept reporting it ${reconciled.status.status}`);
+      return 'expired';
+    }
+  }
+
+  if (state !== 'success') {
+    return 'failed';
+  }
+
+  const tickets = issuePaymentTickets(getStore().getPayment(payment.reference), { amountPaid });
+  console.log(`Tickets ${tickets.map((ticket) => ticket.ticketId).join(', ')} issued for reconciled payment ${payment.reference}`);
+  return 'succeeded';
+};
+
+/**
+ * Check every stale pending payment, and every recent successful one without tickets,
+ * with PayHero. Returns how many were checked and what became of them.
+ */
+const reconcilePendingPayments = async (payHero) => {
+  const now = Date.now();
+  const payments = getStore().listPaymentsToReconcile(
+    new Date(now - RECONCILE_AFTER).toISOString(),
+    new Date(now - TICKET_RETRY_WINDOW).toISOString()
+  );
+
+  const summary = { checked: payments.length, succeeded: 0, failed: 0, expired: 0, pending: 0, errors: 0 };
+  // One at a time, so a backlog doesn't flood PayHero
+  for (const payment of payments) {
+    try {
+      summary[await settlePayment(payHero, payment)] += 1;
+    } catch (error) {
+      summary.errors += 1;
+      console.error(`Reconciliation of payment ${payment.reference} failed:`, error.message);
+    }
+  }
+  return summary;
+};
+
+// The East Africa Time day (YYYY-MM-DD) a moment falls on
+const toReportDate = (time) => new Date(time + REPORT_UTC_OFFSET).toISOString().slice(0, 10);
+
+/**
+ * Compare one payment with PayHero's record of it. Returns its discrepancies, and
+ * the amount PayHero reports as collected for it.
+ */
+const comparePayment = async (payHero, payment) => {
+  const reference = payment.transaction_id || payment.reference;
+  const ourState = toPaymentState(payment.status);
+  const found = {
+    reference: payment.reference,
+    transactionId: payment.transaction_id,
+    ourState,
+    amount: payment.amount
+  };
+  const discrepancies = [];
+
+  if (ourState === 'success' && getStore().getTicketsByReference(reference).length === 0) {
+    discrepancies.push({ ...found, type: 'TICKETS_MISSING' });
+  }
+
+  let status;
+  try {
+    status = await payHero.getTransactionStatus(reference);
+  } catch (error) {
+    discrepancies.push({ ...found, type: 'PROVIDER_ERROR', message: error.message });
+    return { discrepancies, providerAmount: 0 };
+  }
+
+  const providerState = toPaymentState(status.status);
+  const providerAmount = status.amount === undefined ? payment.amount : Number(status.amount);
+  // PayHero's status says FAILED for a payment its callback reported as cancelled
+  const sameState = providerState === ourState || (ourState === 'cancelled' && providerState === 'failed');
+
+  if (!sameState) {
+    discrepancies.push({ ...found, type: 'STATE_MISMATCH', providerState, providerStatus: status.status });
+  }
+  if (providerState === 'success' && providerAmount !== payment.amount) {
+    discrepancies.push({ ...found, type: 'AMOUNT_MISMATCH', providerState, providerAmount });
+  }
+
+  return { discrepancies, providerAmount: providerState === 'success' ? providerAmount : 0 };
+};
+
+/**
+ * Compare the payments made on an East Africa Time day (YYYY-MM-DD) with PayHero's
+ * records, and save the report, replacing any earlier one for the day.
+ * Throws ReconciliationError for a date that isn't a day that is over.
+ */
+const generateDailyReport = async (payHero, date) => {
+  const start = /^\d{4}-\d{2}-\d{2}$/.test(String(date)) ? Date.parse(`${date}T00:00:00Z`) - REPORT_UTC_OFFSET : NaN;
+  if (Number.isNaN(start) || toReportDate(start) !== date) {
+    throw new ReconciliationError('INVALID_DATE', `Invalid report date ${date}, expected YYYY-MM-DD`);
+  }
+  if (start + DAY > Date.now()) {
+    throw new ReconciliationError('DAY_NOT_OVER', `${date} is not over yet`);
+  }
+
+  const payments = getStore().listPaymentsCreatedBetween(
+    new Date(start).toISOString(),
+    new Date(start + DAY).toISOString()
+  );
+
+  const summary = {
+    payments: payments.length,
+    states: {},
+    amountCollected: 0,
+    providerAmountCollected: 0,
+    discrepancies: 0
+  };
+  const discrepancies = [];
+
+  for (const payment of payments) {
+    const state = toPaymentState(payment.status) || payment.status;
+    summary.states[state] = (summary.states[state] || 0) + 1;
+    if (state === 'success') {
+      summary.amountCollected += payment.amount;
+    }
+
+    const compared = await comparePayment(payHero, payment);
+    summary.providerAmountCollected += compared.providerAmount;
+    discrepancies.push(...compared.discrepancies);
+  }
+  summary.discrepancies = discrepancies.length;
+
+  const report = { date, summary, discrepancies, generatedAt: new Date().toISOString() };
+  getStore().saveReconciliationReport(report);
+  return report;
+};
+
+const getReconciliationReport = (date) => getStore().getReconciliationReport(date) || null;
+
+const listReconciliationReports = () => getStore().listReconciliationReports();
+
+/**
+ * Reconcile stale payments in the background, and report on each day once it is over.
+ * Returns the timer so callers can stop it.
+ */
+const startReconciler = (payHero, interval = RECONCILE_INTERVAL) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // A slow PayHero can make a run outlast the interval
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const summary = await reconcilePendingPayments(payHero);
+      if (summary.checked > 0) {
+        console.log('Reconciled payments:', summary);
+      }
+
+      const yesterday = toReportDate(Date.now() - DAY);
+      if (!getStore().getReconciliationReport(yesterday)) {
+        const report = await generateDailyReport(payHero, yesterday);
+        console.log(`Reconciliation report for ${yesterday}: ${report.summary.discrepancies} discrepancies`);
+      }
+    } catch (error) {
+      console.error('Reconciler error:', error);
+    } finally {
+      running = false;
+    }
+  }, interval);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  ReconciliationError,
+  reconcilePendingPayments,
+  generateDailyReport,
+  getReconciliationReport,
+  listReconciliationReports,
+  startReconciler
+};
@@ -0,0 +1,103 @@
+// Ticket recovery for buyers who paid but got no ticket.
+//
+// The buyer signs in to their ticket wallet with a code texted to the phone number they
+// paid with, then gives either the M-PESA receipt code from their confirmation SMS or
+// the CHAN… reference of their order, which has to belong to a payment from that
+// number. A payment we haven't seen succeed is checked with PayHero again as a
+// reconciliation, so a callback that never arrived or a status recorded wrongly is
+// corrected, and the tickets of a paid order are issued (or returned again if they
+// already were).
+
+const { reconcilePayment, issuePaymentTickets } = require('./payments');
+const { normalizePhoneNumber } = require('./mobile-wallets.mjs');
+const { getStore } = require('./store');
+
+// How far back a receipt code is searched for among a phone number's payments
+const RECOVERY_LOOKBACK_DAYS = parseInt(process.env.RECOVERY_LOOKBACK_DAYS || '30', 10);
+// Most payments checked with PayHero for one receipt code
+const MAX_RECEIPT_CANDIDATES = 10;
+
+class RecoveryError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'RecoveryError';
+    this.code = code;
+  }
+}
+
+/**
+ * A receipt code PayHero hasn't told us about yet: check the phone number's recent
+ * unpaid payments until one turns out to have it
+ */
+const findPaymentByReceipt = async (payHero, phoneNumber, receipt) => {
+  const since = new Date(Date.now() - RECOVERY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const candidates = getStore().listPaymentsByPhone(phoneNumber, since)
+    .filter((payment) => payment.transaction_id && payment.status !== 'success' && !payment.provider_reference)
+    .slice(0, MAX_RECEIPT_CANDIDATES);
+
+  for (const payment of candidates) {
+    const { status } = await reconcilePayment(payHero, payment, 'recovery');
+    if (String(status.provider_reference || '').toUpperCase() === receipt) {
+      return payment;
+    }
+  }
+  return null;
+};
+
+const findPayment = async (payHero, phoneNumber, code) => {
+  const store = getStore();
+
+  const payment = code.startsWith('CHAN')
+    ? store.getPayment(code)
+    : store.getPaymentByProviderReference(code) || store.getPaymentByTransactionId(code);
+  if (payment) {
+    return payment.phone_number === phoneNumber ? payment : null;
+  }
+
+  return code.startsWith('CHAN') ? null : findPaymentByReceipt(payHero, phoneNumber, code);
+};
+
+/**
+ * Find a buyer's payment, reconcile it with PayHero if it isn't known to have
+ * succeeded, and issue its tickets. Returns { payment, tickets }.
+ * Throws RecoveryError when there is no such payment or it wasn't paid, and
+ * TicketIssueError when it was paid but its tickets can no longer be had.
+ */
+const recoverTickets = async (payHero, { phoneNumber, code }) => {
+  const phone = normalizePhoneNumber(phoneNumber);
+  const lookup = String(code || '').replace(/\s/g, '').toUpperCase();
+  if (!phone || !lookup) {
+    throw new RecoveryError(
+      'INVALID_REQUEST',
+      'Enter your M-PESA receipt code or CHAN reference'
+    );
+  }
+
+  const payment = await findPayment(payHero, phone, lookup);
+  if (!payment) {
+    // The same answer whichever of the two didn't match
+    throw new RecoveryError('PAYMENT_NOT_FOUND', 'No payment from this phone number matches that code');
+  }
+
+  let state = payment.status;
+  let amountPaid;
+  if (state !== 'success') {
+    const reconciled = await reconcilePayment(payHero, payment, 'recovery');
+    state = reconciled.state;
+    amountPaid = reconciled.status.amount;
+  }
+
+  if (state !== 'success') {
+    throw new RecoveryError('PAYMENT_NOT_CONFIRMED', `This payment was not completed (status: ${state || 'unknown'})`);
+  }
+
+  const tickets = issuePaymentTickets(getStore().getPayment(payment.reference), { amountPaid });
+  console.log(`Tickets ${tickets.map((ticket) => ticket.ticketId).join(', ')} recovered for payment ${payment.reference}`);
+
+  return { payment: getStore().getPayment(payment.reference), tickets };
+};
+
+module.exports = {
+  RecoveryError,
+  recoverTickets
+};
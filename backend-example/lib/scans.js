@@ -0,0 +1,57 @@
+// Gate scan records synced from the scanner app.
+// Scanners validate offline, so the backend is where cross-gate conflicts surface.
+
+const { getStore } = require('./store');
+
+/**
+ * Store a batch of scans from one device.
+ * Scans are keyed by their client-generated scanId, so re-syncing a batch is harmless.
+ */
+const recordScans = (deviceId, batch) => {
+  const store = getStore();
+  const syncedAt = new Date().toISOString();
+
+  return store.transaction(() => batch.reduce((accepted, scan) => {
+    if (!scan.scanId || !scan.ticketId) {
+      return accepted;
+    }
+
+    const inserted = store.saveScan({
+      scanId: scan.scanId,
+      ticketId: scan.ticketId,
+      matchId: scan.matchId || null,
+      gate: scan.gate || null,
+      deviceId,
+      result: scan.result,
+      scannedAt: scan.scannedAt,
+      syncedAt
+    });
+    return inserted ? accepted + 1 : accepted;
+  }, 0));
+};
+
+/**
+ * Report tickets that were admitted more than once across gates or devices
+ */
+const findConflicts = (ticketIds) => {
+  const conflicts = [];
+
+  for (const ticketId of new Set(ticketIds)) {
+    const admissions = getStore().listAdmissions(ticketId);
+
+    const places = new Set(admissions.map((scan) => `${scan.gate}:${scan.deviceId}`));
+    if (places.size > 1) {
+      conflicts.push({
+        ticketId,
+        scans: admissions
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+module.exports = {
+  recordScans,
+  findConflicts
+};
@@ -0,0 +1,91 @@
+// Signed tokens: ticket QR codes, admin and wallet sessions.
+// Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256(payload))
+//
+// Each kind of token is signed with its own secret, read from the environment when the
+// signer is created. Without it the server refuses to start when NODE_ENV=production;
+// anywhere else it warns and signs with a random secret for this process only.
+
+const crypto = require('crypto');
+
+const resolveSecret = (name) => {
+  const secret = process.env[name];
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`${name} must be set in production`);
+  }
+
+  // Tokens signed with a throwaway secret stop verifying after a restart
+  console.warn(`${name} is not set, using a random secret for this process`);
+  return crypto.randomBytes(32).toString('hex');
+};
+
+/**
+ * Create a signer using the secret in the `secretName` environment variable
+ */
+const createSigner = (secretName) => {
+  const secret = resolveSecret(secretName);
+
+  const hmac = (value) => crypto
+    .createHmac('sha256', secret)
+    .update(value)
+    .digest('base64url');
+
+  // Compare HMACs in constant time
+  const matches = (value, signature) => {
+    const expected = Buffer.from(hmac(value));
+    const actual = Buffer.from(String(signature));
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  };
+
+  /**
+   * Sign a payload. A numeric `exp` (seconds since the epoch) makes the token expire.
+   */
+  const sign = (payload) => {
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${hmac(encodedPayload)}`;
+  };
+
+  /**
+   * Check a token's signature and expiry and decode its payload.
+   * Returns { valid: true, payload } or { valid: false, reason } with reason
+   * MALFORMED_TOKEN, INVALID_SIGNATURE or EXPIRED.
+   */
+  const verify = (token) => {
+    if (typeof token !== 'string') {
+      return { valid: false, reason: 'MALFORMED_TOKEN' };
+    }
+
+    const [encodedPayload, signature, ...rest] = token.split('.');
+    if (!encodedPayload || !signature || rest.length > 0) {
+      return { valid: false, reason: 'MALFORMED_TOKEN' };
+    }
+
+    if (!matches(encodedPayload, signature)) {
+      return { valid: false, reason: 'INVALID_SIGNATURE' };
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch (error) {
+      return { valid: false, reason: 'MALFORMED_TOKEN' };
+    }
+
+    if (!payload || typeof payload !== 'object') {
+      return { valid: false, reason: 'MALFORMED_TOKEN' };
+    }
+    if (typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now()) {
+      return { valid: false, reason: 'EXPIRED' };
+    }
+
+    return { valid: true, payload };
+  };
+
+  return { sign, verify, hmac, matches };
+};
+
+module.exports = {
+  createSigner
+};
@@ -0,0 +1,138 @@
+// Text messages to buyers: ticket wallet sign-in codes and re-sent tickets.
+//
+// Gateways are registered below and selected with SMS_DRIVER (default: stub).
+// A gateway is a factory returning an object with:
+//
+//   name
+//   send({ to, message }) -> Promise<{ id }>, `to` in 2547XXXXXXXX form
+//
+// The stub sends nothing: it logs each message and keeps the most recent ones in memory,
+// so codes can be read off the console locally and tests can check what was sent.
+
+const SMS_SENDER_ID = process.env.SMS_SENDER_ID || '';
+// Messages the stub keeps
+const STUB_OUTBOX_SIZE = 100;
+
+class SmsError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'SmsError';
+    this.code = code;
+  }
+}
+
+const createStubGateway = () => {
+  const outbox = [];
+  let sent = 0;
+
+  return {
+    name: 'stub',
+
+    send: async ({ to, message }) => {
+      sent += 1;
+      const sms = { id: `stub-${sent}`, to, message, sentAt: new Date().toISOString() };
+      outbox.push(sms);
+      if (outbox.length > STUB_OUTBOX_SIZE) {
+        outbox.shift();
+      }
+      console.log(`SMS to ${to} (stub): ${message}`);
+      return { id: sms.id };
+    },
+
+    // Most recent first, optionally only those sent to one number
+    listMessages: (to) => outbox.filter((sms) => !to || sms.to === to).reverse()
+  };
+};
+
+// Africa's Talking bulk SMS API
+const createAfricasTalkingGateway = ({
+  username = process.env.AFRICASTALKING_USERNAME,
+  apiKey = process.env.AFRICASTALKING_API_KEY,
+  baseUrl = process.env.AFRICASTALKING_BASE_URL || 'https://api.africastalking.com'
+} = {}) => {
+  if (!username || !apiKey) {
+    throw new SmsError('NOT_CONFIGURED', 'Set AFRICASTALKING_USERNAME and AFRICASTALKING_API_KEY to send SMS');
+  }
+
+  return {
+    name: 'africastalking',
+
+    send: async ({ to, message }) => {
+      const body = new URLSearchParams({ username, to: `+${to}`, message });
+      if (SMS_SENDER_ID) {
+        body.set('from', SMS_SENDER_ID);
+      }
+
+      const response = await fetch(`${baseUrl}/version1/messaging`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'apiKey': apiKey
+        },
+        body
+      });
+
+      let data;
+      try {
+        data = await response.json();
+      } catch (error) {
+        throw new SmsError('INVALID_RESPONSE', `Invalid response from SMS gateway (${response.status})`);
+      }
+
+      const [recipient] = data.SMSMessageData?.Recipients || [];
+      if (!response.ok || !recipient || recipient.statusCode >= 400) {
+        throw new SmsError('SEND_FAILED', `SMS to ${to} was not sent: ${recipient?.status || data.SMSMessageData?.Message || response.status}`);
+      }
+      return { id: recipient.messageId };
+    }
+  };
+};
+
+const gateways = {
+  stub: createStubGateway,
+  africastalking: createAfricasTalkingGateway
+};
+
+let defaultGateway = null;
+
+/**
+ * Create a gateway with the given driver
+ */
+const createSmsGateway = ({ driver = process.env.SMS_DRIVER || 'stub', ...options } = {}) => {
+  const factory = gateways[driver];
+  if (!factory) {
+    throw new Error(`Unknown SMS driver: ${driver}`);
+  }
+  return factory(options);
+};
+
+/**
+ * Shared gateway used by the server, created on first use
+ */
+const getSmsGateway = () => {
+  if (!defaultGateway) {
+    defaultGateway = createSmsGateway();
+  }
+  return defaultGateway;
+};
+
+/**
+ * Replace the shared gateway, e.g. with a stub in tests
+ */
+const setSmsGateway = (gateway) => {
+  defaultGateway = gateway;
+};
+
+/**
+ * Send a text message through the shared gateway
+ */
+const sendSms = (to, message) => getSmsGateway().send({ to, message });
+
+module.exports = {
+  SmsError,
+  createSmsGateway,
+  getSmsGateway,
+  setSmsGateway,
+  sendSms
+};
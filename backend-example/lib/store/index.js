@@ -0,0 +1,77 @@
+// Persistence layer for matches, orders, payments, webhook payloads, tickets, inventory, holds, scans,
+// reconciliation reports, ticket wallet sign-in codes and ticket emails.
+//
+// Drivers are registered below and selected with STORE_DRIVER (default: sqlite).
+// A driver is a factory returning an object with the same methods as sqlite.js:
+//
+//   transaction(fn)
+//   savePayment(payment), getPayment(reference), getPaymentByTransactionId(id),
+//   getPaymentByProviderReference(providerReference), listPaymentsByPhone(phoneNumber, since),
+//   updatePayment(reference, fields), setPaymentStatus(reference, status, source, details),
+//   getPaymentHistory(reference), listPayments(), listPaymentsToReconcile(before, since),
+//   listPaymentsCreatedBetween(from, to)
+//   claimWebhookEvent(event), completeWebhookEvent(eventKey, status, result),
+//   getWebhookEvent(eventKey), listWebhookEvents(reference)
+//   saveTicket(ticket), getTicket(ticketId), getTicketsByReference(reference),
+//   listTicketsByPhone(phoneNumber), updateTicketAttendee(ticketId, attendee), listTicketsForMatch(matchId),
+//   nextSeatIndex(matchId, tier)
+//   ensureInventory(matchId, tier, capacity), getInventoryItem(matchId, tier),
+//   listInventory(matchId), sellInventory(matchId, tier, quantity),
+//   holdInventory(matchId, tier, quantity), releaseInventory(matchId, tier, quantity),
+//   convertInventory(matchId, tier, quantity), setInventoryCapacity(matchId, tier, capacity),
+//   deleteInventory(matchId, tier)
+//   saveHold(hold), getHold(reference), updateHold(reference, fields), listExpiredHolds(before)
+//   saveOrder(order), getOrder(reference), setOrderStatus(reference, status),
+//   countOrderedTickets(matchId, phoneNumber)
+//   saveMatch(match), getMatch(matchId), listMatches(), updateMatch(matchId, fields)
+//   saveTicketTier(tier), listTicketTiers(matchId), deleteTicketTier(matchId, type)
+//   saveScan(scan), listAdmissions(ticketId)
+//   saveReconciliationReport(report), getReconciliationReport(date), listReconciliationReports()
+//   saveWalletCode(code), getWalletCode(phoneNumber), recordWalletCodeAttempt(phoneNumber),
+//   deleteWalletCode(phoneNumber)
+//   queueTicketEmail(email), getTicketEmail(id), listTicketEmails(reference),
+//   listDueTicketEmails(before, limit), recordTicketEmailSent(id, messageId),
+//   recordTicketEmailFailure(id, error, nextAttemptAt)
+//   close()
+
+const { createSqliteStore } = require('./sqlite');
+
+const drivers = {
+  sqlite: createSqliteStore
+};
+
+let defaultStore = null;
+
+/**
+ * Create a store with the given driver
+ */
+const createStore = ({ driver = process.env.STORE_DRIVER || 'sqlite', ...options } = {}) => {
+  const factory = drivers[driver];
+  if (!factory) {
+    throw new Error(`Unknown store driver: ${driver}`);
+  }
+  return factory(options);
+};
+
+/**
+ * Shared store used by the server, created on first use
+ */
+const getStore = () => {
+  if (!defaultStore) {
+    defaultStore = createStore();
+  }
+  return defaultStore;
+};
+
+/**
+ * Replace the shared store, e.g. with an in-memory SQLite store in tests
+ */
+const setStore = (store) => {
+  defaultStore = store;
+};
+
+module.exports = {
+  createStore,
+  getStore,
+  setStore
+};
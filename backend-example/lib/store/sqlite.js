@@ -0,0 +1,920 @@
+// SQLite store driver (default for local runs and tests).
+// Use STORE_PATH=:memory: for a throwaway database.
+
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+const DEFAULT_PATH = path.join(__dirname, '..', '..', 'data', 'chan-tickets.db');
+
+// Append new migrations to the end; never edit one that has shipped
+const MIGRATIONS = [
+  `
+  CREATE TABLE payments (
+    reference TEXT PRIMARY KEY,
+    transaction_id TEXT,
+    account_id TEXT,
+    channel_id TEXT,
+    amount INTEGER NOT NULL,
+    currency TEXT NOT NULL,
+    customer_name TEXT,
+    phone_number TEXT,
+    provider TEXT,
+    callback_url TEXT,
+    status TEXT NOT NULL,
+    payhero_response TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX payments_transaction_id ON payments (transaction_id);
+
+  CREATE TABLE payment_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    reference TEXT NOT NULL,
+    status TEXT NOT NULL,
+    source TEXT NOT NULL,
+    details TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX payment_status_history_reference ON payment_status_history (reference);
+
+  CREATE TABLE webhook_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    event TEXT,
+    transaction_id TEXT,
+    reference TEXT,
+    payload TEXT NOT NULL,
+    received_at TEXT NOT NULL
+  );
+  CREATE INDEX webhook_events_reference ON webhook_events (reference);
+
+  CREATE TABLE tickets (
+    ticket_id TEXT PRIMARY KEY,
+    reference TEXT NOT NULL,
+    match_id TEXT NOT NULL,
+    match_date TEXT NOT NULL,
+    match_time TEXT NOT NULL,
+    team_a TEXT NOT NULL,
+    team_b TEXT NOT NULL,
+    venue TEXT NOT NULL,
+    ticket_type TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    total_amount TEXT NOT NULL,
+    holder_email TEXT,
+    holder_name TEXT NOT NULL,
+    gate TEXT NOT NULL,
+    section TEXT NOT NULL,
+    row TEXT NOT NULL,
+    seat TEXT NOT NULL,
+    gate_open_time TEXT NOT NULL,
+    qr_token TEXT NOT NULL,
+    issued_at TEXT NOT NULL
+  );
+  CREATE INDEX tickets_reference ON tickets (reference);
+  CREATE INDEX tickets_match_id ON tickets (match_id);
+
+  CREATE TABLE seat_counters (
+    match_id TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    next_index INTEGER NOT NULL,
+    PRIMARY KEY (match_id, tier)
+  );
+
+  CREATE TABLE scans (
+    scan_id TEXT PRIMARY KEY,
+    ticket_id TEXT NOT NULL,
+    match_id TEXT,
+    gate TEXT,
+    device_id TEXT NOT NULL,
+    result TEXT NOT NULL,
+    scanned_at TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+  CREATE INDEX scans_ticket_id ON scans (ticket_id);
+  `,
+  `
+  CREATE TABLE inventory (
+    match_id TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    capacity INTEGER NOT NULL,
+    sold INTEGER NOT NULL DEFAULT 0,
+    held INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (match_id, tier),
+    CHECK (sold >= 0 AND held >= 0 AND sold + held <= capacity)
+  );
+
+  ALTER TABLE payments ADD COLUMN match_id TEXT;
+  ALTER TABLE payments ADD COLUMN ticket_type TEXT;
+  ALTER TABLE payments ADD COLUMN quantity INTEGER;
+  `,
+  `
+  CREATE TABLE holds (
+    reference TEXT PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    tier TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    payment_reference TEXT,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX holds_status_expires_at ON holds (status, expires_at);
+  `,
+  `
+  CREATE TABLE matches (
+    id TEXT PRIMARY KEY,
+    team_a TEXT NOT NULL,
+    team_b TEXT NOT NULL,
+    team_a_flag_url TEXT,
+    team_b_flag_url TEXT,
+    date TEXT NOT NULL,
+    time TEXT NOT NULL,
+    venue TEXT NOT NULL,
+    gate_open_time TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE ticket_tiers (
+    match_id TEXT NOT NULL REFERENCES matches (id),
+    type TEXT NOT NULL,
+    price INTEGER NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    capacity INTEGER NOT NULL,
+    seating TEXT NOT NULL,
+    sale_starts_at TEXT,
+    sale_ends_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (match_id, type)
+  );
+  `,
+  `
+  CREATE TABLE hold_items (
+    reference TEXT NOT NULL REFERENCES holds (reference),
+    tier TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    PRIMARY KEY (reference, tier)
+  );
+  INSERT INTO hold_items (reference, tier, quantity) SELECT reference, tier, quantity FROM holds;
+  ALTER TABLE holds DROP COLUMN tier;
+  ALTER TABLE holds DROP COLUMN quantity;
+
+  CREATE TABLE orders (
+    reference TEXT PRIMARY KEY,
+    match_id TEXT NOT NULL,
+    phone_number TEXT,
+    customer_name TEXT,
+    customer_email TEXT,
+    total_amount INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX orders_match_id_phone_number ON orders (match_id, phone_number);
+
+  CREATE TABLE order_items (
+    reference TEXT NOT NULL REFERENCES orders (reference),
+    ticket_type TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    unit_price INTEGER NOT NULL,
+    PRIMARY KEY (reference, ticket_type)
+  );
+  `,
+  `
+  ALTER TABLE tickets ADD COLUMN attendee_name TEXT;
+  ALTER TABLE tickets ADD COLUMN attendee_id_number TEXT;
+  ALTER TABLE tickets ADD COLUMN attendee_phone TEXT;
+  `,
+  `
+  ALTER TABLE webhook_events ADD COLUMN event_key TEXT;
+  ALTER TABLE webhook_events ADD COLUMN status TEXT NOT NULL DEFAULT 'received';
+  ALTER TABLE webhook_events ADD COLUMN result TEXT;
+  ALTER TABLE webhook_events ADD COLUMN deliveries INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE webhook_events ADD COLUMN processed_at TEXT;
+  CREATE UNIQUE INDEX webhook_events_event_key ON webhook_events (event_key);
+  `,
+  `
+  UPDATE payments SET status = CASE lower(status)
+    WHEN 'queued' THEN 'pending'
+    WHEN 'completed' THEN 'success'
+    WHEN 'canceled' THEN 'cancelled'
+    ELSE lower(status)
+  END;
+  `,
+  `
+  ALTER TABLE payments ADD COLUMN provider_reference TEXT;
+  CREATE INDEX payments_provider_reference ON payments (provider_reference);
+  CREATE INDEX payments_phone_number ON payments (phone_number);
+  `,
+  `
+  CREATE INDEX payments_status_created_at ON payments (status, created_at);
+
+  CREATE TABLE reconciliation_reports (
+    report_date TEXT PRIMARY KEY,
+    summary TEXT NOT NULL,
+    discrepancies TEXT NOT NULL,
+    generated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE wallet_codes (
+    phone_number TEXT PRIMARY KEY,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE ticket_emails (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    reference TEXT NOT NULL,
+    ticket_ids TEXT,
+    recipient TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT,
+    last_error TEXT,
+    message_id TEXT,
+    created_at TEXT NOT NULL,
+    sent_at TEXT
+  );
+  CREATE INDEX ticket_emails_reference ON ticket_emails (reference);
+  CREATE INDEX ticket_emails_status_next_attempt_at ON ticket_emails (status, next_attempt_at);
+  `
+];
+
+const migrate = (db) => {
+  const version = db.pragma('user_version', { simple: true });
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+};
+
+const parseJson = (value) => (value ? JSON.parse(value) : null);
+
+const toPayment = (row) => row && {
+  ...row,
+  payhero_response: parseJson(row.payhero_response)
+};
+
+const toTicket = (row) => row && {
+  ticketId: row.ticket_id,
+  reference: row.reference,
+  matchId: row.match_id,
+  matchDate: row.match_date,
+  matchTime: row.match_time,
+  teamA: row.team_a,
+  teamB: row.team_b,
+  venue: row.venue,
+  ticketType: row.ticket_type,
+  quantity: row.quantity,
+  totalAmount: row.total_amount,
+  holderEmail: row.holder_email,
+  holderName: row.holder_name,
+  gate: row.gate,
+  section: row.section,
+  row: row.row,
+  seat: row.seat,
+  gateOpenTime: row.gate_open_time,
+  qrToken: row.qr_token,
+  issuedAt: row.issued_at,
+  attendeeName: row.attendee_name,
+  attendeeIdNumber: row.attendee_id_number,
+  attendeePhone: row.attendee_phone
+};
+
+const toWebhookEvent = (row) => row && {
+  ...row,
+  payload: parseJson(row.payload),
+  result: parseJson(row.result)
+};
+
+const toHold = (row, items) => row && {
+  reference: row.reference,
+  matchId: row.match_id,
+  items,
+  quantity: items.reduce((total, item) => total + item.quantity, 0),
+  status: row.status,
+  paymentReference: row.payment_reference,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+};
+
+const toOrder = (row, items) => row && {
+  reference: row.reference,
+  matchId: row.match_id,
+  phoneNumber: row.phone_number,
+  customerName: row.customer_name,
+  customerEmail: row.customer_email,
+  items,
+  quantity: items.reduce((total, item) => total + item.quantity, 0),
+  totalAmount: row.total_amount,
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+};
+
+const toReconciliationReport = (row) => row && {
+  date: row.report_date,
+  summary: parseJson(row.summary),
+  discrepancies: parseJson(row.discrepancies),
+  generatedAt: row.generated_at
+};
+
+const toWalletCode = (row) => row && {
+  phoneNumber: row.phone_number,
+  codeHash: row.code_hash,
+  attempts: row.attempts,
+  expiresAt: row.expires_at,
+  createdAt: row.created_at
+};
+
+const toTicketEmail = (row) => row && {
+  id: row.id,
+  reference: row.reference,
+  ticketIds: parseJson(row.ticket_ids),
+  recipient: row.recipient,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  lastError: row.last_error,
+  messageId: row.message_id,
+  createdAt: row.created_at,
+  sentAt: row.sent_at
+};
+
+const toMatch = (row) => row && {
+  id: row.id,
+  teamA: row.team_a,
+  teamB: row.team_b,
+  teamAFlagUrl: row.team_a_flag_url,
+  teamBFlagUrl: row.team_b_flag_url,
+  date: row.date,
+  time: row.time,
+  venue: row.venue,
+  gateOpenTime: row.gate_open_time,
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+};
+
+const toTicketTier = (row) => row && {
+  matchId: row.match_id,
+  type: row.type,
+  price: row.price,
+  description: row.description,
+  capacity: row.capacity,
+  seating: parseJson(row.seating),
+  saleStartsAt: row.sale_starts_at,
+  saleEndsAt: row.sale_ends_at
+};
+
+const MATCH_COLUMNS = {
+  teamA: 'team_a',
+  teamB: 'team_b',
+  teamAFlagUrl: 'team_a_flag_url',
+  teamBFlagUrl: 'team_b_flag_url',
+  date: 'date',
+  time: 'time',
+  venue: 'venue',
+  gateOpenTime: 'gate_open_time',
+  status: 'status'
+};
+
+const createSqliteStore = ({ filename = process.env.STORE_PATH || DEFAULT_PATH } = {}) => {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  const now = () => new Date().toISOString();
+
+  const getHold = (reference) => {
+    const row = db.prepare('SELECT * FROM holds WHERE reference = ?').get(reference);
+    return row && toHold(row, db.prepare(`
+      SELECT tier, quantity FROM hold_items WHERE reference = ? ORDER BY rowid
+    `).all(reference));
+  };
+
+  const getOrder = (reference) => {
+    const row = db.prepare('SELECT * FROM orders WHERE reference = ?').get(reference);
+    return row && toOrder(row, db.prepare(`
+      SELECT ticket_type AS ticketType, quantity, unit_price AS unitPrice FROM order_items
+      WHERE reference = ? ORDER BY rowid
+    `).all(reference));
+  };
+
+  const setPaymentStatus = (reference, status, source, details) => {
+    const timestamp = now();
+    db.prepare('UPDATE payments SET status = ?, updated_at = ? WHERE reference = ?')
+      .run(status, timestamp, reference);
+    db.prepare(`
+      INSERT INTO payment_status_history (reference, status, source, details, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(reference, status, source, details ? JSON.stringify(details) : null, timestamp);
+  };
+
+  return {
+    transaction: (fn) => db.transaction(fn)(),
+
+    // Payments
+    savePayment: (payment) => {
+      const timestamp = now();
+      db.prepare(`
+        INSERT INTO payments (
+          reference, transaction_id, account_id, channel_id, amount, currency, customer_name,
+          phone_number, provider, callback_url, status, payhero_response, match_id, ticket_type,
+          quantity, created_at, updated_at
+        ) VALUES (
+          @reference, @transaction_id, @account_id, @channel_id, @amount, @currency, @customer_name,
+          @phone_number, @provider, @callback_url, @status, @payhero_response, @match_id, @ticket_type,
+          @quantity, @created_at, @updated_at
+        )
+      `).run({
+        transaction_id: null,
+        match_id: null,
+        ticket_type: null,
+        quantity: null,
+        account_id: null,
+        channel_id: null,
+        customer_name: null,
+        phone_number: null,
+        provider: null,
+        callback_url: null,
+        ...payment,
+        payhero_response: payment.payhero_response ? JSON.stringify(payment.payhero_response) : null,
+        created_at: timestamp,
+        updated_at: timestamp
+      });
+      db.prepare(`
+        INSERT INTO payment_status_history (reference, status, source, details, created_at)
+        VALUES (?, ?, 'initiate', NULL, ?)
+      `).run(payment.reference, payment.status, timestamp);
+    },
+
+    getPayment: (reference) => toPayment(
+      db.prepare('SELECT * FROM payments WHERE reference = ?').get(reference)
+    ),
+
+    getPaymentByTransactionId: (transactionId) => toPayment(
+      db.prepare('SELECT * FROM payments WHERE transaction_id = ?').get(transactionId)
+    ),
+
+    // By the M-PESA receipt code, once PayHero has reported it
+    getPaymentByProviderReference: (providerReference) => toPayment(
+      db.prepare('SELECT * FROM payments WHERE provider_reference = ?').get(providerReference)
+    ),
+
+    listPaymentsByPhone: (phoneNumber, since) => db.prepare(`
+      SELECT * FROM payments WHERE phone_number = ? AND created_at >= ? ORDER BY created_at DESC
+    `).all(phoneNumber, since).map(toPayment),
+
+    updatePayment: (reference, fields) => {
+      const columns = Object.keys(fields);
+      if (columns.length === 0) {
+        return;
+      }
+      const values = columns.map((column) => (
+        column === 'payhero_response' ? JSON.stringify(fields[column]) : fields[column]
+      ));
+      db.prepare(`
+        UPDATE payments SET ${columns.map((column) => `${column} = ?`).join(', ')}, updated_at = ?
+        WHERE reference = ?
+      `).run(...values, now(), reference);
+    },
+
+    setPaymentStatus,
+
+    getPaymentHistory: (reference) => db.prepare(`
+      SELECT status, source, details, created_at FROM payment_status_history
+      WHERE reference = ? ORDER BY id
+    `).all(reference).map((row) => ({ ...row, details: parseJson(row.details) })),
+
+    listPayments: () => db.prepare('SELECT * FROM payments ORDER BY created_at DESC').all().map(toPayment),
+
+    // Payments created before `before` that are not final yet, and successful ones
+    // created since `since` whose tickets were never issued
+    listPaymentsToReconcile: (before, since) => db.prepare(`
+      SELECT * FROM payments p
+      WHERE (p.status IN ('initiating', 'pending', 'processing') AND p.created_at < @before)
+        OR (p.status = 'success' AND p.created_at >= @since AND NOT EXISTS (
+          SELECT 1 FROM tickets t WHERE t.reference = coalesce(p.transaction_id, p.reference)
+        ))
+      ORDER BY p.created_at
+    `).all({ before, since }).map(toPayment),
+
+    listPaymentsCreatedBetween: (from, to) => db.prepare(`
+      SELECT * FROM payments WHERE created_at >= ? AND created_at < ? ORDER BY created_at
+    `).all(from, to).map(toPayment),
+
+    // Daily reconciliation reports, one per day and replaced when generated again
+    saveReconciliationReport: ({ date, summary, discrepancies, generatedAt }) => {
+      db.prepare(`
+        INSERT INTO reconciliation_reports (report_date, summary, discrepancies, generated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (report_date) DO UPDATE SET
+          summary = excluded.summary, discrepancies = excluded.discrepancies, generated_at = excluded.generated_at
+      `).run(date, JSON.stringify(summary), JSON.stringify(discrepancies), generatedAt);
+    },
+
+    getReconciliationReport: (date) => toReconciliationReport(
+      db.prepare('SELECT * FROM reconciliation_reports WHERE report_date = ?').get(date)
+    ),
+
+    listReconciliationReports: () => db.prepare(`
+      SELECT report_date, summary, generated_at FROM reconciliation_reports ORDER BY report_date DESC
+    `).all().map((row) => ({ date: row.report_date, summary: parseJson(row.summary), generatedAt: row.generated_at })),
+
+    // Webhook payloads, one row per event however often it is delivered.
+    // An event is claimed for processing once; a failed event can be claimed again.
+    claimWebhookEvent: ({ eventKey, event, transactionId, reference, payload }) => db.transaction(() => {
+      const existing = db.prepare('SELECT * FROM webhook_events WHERE event_key = ?').get(eventKey);
+
+      if (!existing) {
+        db.prepare(`
+          INSERT INTO webhook_events (event_key, event, transaction_id, reference, payload, status, received_at)
+          VALUES (?, ?, ?, ?, ?, 'processing', ?)
+        `).run(eventKey, event || null, transactionId || null, reference || null, JSON.stringify(payload), now());
+      } else {
+        db.prepare(`
+          UPDATE webhook_events SET deliveries = deliveries + 1,
+            status = CASE WHEN status = 'failed' THEN 'processing' ELSE status END
+          WHERE event_key = ?
+        `).run(eventKey);
+      }
+
+      return {
+        claimed: !existing || existing.status === 'failed',
+        event: toWebhookEvent(db.prepare('SELECT * FROM webhook_events WHERE event_key = ?').get(eventKey))
+      };
+    })(),
+
+    completeWebhookEvent: (eventKey, status, result) => {
+      db.prepare(`
+        UPDATE webhook_events SET status = ?, result = ?, processed_at = ? WHERE event_key = ?
+      `).run(status, result === undefined ? null : JSON.stringify(result), now(), eventKey);
+    },
+
+    getWebhookEvent: (eventKey) => toWebhookEvent(
+      db.prepare('SELECT * FROM webhook_events WHERE event_key = ?').get(eventKey)
+    ),
+
+    listWebhookEvents: (reference) => db.prepare(`
+      SELECT * FROM webhook_events WHERE reference = ? ORDER BY id
+    `).all(reference).map(toWebhookEvent),
+
+    // Tickets
+    saveTicket: (ticket) => {
+      db.prepare(`
+        INSERT INTO tickets (
+          ticket_id, reference, match_id, match_date, match_time, team_a, team_b, venue,
+          ticket_type, quantity, total_amount, holder_email, holder_name, gate, section, row,
+          seat, gate_open_time, qr_token, issued_at
+        ) VALUES (
+          @ticketId, @reference, @matchId, @matchDate, @matchTime, @teamA, @teamB, @venue,
+          @ticketType, @quantity, @totalAmount, @holderEmail, @holderName, @gate, @section, @row,
+          @seat, @gateOpenTime, @qrToken, @issuedAt
+        )
+      `).run(ticket);
+    },
+
+    getTicket: (ticketId) => toTicket(
+      db.prepare('SELECT * FROM tickets WHERE ticket_id = ?').get(ticketId)
+    ),
+
+    getTicketsByReference: (reference) => db.prepare(`
+      SELECT * FROM tickets WHERE reference = ? ORDER BY issued_at, rowid
+    `).all(reference).map(toTicket),
+
+    // Tickets of the successful payments made from a phone number, newest first
+    listTicketsByPhone: (phoneNumber) => db.prepare(`
+      SELECT tickets.* FROM tickets
+      JOIN payments ON tickets.reference IN (payments.transaction_id, payments.reference)
+      WHERE payments.phone_number = ? AND payments.status = 'success'
+      ORDER BY tickets.issued_at DESC, tickets.rowid
+    `).all(phoneNumber).map(toTicket),
+
+    updateTicketAttendee: (ticketId, { name, idNumber, phone }) => {
+      db.prepare(`
+        UPDATE tickets SET attendee_name = ?, attendee_id_number = ?, attendee_phone = ? WHERE ticket_id = ?
+      `).run(name, idNumber || null, phone || null, ticketId);
+    },
+
+    listTicketsForMatch: (matchId) => db.prepare(`
+      SELECT * FROM tickets WHERE match_id = ? ORDER BY issued_at
+    `).all(matchId).map(toTicket),
+
+    // Returns the next seat index for a tier and advances the counter
+    nextSeatIndex: (matchId, tier) => {
+      const row = db.prepare(`
+        INSERT INTO seat_counters (match_id, tier, next_index) VALUES (?, ?, 1)
+        ON CONFLICT (match_id, tier) DO UPDATE SET next_index = next_index + 1
+        RETURNING next_index
+      `).get(matchId, tier);
+      return row.next_index - 1;
+    },
+
+    // Inventory
+    ensureInventory: (matchId, tier, capacity) => {
+      db.prepare(`
+        INSERT OR IGNORE INTO inventory (match_id, tier, capacity) VALUES (?, ?, ?)
+      `).run(matchId, tier, capacity);
+    },
+
+    getInventoryItem: (matchId, tier) => db.prepare(`
+      SELECT match_id AS matchId, tier, capacity, sold, held FROM inventory
+      WHERE match_id = ? AND tier = ?
+    `).get(matchId, tier) || null,
+
+    listInventory: (matchId) => db.prepare(`
+      SELECT match_id AS matchId, tier, capacity, sold, held FROM inventory
+      WHERE match_id = ? ORDER BY rowid
+    `).all(matchId),
+
+    // Changes a tier's capacity; returns false if it would drop below what is sold or held
+    setInventoryCapacity: (matchId, tier, capacity) => db.prepare(`
+      UPDATE inventory SET capacity = @capacity
+      WHERE match_id = @matchId AND tier = @tier AND sold + held <= @capacity
+    `).run({ matchId, tier, capacity }).changes > 0,
+
+    // Removes a tier's stock if none of it is sold or held
+    deleteInventory: (matchId, tier) => db.prepare(`
+      DELETE FROM inventory WHERE match_id = ? AND tier = ? AND sold = 0 AND held = 0
+    `).run(matchId, tier).changes > 0,
+
+    // Marks tickets as sold if enough stock is free; returns false otherwise
+    sellInventory: (matchId, tier, quantity) => db.prepare(`
+      UPDATE inventory SET sold = sold + @quantity
+      WHERE match_id = @matchId AND tier = @tier AND capacity - sold - held >= @quantity
+    `).run({ matchId, tier, quantity }).changes > 0,
+
+    // Moves free stock to held; returns false if not enough is free
+    holdInventory: (matchId, tier, quantity) => db.prepare(`
+      UPDATE inventory SET held = held + @quantity
+      WHERE match_id = @matchId AND tier = @tier AND capacity - sold - held >= @quantity
+    `).run({ matchId, tier, quantity }).changes > 0,
+
+    releaseInventory: (matchId, tier, quantity) => db.prepare(`
+      UPDATE inventory SET held = held - @quantity
+      WHERE match_id = @matchId AND tier = @tier AND held >= @quantity
+    `).run({ matchId, tier, quantity }).changes > 0,
+
+    // Moves held stock to sold
+    convertInventory: (matchId, tier, quantity) => db.prepare(`
+      UPDATE inventory SET held = held - @quantity, sold = sold + @quantity
+      WHERE match_id = @matchId AND tier = @tier AND held >= @quantity
+    `).run({ matchId, tier, quantity }).changes > 0,
+
+    // Holds
+    saveHold: (hold) => {
+      const timestamp = now();
+      db.prepare(`
+        INSERT INTO holds (
+          reference, match_id, status, payment_reference, expires_at, created_at, updated_at
+        ) VALUES (
+          @reference, @matchId, @status, NULL, @expiresAt, @createdAt, @updatedAt
+        )
+      `).run({
+        reference: hold.reference,
+        matchId: hold.matchId,
+        status: hold.status,
+        expiresAt: hold.expiresAt,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+      const insertItem = db.prepare('INSERT INTO hold_items (reference, tier, quantity) VALUES (?, ?, ?)');
+      hold.items.forEach((item) => insertItem.run(hold.reference, item.tier, item.quantity));
+    },
+
+    getHold,
+
+    updateHold: (reference, { status, paymentReference, expiresAt }) => {
+      db.prepare(`
+        UPDATE holds SET
+          status = COALESCE(@status, status),
+          payment_reference = COALESCE(@paymentReference, payment_reference),
+          expires_at = COALESCE(@expiresAt, expires_at),
+          updated_at = @updatedAt
+        WHERE reference = @reference
+      `).run({
+        reference,
+        status: status || null,
+        paymentReference: paymentReference || null,
+        expiresAt: expiresAt || null,
+        updatedAt: now()
+      });
+    },
+
+    listExpiredHolds: (before) => db.prepare(`
+      SELECT reference FROM holds WHERE status = 'active' AND expires_at <= ? ORDER BY expires_at
+    `).all(before).map((row) => getHold(row.reference)),
+
+    // Orders
+    saveOrder: (order) => {
+      const timestamp = now();
+      db.prepare(`
+        INSERT INTO orders (
+          reference, match_id, phone_number, customer_name, customer_email, total_amount, status,
+          created_at, updated_at
+        ) VALUES (
+          @reference, @matchId, @phoneNumber, @customerName, @customerEmail, @totalAmount, @status,
+          @createdAt, @updatedAt
+        )
+      `).run({
+        reference: order.reference,
+        matchId: order.matchId,
+        phoneNumber: order.phoneNumber || null,
+        customerName: order.customerName || null,
+        customerEmail: order.customerEmail || null,
+        totalAmount: order.totalAmount,
+        status: order.status,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+      const insertItem = db.prepare(`
+        INSERT INTO order_items (reference, ticket_type, quantity, unit_price) VALUES (?, ?, ?, ?)
+      `);
+      order.items.forEach((item) => insertItem.run(order.reference, item.ticketType, item.quantity, item.unitPrice));
+    },
+
+    getOrder,
+
+    setOrderStatus: (reference, status) => {
+      db.prepare('UPDATE orders SET status = ?, updated_at = ? WHERE reference = ?').run(status, now(), reference);
+    },
+
+    // Tickets a phone number has paid for, or still has on hold, for a match
+    countOrderedTickets: (matchId, phoneNumber) => db.prepare(`
+      SELECT COALESCE(SUM(order_items.quantity), 0) AS total
+      FROM orders
+      JOIN order_items ON order_items.reference = orders.reference
+      LEFT JOIN holds ON holds.reference = orders.reference
+      WHERE orders.match_id = ? AND orders.phone_number = ?
+        AND (orders.status = 'paid' OR holds.status IN ('active', 'converted'))
+    `).get(matchId, phoneNumber).total,
+
+    // Match catalog
+    saveMatch: (match) => {
+      const timestamp = now();
+      db.prepare(`
+        INSERT INTO matches (
+          id, team_a, team_b, team_a_flag_url, team_b_flag_url, date, time, venue,
+          gate_open_time, status, created_at, updated_at
+        ) VALUES (
+          @id, @teamA, @teamB, @teamAFlagUrl, @teamBFlagUrl, @date, @time, @venue,
+          @gateOpenTime, @status, @createdAt, @updatedAt
+        )
+      `).run({
+        teamAFlagUrl: null,
+        teamBFlagUrl: null,
+        status: 'active',
+        ...match,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+    },
+
+    getMatch: (matchId) => toMatch(
+      db.prepare('SELECT * FROM matches WHERE id = ?').get(matchId)
+    ),
+
+    // Oldest first, so the seeded fixtures keep their order
+    listMatches: () => db.prepare('SELECT * FROM matches ORDER BY created_at, rowid').all().map(toMatch),
+
+    updateMatch: (matchId, fields) => {
+      const keys = Object.keys(fields).filter((key) => MATCH_COLUMNS[key]);
+      if (keys.length === 0) {
+        return;
+      }
+      db.prepare(`
+        UPDATE matches SET ${keys.map((key) => `${MATCH_COLUMNS[key]} = ?`).join(', ')}, updated_at = ?
+        WHERE id = ?
+      `).run(...keys.map((key) => fields[key]), now(), matchId);
+    },
+
+    saveTicketTier: (tier) => {
+      const timestamp = now();
+      db.prepare(`
+        INSERT INTO ticket_tiers (
+          match_id, type, price, description, capacity, seating, sale_starts_at, sale_ends_at,
+          created_at, updated_at
+        ) VALUES (
+          @matchId, @type, @price, @description, @capacity, @seating, @saleStartsAt, @saleEndsAt,
+          @timestamp, @timestamp
+        )
+        ON CONFLICT (match_id, type) DO UPDATE SET
+          price = excluded.price,
+          description = excluded.description,
+          capacity = excluded.capacity,
+          seating = excluded.seating,
+          sale_starts_at = excluded.sale_starts_at,
+          sale_ends_at = excluded.sale_ends_at,
+          updated_at = excluded.updated_at
+      `).run({
+        description: '',
+        saleStartsAt: null,
+        saleEndsAt: null,
+        ...tier,
+        seating: JSON.stringify(tier.seating),
+        timestamp
+      });
+    },
+
+    listTicketTiers: (matchId) => db.prepare(`
+      SELECT * FROM ticket_tiers WHERE match_id = ? ORDER BY created_at, rowid
+    `).all(matchId).map(toTicketTier),
+
+    deleteTicketTier: (matchId, type) => {
+      db.prepare('DELETE FROM ticket_tiers WHERE match_id = ? AND type = ?').run(matchId, type);
+    },
+
+    // Scans
+    saveScan: (scan) => db.prepare(`
+      INSERT OR IGNORE INTO scans (scan_id, ticket_id, match_id, gate, device_id, result, scanned_at, synced_at)
+      VALUES (@scanId, @ticketId, @matchId, @gate, @deviceId, @result, @scannedAt, @syncedAt)
+    `).run(scan).changes > 0,
+
+    listAdmissions: (ticketId) => db.prepare(`
+      SELECT gate, device_id AS deviceId, scanned_at AS scannedAt FROM scans
+      WHERE ticket_id = ? AND result = 'ADMITTED' ORDER BY scanned_at
+    `).all(ticketId),
+
+    // Ticket wallet sign-in codes, one per phone number
+    saveWalletCode: ({ phoneNumber, codeHash, expiresAt }) => {
+      db.prepare(`
+        INSERT INTO wallet_codes (phone_number, code_hash, attempts, expires_at, created_at)
+        VALUES (?, ?, 0, ?, ?)
+        ON CONFLICT (phone_number) DO UPDATE SET
+          code_hash = excluded.code_hash,
+          attempts = 0,
+          expires_at = excluded.expires_at,
+          created_at = excluded.created_at
+      `).run(phoneNumber, codeHash, expiresAt, now());
+    },
+
+    getWalletCode: (phoneNumber) => toWalletCode(
+      db.prepare('SELECT * FROM wallet_codes WHERE phone_number = ?').get(phoneNumber)
+    ),
+
+    recordWalletCodeAttempt: (phoneNumber) => db.prepare(`
+      UPDATE wallet_codes SET attempts = attempts + 1 WHERE phone_number = ?
+    `).run(phoneNumber),
+
+    deleteWalletCode: (phoneNumber) => db.prepare(`
+      DELETE FROM wallet_codes WHERE phone_number = ?
+    `).run(phoneNumber),
+
+    // Ticket emails waiting to be sent, and what happened to them
+    queueTicketEmail: ({ reference, ticketIds = null, recipient }) => {
+      const timestamp = now();
+      const { lastInsertRowid } = db.prepare(`
+        INSERT INTO ticket_emails (reference, ticket_ids, recipient, status, next_attempt_at, created_at)
+        VALUES (?, ?, ?, 'queued', ?, ?)
+      `).run(reference, ticketIds ? JSON.stringify(ticketIds) : null, recipient, timestamp, timestamp);
+      return toTicketEmail(db.prepare('SELECT * FROM ticket_emails WHERE id = ?').get(lastInsertRowid));
+    },
+
+    getTicketEmail: (id) => toTicketEmail(
+      db.prepare('SELECT * FROM ticket_emails WHERE id = ?').get(id)
+    ),
+
+    listTicketEmails: (reference) => db.prepare(`
+      SELECT * FROM ticket_emails WHERE reference = ? ORDER BY id
+    `).all(reference).map(toTicketEmail),
+
+    listDueTicketEmails: (before, limit) => db.prepare(`
+      SELECT * FROM ticket_emails WHERE status = 'queued' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at, id LIMIT ?
+    `).all(before, limit).map(toTicketEmail),
+
+    recordTicketEmailSent: (id, messageId) => db.prepare(`
+      UPDATE ticket_emails SET status = 'sent', attempts = attempts + 1, message_id = ?,
+        next_attempt_at = NULL, last_error = NULL, sent_at = ?
+      WHERE id = ?
+    `).run(messageId || null, now(), id),
+
+    // Without a next attempt the email is given up on
+    recordTicketEmailFailure: (id, error, nextAttemptAt) => db.prepare(`
+      UPDATE ticket_emails SET status = ?, attempts = attempts + 1, last_error = ?, next_attempt_at = ?
+      WHERE id = ?
+    `).run(nextAttemptAt ? 'queued' : 'failed', error, nextAttemptAt || null, id),
+
+    close: () => db.close()
+  };
+};
+
+module.exports = {
+  createSqliteStore
+};
@@ -0,0 +1,160 @@
+// Ticket emails: a receipt with the tickets attached as a PDF, sent to the email address
+// the buyer gave at checkout.
+//
+// Emails are queued in the store when tickets are issued (or re-sent) and delivered in
+// the background, so a slow or failing mail server never holds up issuing tickets. A
+// failed send is retried with exponential backoff, EMAIL_RETRY_SECONDS after the first
+// failure and doubling each time, and given up on after EMAIL_MAX_ATTEMPTS attempts.
+
+const { verifyTicketAccessToken } = require('./buyer-tokens');
+const { sendMail } = require('./mailer');
+const { renderTicketReceipt } = require('./email-templates');
+const { renderTicketPdf } = require('./ticket-pdf');
+const { getStore } = require('./store');
+
+const EMAIL_MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '5', 10);
+const EMAIL_RETRY_DELAY = parseInt(process.env.EMAIL_RETRY_SECONDS || '60', 10) * 1000;
+const EMAIL_SEND_INTERVAL = parseInt(process.env.EMAIL_SEND_INTERVAL_SECONDS || '30', 10) * 1000;
+// Emails sent per batch
+const EMAIL_BATCH_SIZE = 20;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+class TicketEmailError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'TicketEmailError';
+    this.code = code;
+  }
+}
+
+const isEmailAddress = (value) => EMAIL_PATTERN.test(String(value || '').trim());
+
+let sending = null;
+
+/**
+ * Send every queued email that is due, until none are left. Returns how many were
+ * sent, are being retried and were given up on. Only one run sends at a time; calls
+ * made during a run wait for it.
+ */
+const sendQueuedTicketEmails = () => {
+  if (sending) {
+    return sending;
+  }
+
+  sending = (async () => {
+    const store = getStore();
+    const summary = { sent: 0, retrying: 0, failed: 0 };
+
+    let due = store.listDueTicketEmails(new Date().toISOString(), EMAIL_BATCH_SIZE);
+    while (due.length > 0) {
+      for (const email of due) {
+        try {
+          const tickets = store.getTicketsByReference(email.reference)
+            .filter((ticket) => !email.ticketIds || email.ticketIds.includes(ticket.ticketId));
+          if (tickets.length === 0) {
+            throw new TicketEmailError('TICKET_NOT_FOUND', `No tickets for payment ${email.reference}`);
+          }
+
+          const { id } = await sendMail({
+            to: email.recipient,
+            ...renderTicketReceipt({ tickets }),
+            attachments: [{
+              filename: tickets.length === 1 ? `CHAN2024_Ticket_${tickets[0].ticketId}.pdf` : `CHAN2024_Tickets_${email.reference}.pdf`,
+              content: await renderTicketPdf(tickets),
+              contentType: 'application/pdf'
+            }]
+          });
+          store.recordTicketEmailSent(email.id, id);
+          summary.sent += 1;
+        } catch (error) {
+          const attempts = email.attempts + 1;
+          const nextAttemptAt = attempts < EMAIL_MAX_ATTEMPTS
+            ? new Date(Date.now() + EMAIL_RETRY_DELAY * 2 ** (attempts - 1)).toISOString()
+            : null;
+          store.recordTicketEmailFailure(email.id, error.message, nextAttemptAt);
+
+          if (nextAttemptAt) {
+            console.warn(`Ticket email ${email.id} to ${email.recipient} failed (attempt ${attempts}), retrying at ${nextAttemptAt}: ${error.message}`);
+            summary.retrying += 1;
+          } else {
+            console.error(`Ticket email ${email.id} to ${email.recipient} failed after ${attempts} attempts, giving up: ${error.message}`);
+            summary.failed += 1;
+          }
+        }
+      }
+      due = store.listDueTicketEmails(new Date().toISOString(), EMAIL_BATCH_SIZE);
+    }
+
+    return summary;
+  })().finally(() => {
+    sending = null;
+  });
+
+  return sending;
+};
+
+/**
+ * Queue a payment's tickets to be emailed to `recipient`: all of them, or only
+ * `ticketIds`. Sending starts straight away, once the caller's store transaction (if
+ * any) has committed. Returns the queued email.
+ */
+const queueTicketEmail = ({ reference, recipient, ticketIds }) => {
+  if (!isEmailAddress(recipient)) {
+    throw new TicketEmailError('INVALID_EMAIL', 'Enter a valid email address');
+  }
+
+  const email = getStore().queueTicketEmail({ reference, recipient: recipient.trim(), ticketIds });
+  setImmediate(() => {
+    sendQueuedTicketEmails().catch((error) => console.error('Ticket email sender error:', error));
+  });
+  return email;
+};
+
+/**
+ * Email one ticket again, to the address it was bought with and no other.
+ * `accessToken` is the ticket's access token, which only its buyer was given.
+ */
+const emailTicket = ({ ticketId, accessToken }) => {
+  const ticket = getStore().getTicket(ticketId);
+  if (!ticket || !verifyTicketAccessToken(accessToken, ticketId)) {
+    throw new TicketEmailError('TICKET_NOT_FOUND', 'Ticket not found');
+  }
+
+  if (!ticket.holderEmail) {
+    throw new TicketEmailError('EMAIL_REQUIRED', 'This ticket was bought without an email address');
+  }
+
+  return {
+    ticket,
+    email: queueTicketEmail({ reference: ticket.reference, recipient: ticket.holderEmail, ticketIds: [ticketId] })
+  };
+};
+
+/**
+ * Send queued and retried ticket emails in the background.
+ * Returns the timer so callers can stop it.
+ */
+const startTicketEmailSender = (interval = EMAIL_SEND_INTERVAL) => {
+  const timer = setInterval(async () => {
+    try {
+      const summary = await sendQueuedTicketEmails();
+      if (summary.sent + summary.retrying + summary.failed > 0) {
+        console.log('Sent ticket emails:', summary);
+      }
+    } catch (error) {
+      console.error('Ticket email sender error:', error);
+    }
+  }, interval);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  TicketEmailError,
+  isEmailAddress,
+  queueTicketEmail,
+  emailTicket,
+  sendQueuedTicketEmails,
+  startTicketEmailSender
+};
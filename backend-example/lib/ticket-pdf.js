@@ -0,0 +1,93 @@
+// Ticket PDFs attached to ticket emails: one 85 x 180 mm page per ticket, laid out like
+// the one the e-ticket dialog downloads (src/components/ETicket.tsx), with the ticket's
+// signed QR token as its QR code.
+
+const PDFDocument = require('pdfkit');
+const QRCode = require('qrcode');
+
+const PAGE_WIDTH = 85;
+const PAGE_HEIGHT = 180;
+const MARGIN = 5;
+const COLUMN_WIDTH = (PAGE_WIDTH - MARGIN * 2) / 3;
+const QR_SIZE = 40;
+
+const DARK = '#111827';
+const MUTED = '#646464';
+
+// PDFKit works in points, the layout in millimetres
+const mm = (value) => value * 72 / 25.4;
+
+const label = (doc, text, x, y) => doc
+  .font('Helvetica').fontSize(7).fillColor(MUTED)
+  .text(text.toUpperCase(), mm(x), mm(y), { lineBreak: false });
+
+// Cut short with an ellipsis past `width`, the rest of the line by default
+const value = (doc, text, x, y, { size = 8, color = DARK, width = PAGE_WIDTH - MARGIN - x } = {}) => doc
+  .font('Helvetica-Bold').fontSize(size).fillColor(color)
+  .text(String(text ?? ''), mm(x), mm(y), { width: mm(width), height: mm(size / 2), lineBreak: false, ellipsis: true });
+
+const drawTicket = (doc, ticket, qrImage) => {
+  doc.addPage({ size: [mm(PAGE_WIDTH), mm(PAGE_HEIGHT)], margin: 0 });
+
+  // Header
+  doc.rect(0, 0, mm(PAGE_WIDTH), mm(15)).fill(DARK);
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#facc15').text('mookh.', mm(MARGIN), mm(5), { lineBreak: false });
+  doc.fontSize(11).fillColor('#ffffff').text('Ticket', 0, mm(5.5), { width: mm(PAGE_WIDTH), align: 'center', lineBreak: false });
+
+  doc.rect(0, mm(15), mm(PAGE_WIDTH), mm(PAGE_HEIGHT - 15)).fill('#f8fafc');
+
+  label(doc, 'CHAN 2024 Finals', MARGIN, 20);
+  value(doc, `${ticket.teamA} Vs ${ticket.teamB}`, MARGIN, 25, { size: 10 });
+  label(doc, 'Kick-off', MARGIN, 33);
+  value(doc, `${ticket.matchDate}, ${ticket.matchTime}`, MARGIN, 37);
+  label(doc, 'Venue', MARGIN, 44);
+  value(doc, ticket.venue, MARGIN, 48);
+
+  const startY = 58;
+  label(doc, 'Ticket type', MARGIN, startY);
+  label(doc, 'Ticket no.', MARGIN + COLUMN_WIDTH, startY);
+  label(doc, 'Gates open', MARGIN + COLUMN_WIDTH * 2, startY);
+  value(doc, ticket.ticketType, MARGIN, startY + 4, { width: COLUMN_WIDTH - 1 });
+  value(doc, `#${ticket.ticketId}`, MARGIN + COLUMN_WIDTH, startY + 4, { width: COLUMN_WIDTH - 1 });
+  value(doc, ticket.gateOpenTime, MARGIN + COLUMN_WIDTH * 2, startY + 4);
+
+  label(doc, 'Attendee', MARGIN, startY + 15);
+  value(doc, ticket.attendeeName || ticket.holderName, MARGIN, startY + 19, { size: 12 });
+  if (ticket.attendeeIdNumber) {
+    value(doc, `ID ${ticket.attendeeIdNumber}`, MARGIN, startY + 25);
+  }
+
+  const seatY = startY + 35;
+  label(doc, 'Gate', MARGIN, seatY);
+  label(doc, 'Section', MARGIN + COLUMN_WIDTH, seatY);
+  label(doc, 'Row / Seat', MARGIN + COLUMN_WIDTH * 2, seatY);
+  value(doc, ticket.gate, MARGIN, seatY + 4, { size: 10, width: COLUMN_WIDTH - 1 });
+  value(doc, ticket.section, MARGIN + COLUMN_WIDTH, seatY + 4, { size: 10, color: '#0000ff', width: COLUMN_WIDTH - 1 });
+  value(doc, `${ticket.row} / ${ticket.seat}`, MARGIN + COLUMN_WIDTH * 2, seatY + 4, { size: 10 });
+
+  doc.image(qrImage, mm((PAGE_WIDTH - QR_SIZE) / 2), mm(seatY + 15), { width: mm(QR_SIZE), height: mm(QR_SIZE) });
+  doc.font('Helvetica').fontSize(7).fillColor(MUTED)
+    .text(ticket.ticketId, 0, mm(seatY + 15 + QR_SIZE + 3), { width: mm(PAGE_WIDTH), align: 'center', lineBreak: false });
+};
+
+/**
+ * Render tickets as a PDF, one page each. Resolves with the PDF's bytes.
+ */
+const renderTicketPdf = async (tickets) => {
+  const qrImages = await Promise.all(tickets.map((ticket) => QRCode.toBuffer(ticket.qrToken, { margin: 1, width: 300 })));
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ autoFirstPage: false, info: { Title: 'CHAN 2024 tickets', Author: 'mookh.' } });
+    const chunks = [];
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    tickets.forEach((ticket, index) => drawTicket(doc, ticket, qrImages[index]));
+    doc.end();
+  });
+};
+
+module.exports = {
+  renderTicketPdf
+};
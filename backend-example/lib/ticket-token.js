@@ -0,0 +1,53 @@
+// Signed ticket tokens embedded in e-ticket QR codes.
+// Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256(payload))
+
+const { createSigner } = require('./signed-token');
+
+const TOKEN_VERSION = 1;
+
+const signer = createSigner('TICKET_SIGNING_SECRET');
+
+/**
+ * Create a signed token for a ticket
+ */
+const signTicketToken = ({ ticketId, matchId, tier, issuedAt }) => {
+  const payload = {
+    v: TOKEN_VERSION,
+    tid: ticketId,
+    mid: matchId,
+    tier,
+    iat: Math.floor(new Date(issuedAt).getTime() / 1000)
+  };
+
+  return signer.sign(payload);
+};
+
+/**
+ * Check a token's signature and decode its payload.
+ * Does not check that the ticket exists; see verifyTicket in tickets.js.
+ */
+const verifyTicketToken = (token) => {
+  const { valid, reason, payload } = signer.verify(token);
+  if (!valid) {
+    return { valid: false, reason };
+  }
+
+  if (payload.v !== TOKEN_VERSION || !payload.tid || !payload.mid || !payload.tier) {
+    return { valid: false, reason: 'MALFORMED_TOKEN' };
+  }
+
+  return {
+    valid: true,
+    payload: {
+      ticketId: payload.tid,
+      matchId: payload.mid,
+      tier: payload.tier,
+      issuedAt: new Date(payload.iat * 1000).toISOString()
+    }
+  };
+};
+
+module.exports = {
+  signTicketToken,
+  verifyTicketToken
+};
@@ -0,0 +1,193 @@
+// Server-side ticket issuance.
+// Tickets are only issued for payments the server has confirmed with PayHero.
+
+const crypto = require('crypto');
+const { getMatch, getTier } = require('./matches');
+const { signTicketToken, verifyTicketToken } = require('./ticket-token');
+const { sellTickets } = require('./inventory');
+const { getHold, convertHold } = require('./holds');
+const { isEmailAddress, queueTicketEmail } = require('./ticket-emails');
+const { getStore } = require('./store');
+
+// Crockford base32 alphabet: no I, L, O or U to keep IDs readable at the gate
+const TICKET_ID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TICKET_ID_LENGTH = 10;
+
+class TicketIssueError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'TicketIssueError';
+    this.code = code;
+  }
+}
+
+const randomTicketId = () => {
+  const bytes = crypto.randomBytes(TICKET_ID_LENGTH);
+  let id = '';
+  for (const byte of bytes) {
+    id += TICKET_ID_ALPHABET[byte % TICKET_ID_ALPHABET.length];
+  }
+  return id;
+};
+
+/**
+ * Generate a ticket ID that is not already taken
+ */
+const generateTicketId = () => {
+  let id = randomTicketId();
+  while (getStore().getTicket(id)) {
+    id = randomTicketId();
+  }
+  return id;
+};
+
+/**
+ * Allocate the next free seat for a match tier.
+ * Seats are handed out in order: section by section, row by row.
+ */
+const allocateSeat = (matchId, tierName, seating) => {
+  const index = getStore().nextSeatIndex(matchId, tierName);
+
+  const seatsPerSection = seating.rowsPerSection * seating.seatsPerRow;
+  const capacity = seatsPerSection * seating.sections.length;
+  if (index >= capacity) {
+    throw new TicketIssueError('SOLD_OUT', `No seats left for ${tierName}`);
+  }
+
+  const sectionIndex = Math.floor(index / seatsPerSection);
+  const offset = index % seatsPerSection;
+
+  return {
+    gate: seating.gate,
+    section: seating.sections[sectionIndex],
+    row: String(Math.floor(offset / seating.seatsPerRow) + 1),
+    seat: String((offset % seating.seatsPerRow) + 1)
+  };
+};
+
+// Whether a hold covers exactly the tickets being issued
+const holdCovers = (hold, matchId, items) => hold
+  && hold.matchId === matchId
+  && hold.items.length === items.length
+  && items.every((item) => hold.items.some((held) => held.tier === item.ticketType && held.quantity === item.quantity));
+
+/**
+ * Take the tickets out of stock: from the payment's hold if it has one, otherwise
+ * from whatever is still on sale.
+ */
+const takeFromStock = (holdReference, reference, matchId, items) => {
+  if (holdCovers(getHold(holdReference), matchId, items) && convertHold(holdReference, reference)) {
+    return;
+  }
+
+  items.forEach(({ ticketType, quantity }) => {
+    if (!sellTickets(matchId, ticketType, quantity)) {
+      throw new TicketIssueError('SOLD_OUT', `${ticketType} tickets are sold out`);
+    }
+  });
+};
+
+/**
+ * Issue the tickets for a confirmed payment: one ticket, with its own seat and QR
+ * code, per person admitted. `items` lists the ticket types and quantities paid for;
+ * `unitPrice` defaults to the tier's current price.
+ * Issuing twice for the same payment reference returns the original tickets.
+ * Runs in a store transaction so a failed issue does not consume seats or stock.
+ * `holdReference` is the hold created with the STK push, when it differs from `reference`.
+ * Newly issued tickets are emailed to `holderEmail`, when it is a valid address.
+ */
+const issueTickets = ({ reference, holdReference = reference, matchId, items, holderName, holderEmail, amountPaid }) => {
+  const store = getStore();
+
+  return store.transaction(() => {
+    const existing = store.getTicketsByReference(reference);
+    if (existing.length > 0) {
+      return existing;
+    }
+
+    const match = getMatch(matchId);
+    const lines = items.map((item) => {
+      const tier = getTier(matchId, item.ticketType);
+      if (!match || !tier) {
+        throw new TicketIssueError('UNKNOWN_TICKET_TYPE', `Unknown ticket type ${item.ticketType} for match ${matchId}`);
+      }
+      return { ...item, tier, unitPrice: item.unitPrice ?? tier.price };
+    });
+
+    const totalPrice = lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0);
+    if (amountPaid !== undefined && Number(amountPaid) < totalPrice) {
+      throw new TicketIssueError('AMOUNT_MISMATCH', `Payment of ${amountPaid} does not cover the order total (${totalPrice})`);
+    }
+
+    takeFromStock(holdReference, reference, matchId, items);
+
+    const issuedAt = new Date().toISOString();
+    const tickets = lines.flatMap((line) => Array.from({ length: line.quantity }, () => {
+      const ticket = {
+        ticketId: generateTicketId(),
+        reference,
+        matchId,
+        matchDate: match.date,
+        matchTime: match.time,
+        teamA: match.teamA,
+        teamB: match.teamB,
+        venue: match.venue,
+        ticketType: line.ticketType,
+        quantity: 1,
+        totalAmount: `KES ${line.unitPrice}`,
+        holderEmail,
+        holderName,
+        ...allocateSeat(matchId, line.ticketType, line.tier.seating),
+        gateOpenTime: match.gateOpenTime,
+        issuedAt
+      };
+      ticket.qrToken = signTicketToken({
+        ticketId: ticket.ticketId,
+        matchId,
+        tier: line.ticketType,
+        issuedAt
+      });
+
+      store.saveTicket(ticket);
+      return ticket;
+    }));
+
+    if (isEmailAddress(holderEmail)) {
+      queueTicketEmail({ reference, recipient: holderEmail });
+    } else if (holderEmail) {
+      console.warn(`Tickets for ${reference} not emailed, invalid email address: ${holderEmail}`);
+    }
+
+    return tickets;
+  });
+};
+
+const getTicket = (ticketId) => getStore().getTicket(ticketId) || null;
+
+const listTicketsForMatch = (matchId) => getStore().listTicketsForMatch(matchId);
+
+/**
+ * Verify a scanned QR token against the issued tickets.
+ * Rejects tampered tokens and tokens for tickets we never issued.
+ */
+const verifyTicket = (token) => {
+  const result = verifyTicketToken(token);
+  if (!result.valid) {
+    return result;
+  }
+
+  const ticket = getTicket(result.payload.ticketId);
+  if (!ticket || ticket.qrToken !== token) {
+    return { valid: false, reason: 'UNKNOWN_TICKET' };
+  }
+
+  return { valid: true, ticket };
+};
+
+module.exports = {
+  TicketIssueError,
+  issueTickets,
+  getTicket,
+  listTicketsForMatch,
+  verifyTicket
+};
@@ -0,0 +1,154 @@
+// Ticket wallet: every ticket bought from a phone number, for buyers who lost theirs.
+//
+// The buyer proves they hold the phone with a one-time code sent to it by SMS, and gets
+// a signed, expiring wallet session for that number (see signed-token.js).
+// Only a hash of each code is stored. A code expires after WALLET_CODE_TTL_SECONDS and
+// after WALLET_CODE_MAX_ATTEMPTS wrong guesses, and a new one can be asked for every
+// WALLET_CODE_RESEND_SECONDS.
+
+const crypto = require('crypto');
+const { normalizePhoneNumber } = require('./mobile-wallets.mjs');
+const { createSigner } = require('./signed-token');
+const { sendSms } = require('./sms');
+const { getStore } = require('./store');
+
+const WALLET_CODE_TTL = parseInt(process.env.WALLET_CODE_TTL_SECONDS || '300', 10) * 1000;
+const WALLET_CODE_MAX_ATTEMPTS = parseInt(process.env.WALLET_CODE_MAX_ATTEMPTS || '5', 10);
+const WALLET_CODE_RESEND_AFTER = parseInt(process.env.WALLET_CODE_RESEND_SECONDS || '60', 10) * 1000;
+const WALLET_SESSION_TTL = 60 * 60 * 1000; // 1 hour
+// Where re-sent tickets point the buyer to
+const WALLET_URL = process.env.WALLET_URL || 'http://localhost:8080/my-tickets';
+
+const CODE_LENGTH = 6;
+
+class WalletError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.name = 'WalletError';
+    this.code = code;
+  }
+}
+
+const signer = createSigner('WALLET_SESSION_SECRET');
+
+// Bound to the phone number, so a code is only good for the number it was sent to
+const hashCode = (phoneNumber, code) => signer.hmac(`${phoneNumber}:${code}`);
+
+const toPhoneNumber = (phoneNumber) => {
+  const phone = normalizePhoneNumber(phoneNumber);
+  if (!phone) {
+    throw new WalletError('INVALID_PHONE_NUMBER', 'Enter the phone number you paid with, e.g. 0712345678');
+  }
+  return phone;
+};
+
+/**
+ * Text a one-time sign-in code to a phone number. Returns { phoneNumber, expiresAt }.
+ * Sent whether or not the number bought any tickets, so the answer doesn't tell.
+ */
+const requestWalletCode = async (phoneNumber) => {
+  const phone = toPhoneNumber(phoneNumber);
+  const store = getStore();
+
+  const previous = store.getWalletCode(phone);
+  if (previous && Date.now() - Date.parse(previous.createdAt) < WALLET_CODE_RESEND_AFTER) {
+    throw new WalletError('TOO_MANY_REQUESTS', 'A code was just sent to this number. Wait a minute before asking for another');
+  }
+
+  const code = crypto.randomInt(0, 10 ** CODE_LENGTH).toString().padStart(CODE_LENGTH, '0');
+  const expiresAt = new Date(Date.now() + WALLET_CODE_TTL).toISOString();
+  store.saveWalletCode({ phoneNumber: phone, codeHash: hashCode(phone, code), expiresAt });
+
+  try {
+    await sendSms(phone, `Your CHAN tickets code is ${code}. It expires in ${Math.round(WALLET_CODE_TTL / 60000)} minutes. Don't share it with anyone.`);
+  } catch (error) {
+    // Let the buyer ask again straight away
+    store.deleteWalletCode(phone);
+    throw error;
+  }
+
+  return { phoneNumber: phone, expiresAt };
+};
+
+/**
+ * Start a wallet session for a phone number
+ */
+const createWalletSession = (phoneNumber) => {
+  const expiresAt = new Date(Date.now() + WALLET_SESSION_TTL);
+  return {
+    token: signer.sign({
+      sub: 'wallet',
+      phone: phoneNumber,
+      exp: Math.floor(expiresAt.getTime() / 1000)
+    }),
+    phoneNumber,
+    expiresAt: expiresAt.toISOString()
+  };
+};
+
+/**
+ * Check a sign-in code and start a wallet session for its phone number. The code can
+ * only be used once. Returns { token, phoneNumber, expiresAt }.
+ */
+const verifyWalletCode = (phoneNumber, code) => {
+  const phone = toPhoneNumber(phoneNumber);
+  const store = getStore();
+  const walletCode = store.getWalletCode(phone);
+
+  if (!walletCode || Date.parse(walletCode.expiresAt) <= Date.now()) {
+    throw new WalletError('CODE_EXPIRED', 'This code has expired. Ask for a new one');
+  }
+  if (walletCode.attempts >= WALLET_CODE_MAX_ATTEMPTS) {
+    store.deleteWalletCode(phone);
+    throw new WalletError('TOO_MANY_ATTEMPTS', 'Too many wrong codes. Ask for a new one');
+  }
+
+  if (!signer.matches(`${phone}:${String(code || '').trim()}`, walletCode.codeHash)) {
+    store.recordWalletCodeAttempt(phone);
+    throw new WalletError('INVALID_CODE', 'That code is not right. Check the SMS and try again');
+  }
+
+  store.deleteWalletCode(phone);
+  return createWalletSession(phone);
+};
+
+/**
+ * The phone number a wallet session token is for, or null if it isn't a valid,
+ * unexpired session
+ */
+const verifyWalletSession = (token) => {
+  const { valid, payload } = signer.verify(token);
+  return valid && payload.sub === 'wallet' && typeof payload.exp === 'number' ? payload.phone : null;
+};
+
+/**
+ * Every ticket bought from a phone number, across matches
+ */
+const listWalletTickets = (phoneNumber) => getStore().listTicketsByPhone(phoneNumber);
+
+/**
+ * Text one of a phone number's tickets to it again.
+ * Throws WalletError for a ticket the number didn't buy.
+ */
+const resendWalletTicket = async (phoneNumber, ticketId) => {
+  const ticket = listWalletTickets(phoneNumber).find((candidate) => candidate.ticketId === ticketId);
+  if (!ticket) {
+    throw new WalletError('TICKET_NOT_FOUND', `No ticket ${ticketId} for this phone number`);
+  }
+
+  await sendSms(phoneNumber, [
+    `CHAN ticket ${ticket.ticketId}: ${ticket.teamA} vs ${ticket.teamB}, ${ticket.matchDate} ${ticket.matchTime}, ${ticket.venue}.`,
+    `${ticket.ticketType}, ${ticket.gate}, Section ${ticket.section}, Row ${ticket.row}, Seat ${ticket.seat}.`,
+    `Show its QR code at the gate: ${WALLET_URL}`
+  ].join(' '));
+  return ticket;
+};
+
+module.exports = {
+  WalletError,
+  requestWalletCode,
+  verifyWalletCode,
+  verifyWalletSession,
+  listWalletTickets,
+  resendWalletTicket
+};
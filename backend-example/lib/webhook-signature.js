@@ -0,0 +1,71 @@
+// PayHero callback signatures.
+// Each callback carries x-payhero-timestamp (unix seconds) and
+// x-payhero-signature: 'sha256=' + hex(HMAC-SHA256(timestamp + '.' + raw body)).
+// Signing the timestamp lets us reject old callbacks; remembering recent signatures
+// rejects exact replays inside the tolerance window.
+
+const crypto = require('crypto');
+
+const SIGNATURE_HEADER = 'x-payhero-signature';
+const TIMESTAMP_HEADER = 'x-payhero-timestamp';
+
+const WEBHOOK_TOLERANCE = parseInt(process.env.PAYHERO_WEBHOOK_TOLERANCE_SECONDS || '300', 10) * 1000;
+
+// Signatures already accepted, with when they can be forgotten
+const seenSignatures = new Map();
+
+const getWebhookSecret = () => process.env.PAYHERO_WEBHOOK_SECRET;
+
+const signWebhookPayload = (rawBody, timestamp, secret = getWebhookSecret()) => `sha256=${crypto
+  .createHmac('sha256', secret)
+  .update(`${timestamp}.${rawBody}`)
+  .digest('hex')}`;
+
+const forgetExpiredSignatures = (now) => {
+  seenSignatures.forEach((expiresAt, signature) => {
+    if (expiresAt <= now) {
+      seenSignatures.delete(signature);
+    }
+  });
+};
+
+/**
+ * Check a callback's signature and timestamp against its raw body.
+ * A signature is only accepted once.
+ */
+const verifyWebhookRequest = ({ rawBody, signature, timestamp, now = Date.now() }) => {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return { valid: false, reason: 'NOT_CONFIGURED' };
+  }
+
+  if (typeof signature !== 'string' || typeof timestamp !== 'string' || !/^\d+$/.test(timestamp) || rawBody === undefined) {
+    return { valid: false, reason: 'MISSING_SIGNATURE' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, timestamp, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'INVALID_SIGNATURE' };
+  }
+
+  const signedAt = parseInt(timestamp, 10) * 1000;
+  if (Math.abs(now - signedAt) > WEBHOOK_TOLERANCE) {
+    return { valid: false, reason: 'STALE_TIMESTAMP' };
+  }
+
+  forgetExpiredSignatures(now);
+  if (seenSignatures.has(signature)) {
+    return { valid: false, reason: 'REPLAYED' };
+  }
+  seenSignatures.set(signature, signedAt + WEBHOOK_TOLERANCE);
+
+  return { valid: true };
+};
+
+module.exports = {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signWebhookPayload,
+  verifyWebhookRequest
+};
@@ -0,0 +1,49 @@
+// Idempotent PayHero webhook processing.
+//
+// PayHero retries callbacks it doesn't see answered, so the same event can arrive more
+// than once. Each event is identified by its type and transaction ID, processed once,
+// and its result stored; a repeat delivery gets the stored result back without any
+// side effects running again. Events whose processing failed are processed again.
+
+const { getStore } = require('./store');
+
+/**
+ * Identity of a webhook event: its type and transaction
+ */
+const getWebhookEventKey = (payload) => `${payload.event}:${payload.data.transaction.id}`;
+
+/**
+ * Run `handler(transaction)` for a webhook payload unless the event was already processed.
+ * Returns { duplicate, result }, where result is the handler's (stored) return value.
+ */
+const processWebhookEvent = (payload, handler) => {
+  const store = getStore();
+  const { transaction } = payload.data;
+  const eventKey = getWebhookEventKey(payload);
+
+  const { claimed, event } = store.claimWebhookEvent({
+    eventKey,
+    event: payload.event,
+    transactionId: transaction.id,
+    reference: transaction.reference,
+    payload
+  });
+
+  if (!claimed) {
+    return { duplicate: true, status: event.status, result: event.result };
+  }
+
+  try {
+    const result = handler(transaction);
+    store.completeWebhookEvent(eventKey, 'processed', result);
+    return { duplicate: false, status: 'processed', result };
+  } catch (error) {
+    store.completeWebhookEvent(eventKey, 'failed', { error: error.message });
+    throw error;
+  }
+};
+
+module.exports = {
+  getWebhookEventKey,
+  processWebhookEvent
+};
@@ -0,0 +1,19 @@
+// Local mail sink, see lib/mail-sink.js
+// Run this with: node mail-sink.js
+// and point the server at it with MAIL_DRIVER=smtp SMTP_HOST=localhost SMTP_PORT=1025
+
+require('dotenv').config();
+const { createMailSink } = require('./lib/mail-sink');
+
+const SMTP_PORT = process.env.MAIL_SINK_SMTP_PORT || 1025;
+const HTTP_PORT = process.env.MAIL_SINK_HTTP_PORT || 1080;
+
+const sink = createMailSink();
+
+sink.smtp.listen(SMTP_PORT, () => {
+  console.log(`📭 Mail sink accepting SMTP on localhost:${SMTP_PORT}`);
+});
+
+sink.http.listen(HTTP_PORT, () => {
+  console.log(`   Received mail at http://localhost:${HTTP_PORT}/messages`);
+});
@@ -0,0 +1,27 @@
+// Local PayHero simulator, see lib/payhero-simulator.js
+// Run this with: node payhero-simulator.js
+// and point the server at it with PAYHERO_BASE_URL=http://localhost:5099
+
+const fs = require('fs');
+require('dotenv').config();
+const { createPayHeroSimulator, TEST_PHONES } = require('./lib/payhero-simulator');
+
+const PORT = process.env.PAYHERO_SIMULATOR_PORT || 5099;
+
+// Optional JSON file of { "2547XXXXXXXX": "<outcome>" }
+const readScript = (path) => (path ? JSON.parse(fs.readFileSync(path, 'utf8')) : {});
+
+const simulator = createPayHeroSimulator({
+  outcomes: readScript(process.env.PAYHERO_SIMULATOR_SCRIPT),
+  defaultOutcome: process.env.PAYHERO_SIMULATOR_DEFAULT_OUTCOME || 'success',
+  delayMs: parseInt(process.env.PAYHERO_SIMULATOR_DELAY_MS || '5000', 10),
+  timeoutMs: parseInt(process.env.PAYHERO_SIMULATOR_TIMEOUT_MS || '30000', 10),
+  callbackUrl: process.env.PAYHERO_CALLBACK_URL,
+  webhookSecret: process.env.PAYHERO_WEBHOOK_SECRET
+});
+
+simulator.listen(PORT, () => {
+  console.log(`🧪 PayHero simulator running on http://localhost:${PORT}`);
+  console.log('   Test numbers:');
+  Object.entries(TEST_PHONES).forEach(([phone, outcome]) => console.log(`   ${phone}  ${outcome}`));
+});
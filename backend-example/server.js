@@ -1,22 +1,93 @@
 // Example Express.js backend for PayHero integration
 // Run this with: node server.js
 
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 require('dotenv').config();
+const { issueTickets, listTicketsForMatch, verifyTicket, TicketIssueError } = require('./lib/tickets');
+const { recordScans, findConflicts } = require('./lib/scans');
+const {
+  getMatch,
+  listMatches,
+  toPublicMatch,
+  createMatch,
+  updateMatch,
+  setMatchArchived,
+  saveTier,
+  deleteTier,
+  MatchError
+} = require('./lib/matches');
+const { isAdminEnabled, checkAdminPassword, createAdminSession, verifyAdminSession } = require('./lib/admin-auth');
+const { getInventory } = require('./lib/inventory');
+const { releaseHold, startHoldSweeper, HoldError } = require('./lib/holds');
+const {
+  createOrder,
+  generateOrderReference,
+  getOrder,
+  getOrderLimits,
+  markOrderPaid,
+  toPublicOrder,
+  OrderError
+} = require('./lib/orders');
+const { signOrderToken, verifyOrderToken, withAccessToken } = require('./lib/buyer-tokens');
+const { assignAttendee, withAttendeeDeadline, AttendeeError } = require('./lib/attendees');
+const { emailTicket, startTicketEmailSender, TicketEmailError } = require('./lib/ticket-emails');
+const { getStore } = require('./lib/store');
+const { PayHeroClient } = require('./lib/payhero-client');
+const { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookRequest } = require('./lib/webhook-signature');
+const { processWebhookEvent } = require('./lib/webhooks');
+const { recordPaymentStatus, issuePaymentTickets } = require('./lib/payments');
+const { streamPaymentEvents } = require('./lib/payment-events');
+const { recoverTickets, RecoveryError } = require('./lib/recovery');
+const { startCardCheckout, confirmCardPayment, CardCheckoutError } = require('./lib/card-checkout');
+const {
+  requestWalletCode,
+  verifyWalletCode,
+  verifyWalletSession,
+  listWalletTickets,
+  resendWalletTicket,
+  WalletError
+} = require('./lib/wallet');
+const {
+  reconcilePendingPayments,
+  generateDailyReport,
+  getReconciliationReport,
+  listReconciliationReports,
+  startReconciler,
+  ReconciliationError
+} = require('./lib/reconciliation');
+const { toPaymentState } = require('./lib/payment-state.mjs');
+const { DEFAULT_WALLET, isMobileWallet, validateWalletNumber } = require('./lib/mobile-wallets.mjs');
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// PayHero Configuration
+// PayHero Configuration. Credentials live only here: the frontend talks to PayHero
+// through the /api/payments/* routes below.
 const PAYHERO_CONFIG = {
-  BASE_URL: 'https://backend.payhero.co.ke/api/v2',
   ACCOUNT_ID: process.env.PAYHERO_ACCOUNT_ID || '2060',
   CHANNEL_ID: process.env.PAYHERO_CHANNEL_ID || '9820939',
-  AUTH_TOKEN: process.env.PAYHERO_AUTH_TOKEN ||'aTRCRDhKZmFZY0xZVUdHbjdEdlM6Z2pyaGlCbUxUMmIwSm8wOHk5WFlzbzhpYjNORnZEaDRLUmtjaFhDNA==',
   CALLBACK_URL: process.env.PAYHERO_CALLBACK_URL || 'https://your-domain.com/api/payment-callback'
 };
 
+const payHero = PayHeroClient.fromEnv({
+  ...process.env,
+  PAYHERO_CHANNEL_ID: PAYHERO_CONFIG.CHANNEL_ID,
+  PAYHERO_CALLBACK_URL: PAYHERO_CONFIG.CALLBACK_URL
+});
+
+if (!payHero.isConfigured) {
+  console.warn('PAYHERO_AUTH_TOKEN is not set, PayHero requests will be rejected');
+}
+
+if (!process.env.PAYHERO_WEBHOOK_SECRET) {
+  console.warn('PAYHERO_WEBHOOK_SECRET is not set, PayHero callbacks will be rejected');
+}
+
+// Shared key gate scanners use to download manifests and sync scans
+const GATE_ACCESS_KEY = process.env.GATE_ACCESS_KEY;
+
 // Middleware
 app.use(cors({
   origin: [
@@ -27,86 +98,182 @@ app.use(cors({
   credentials: true
 }));
 
-app.use(express.json());
+// Keep the callback's raw body: its signature covers the bytes PayHero sent, not our re-serialization
+app.use(express.json({
+  verify: (req, res, buf) => {
+    if (req.originalUrl === '/api/payment-callback') {
+      req.rawBody = buf.toString('utf8');
+    }
+  }
+}));
+
+const store = getStore();
+
+const HOLD_ERROR_STATUS = {
+  INVALID_QUANTITY: 400,
+  UNKNOWN_TICKET_TYPE: 404,
+  SOLD_OUT: 409
+};
+
+const ORDER_ERROR_STATUS = {
+  INVALID_ORDER: 400,
+  INVALID_PHONE_NUMBER: 400,
+  ORDER_LIMIT_EXCEEDED: 400,
+  PHONE_LIMIT_EXCEEDED: 409
+};
+
+const sendError = (res, status, error) => res.status(status).json({
+  success: false,
+  message: error.message,
+  error: {
+    code: error.code,
+    message: error.message
+  }
+});
+
+// Acting on an existing order takes the order token issued with it, not just its reference
+const sendInvalidOrderToken = (res) => sendError(res, 403, {
+  code: 'INVALID_ORDER_TOKEN',
+  message: 'This order could not be verified. Start your purchase again'
+});
+
+// A number the chosen wallet can't prompt: another network's, or an unknown wallet
+const sendWalletNumberError = (res, wallet, message) => sendError(res, 400, {
+  code: isMobileWallet(wallet) ? 'INVALID_PHONE_NUMBER' : 'INVALID_PROVIDER',
+  message
+});
+
+// Tickets returned to the buyer who bought them, who may change them
+const toBuyerTicket = (ticket) => withAccessToken(withAttendeeDeadline(ticket));
+
+const sendHoldError = (res, error) => sendError(res, HOLD_ERROR_STATUS[error.code] || 409, error);
 
-// In-memory storage for demo (use a proper database in production)
-const transactions = new Map();
+// Orders fail on their caps (OrderError) or on stock (HoldError)
+const sendOrderError = (res, error) => (error instanceof OrderError
+  ? sendError(res, ORDER_ERROR_STATUS[error.code] || 400, error)
+  : sendHoldError(res, error));
+
+// Line items from a request body: an `items` array, or a single `ticket_type`
+const readOrderItems = ({ items, ticket_type, quantity }) => (Array.isArray(items)
+  ? items.map((item) => ({ ticketType: item && item.ticket_type, quantity: parseInt(item && item.quantity, 10) }))
+  : [{ ticketType: ticket_type, quantity: parseInt(quantity || 1, 10) }]);
 
 /**
- * Initiate PayHero STK Push
+ * Initiate PayHero STK Push for an order.
+ * Pass the `reference` and `order_token` of an order created with POST /api/orders, or
+ * `match_id` and `items` to create the order here.
  */
 app.post('/api/payments/initiate', async (req, res) => {
   try {
     const {
-      account_id,
-      channel_id,
-      amount,
-      currency,
       reference,
       customer_name,
+      customer_email,
       phone_number,
       provider,
-      callback_url
+      match_id,
+      order_token
     } = req.body;
+    if (reference && !verifyOrderToken(order_token, reference)) {
+      return sendInvalidOrderToken(res);
+    }
+    let order = reference ? getOrder(reference) : null;
 
     // Validate required fields
-    if (!amount || !customer_name || !phone_number) {
+    if (!customer_name || !phone_number || (!order && (!match_id || !(req.body.items || req.body.ticket_type)))) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: amount, customer_name, phone_number'
+        message: 'Missing required fields: customer_name, phone_number, and match_id and items without an order'
       });
     }
 
-    // Prepare PayHero request
+    // The prompt goes to the wallet the buyer picked, which only takes its network's numbers
+    const wallet = provider || DEFAULT_WALLET;
+    const validation = validateWalletNumber(phone_number, wallet);
+    if (!validation.isValid) {
+      return sendWalletNumberError(res, wallet, validation.error);
+    }
+    const phoneNumber = validation.formattedNumber;
+
+    // An order is only charged to the number it was placed with, which its cap counted
+    if (order && order.phoneNumber !== phoneNumber) {
+      return sendError(res, 409, {
+        code: 'PHONE_MISMATCH',
+        message: 'Pay with the phone number you placed the order with'
+      });
+    }
+
+    const paymentReference = order ? order.reference : generateOrderReference();
+
+    // Hold the tickets before prompting the customer, so we never take payment for stock we don't have
+    if (!order) {
+      try {
+        order = createOrder({
+          reference: paymentReference,
+          matchId: match_id,
+          items: readOrderItems(req.body),
+          phoneNumber,
+          customerName: customer_name,
+          customerEmail: customer_email
+        });
+      } catch (error) {
+        if (error instanceof OrderError || error instanceof HoldError) {
+          return sendOrderError(res, error);
+        }
+        throw error;
+      }
+    }
+
+    // Prepare PayHero request. The customer is charged the order total and the
+    // channel and callback come from server config, whatever the client sent.
     const payHeroRequest = {
-      account_id: account_id || PAYHERO_CONFIG.ACCOUNT_ID,
-      channel_id: channel_id || PAYHERO_CONFIG.CHANNEL_ID,
-      amount: parseInt(amount),
-      currency: currency || 'KES',
-      reference: reference || `CHAN${Date.now().toString().slice(-8)}`,
-      customer_name,
-      phone_number,
-      provider: provider || 'm-pesa',
-      callback_url: callback_url || PAYHERO_CONFIG.CALLBACK_URL
+      amount: order.totalAmount,
+      phone_number: phoneNumber,
+      provider: wallet,
+      external_reference: paymentReference,
+      customer_name
     };
 
     console.log('Initiating PayHero payment:', {
       ...payHeroRequest,
-      phone_number: phone_number.slice(0, 6) + '****' + phone_number.slice(-2)
+      phone_number: phoneNumber.slice(0, 6) + '****' + phoneNumber.slice(-2)
     });
 
-    // Make request to PayHero API
-    const response = await fetch(`${PAYHERO_CONFIG.BASE_URL}/payments`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Basic ${PAYHERO_CONFIG.AUTH_TOKEN}`,
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify(payHeroRequest)
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(`PayHero API Error: ${response.status} - ${data.message || 'Unknown error'}`);
+    let data;
+    try {
+      data = await payHero.initiatePayment(payHeroRequest);
+    } catch (error) {
+      releaseHold(paymentReference);
+      throw error;
     }
 
-    // Store transaction for status checking
-    const transactionId = data.transaction?.id || data.data?.id;
-    if (transactionId) {
-      transactions.set(transactionId, {
-        ...payHeroRequest,
-        status: 'pending',
-        created_at: new Date().toISOString(),
-        payhero_response: data
-      });
-    }
+    // Store transaction for status checking, under PayHero's reference for it
+    store.savePayment({
+      reference: paymentReference,
+      transaction_id: data.reference || data.CheckoutRequestID || null,
+      account_id: PAYHERO_CONFIG.ACCOUNT_ID,
+      channel_id: PAYHERO_CONFIG.CHANNEL_ID,
+      amount: payHeroRequest.amount,
+      currency: 'KES',
+      customer_name,
+      phone_number: phoneNumber,
+      provider: payHeroRequest.provider,
+      callback_url: PAYHERO_CONFIG.CALLBACK_URL,
+      match_id: order.matchId,
+      ticket_type: order.items.length === 1 ? order.items[0].ticketType : null,
+      quantity: order.quantity,
+      status: 'pending',
+      payhero_response: data
+    });
 
     res.json({
       success: true,
       message: data.message || 'Payment initiated successfully',
-      transaction: data.transaction || data.data
+      status: data.status || 'QUEUED',
+      reference: data.reference,
+      CheckoutRequestID: data.CheckoutRequestID,
+      order: toPublicOrder(order),
+      order_token: signOrderToken(order.reference)
     });
 
   } catch (error) {
@@ -122,8 +289,105 @@ app.post('/api/payments/initiate', async (req, res) => {
   }
 });
 
+const CARD_CHECKOUT_ERROR_STATUS = {
+  INVALID_REQUEST: 400,
+  PAYMENT_NOT_FOUND: 404,
+  ORDER_NOT_FOUND: 404,
+  ALREADY_STARTED: 409
+};
+
+/**
+ * Start a card payment for an order on PayHero's hosted checkout: the order with
+ * `reference` and `order_token`, or a new one for `match_id` and `items`. The browser
+ * is redirected to `checkout_url`; card details never pass through us.
+ */
+app.post('/api/payments/card/checkout', async (req, res) => {
+  try {
+    const { reference, order_token, match_id, customer_name, customer_email, phone_number } = req.body;
+    if (reference && !verifyOrderToken(order_token, reference)) {
+      return sendInvalidOrderToken(res);
+    }
+    const { payment, checkoutUrl, order } = await startCardCheckout(payHero, {
+      reference,
+      matchId: match_id,
+      items: readOrderItems(req.body),
+      customerName: customer_name,
+      customerEmail: customer_email,
+      phoneNumber: phone_number
+    });
+
+    res.status(201).json({
+      success: true,
+      reference: payment.transaction_id,
+      checkout_url: checkoutUrl,
+      order: toPublicOrder(order),
+      order_token: signOrderToken(order.reference)
+    });
+  } catch (error) {
+    if (error instanceof CardCheckoutError) {
+      return sendError(res, CARD_CHECKOUT_ERROR_STATUS[error.code] || 400, error);
+    }
+    if (error instanceof OrderError || error instanceof HoldError) {
+      return sendOrderError(res, error);
+    }
+    console.error('Card checkout error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Could not start the card payment. Please try again shortly.',
+      error: {
+        code: 'CARD_CHECKOUT_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+/**
+ * Confirm an order's card payment with PayHero once the buyer is back from the hosted
+ * checkout, and issue its tickets if it succeeded. `tickets` is empty until then.
+ * Requires the order token from the return URL.
+ */
+app.post('/api/payments/card/confirm', async (req, res) => {
+  try {
+    const { reference, order_token } = req.body;
+    if (!verifyOrderToken(order_token, reference)) {
+      return sendInvalidOrderToken(res);
+    }
+
+    const { payment, state, tickets } = await confirmCardPayment(payHero, reference);
+
+    res.json({
+      success: true,
+      payment: {
+        reference: payment.reference,
+        transaction_id: payment.transaction_id,
+        amount: payment.amount,
+        state
+      },
+      tickets: tickets.map(toBuyerTicket)
+    });
+  } catch (error) {
+    if (error instanceof CardCheckoutError) {
+      return sendError(res, CARD_CHECKOUT_ERROR_STATUS[error.code] || 400, error);
+    }
+    if (error instanceof TicketIssueError) {
+      return sendError(res, 409, error);
+    }
+    console.error('Card payment confirmation error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Could not confirm the payment with PayHero. Please try again shortly.',
+      error: {
+        code: 'CARD_CONFIRMATION_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
 /**
- * Check PayHero payment status
+ * Check PayHero payment status.
+ * `transactionId` is the reference PayHero returned when the STK push was initiated.
  */
 app.get('/api/payments/status/:transactionId', async (req, res) => {
   try {
@@ -137,36 +401,24 @@ app.get('/api/payments/status/:transactionId', async (req, res) => {
     }
 
     // Check local storage first
-    const localTransaction = transactions.get(transactionId);
-
-    // Make request to PayHero API
-    const response = await fetch(`${PAYHERO_CONFIG.BASE_URL}/payments/${transactionId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Basic ${PAYHERO_CONFIG.AUTH_TOKEN}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    const data = await response.json();
+    const localTransaction = store.getPaymentByTransactionId(transactionId) || store.getPayment(transactionId);
 
-    if (!response.ok) {
-      throw new Error(`PayHero API Error: ${response.status} - ${data.message || 'Unknown error'}`);
-    }
+    const data = await payHero.getTransactionStatus(transactionId);
 
     // Update local storage
-    if (localTransaction) {
-      transactions.set(transactionId, {
-        ...localTransaction,
-        status: data.transaction?.status || data.data?.status || 'pending',
-        updated_at: new Date().toISOString(),
-        payhero_status_response: data
-      });
-    }
+    const transition = localTransaction
+      ? recordPaymentStatus(localTransaction.reference, data.status, 'status-check', data)
+      : { state: toPaymentState(data.status) };
 
     res.json({
       success: true,
-      transaction: data.transaction || data.data
+      status: data.status,
+      state: transition.state,
+      reference: transactionId,
+      provider_reference: data.provider_reference,
+      third_party_reference: data.third_party_reference,
+      transaction_date: data.transaction_date,
+      message: data.message
     });
 
   } catch (error) {
@@ -182,99 +434,952 @@ app.get('/api/payments/status/:transactionId', async (req, res) => {
 });
 
 /**
- * PayHero Webhook Handler
+ * Match catalog
  */
-app.post('/api/payment-callback', (req, res) => {
-  try {
-    const payload = req.body;
-    
-    console.log('Received PayHero webhook:', payload);
+app.get('/api/matches', (req, res) => {
+  res.json({
+    success: true,
+    matches: listMatches().map(toPublicMatch)
+  });
+});
 
-    // Verify webhook signature if available
-    // const signature = req.headers['x-payhero-signature'];
-    // if (!verifyWebhookSignature(payload, signature)) {
-    //   return res.status(401).send('Invalid signature');
-    // }
+app.get('/api/matches/:matchId', (req, res) => {
+  const match = getMatch(req.params.matchId);
 
-    // Process the webhook
-    if (payload.data && payload.data.transaction) {
-      const transaction = payload.data.transaction;
-      
-      // Update local storage
-      if (transactions.has(transaction.id)) {
-        const localTransaction = transactions.get(transaction.id);
-        transactions.set(transaction.id, {
-          ...localTransaction,
-          status: transaction.status,
-          updated_at: new Date().toISOString(),
-          webhook_payload: payload
-        });
+  if (!match) {
+    return res.status(404).json({
+      success: false,
+      message: 'Match not found',
+      error: {
+        code: 'MATCH_NOT_FOUND',
+        message: `No match with id ${req.params.matchId}`
       }
+    });
+  }
 
-      // Here you would typically:
-      // - Update your database
-      // - Send email notifications
-      // - Generate tickets
-      // - Trigger any business logic
-      
-      console.log(`Payment ${transaction.status}: ${transaction.id}`);
-    }
+  res.json({
+    success: true,
+    match: toPublicMatch(match)
+  });
+});
 
-    res.status(200).send('OK');
-  } catch (error) {
-    console.error('Webhook processing error:', error);
-    res.status(500).send('Internal Server Error');
+/**
+ * Remaining tickets per tier for a match
+ */
+app.get('/api/matches/:matchId/inventory', (req, res) => {
+  const inventory = getInventory(req.params.matchId);
+
+  if (!inventory) {
+    return res.status(404).json({
+      success: false,
+      message: 'Match not found',
+      error: {
+        code: 'MATCH_NOT_FOUND',
+        message: `No match with id ${req.params.matchId}`
+      }
+    });
   }
+
+  res.json({
+    success: true,
+    matchId: req.params.matchId,
+    tiers: inventory
+  });
 });
 
 /**
- * Health check endpoint
+ * Purchase caps, so clients can limit quantity pickers
  */
-app.get('/api/health', (req, res) => {
+app.get('/api/orders/limits', (req, res) => {
   res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    payhero_config: {
-      account_id: PAYHERO_CONFIG.ACCOUNT_ID,
-      channel_id: PAYHERO_CONFIG.CHANNEL_ID,
-      has_auth_token: !!PAYHERO_CONFIG.AUTH_TOKEN,
-      callback_url: PAYHERO_CONFIG.CALLBACK_URL
+    success: true,
+    limits: getOrderLimits()
+  });
+});
+
+/**
+ * Create an order for several ticket types and hold its tickets.
+ * The order reference must be sent to PayHero as the payment's external reference,
+ * for the order's total amount. The order token is the buyer's proof they placed it.
+ */
+app.post('/api/orders', (req, res) => {
+  const { match_id, items, phone_number, provider, customer_name, customer_email } = req.body;
+
+  if (!match_id || !Array.isArray(items) || !phone_number) {
+    return res.status(400).json({
+      success: false,
+      message: 'Missing required fields: match_id, items, phone_number'
+    });
+  }
+
+  // Checked as the STK push will be, so the cap counts the number in one form
+  const wallet = provider || DEFAULT_WALLET;
+  const validation = validateWalletNumber(phone_number, wallet);
+  if (!validation.isValid) {
+    return sendWalletNumberError(res, wallet, validation.error);
+  }
+
+  try {
+    const order = createOrder({
+      reference: generateOrderReference(),
+      matchId: match_id,
+      items: readOrderItems(req.body),
+      phoneNumber: validation.formattedNumber,
+      customerName: customer_name,
+      customerEmail: customer_email
+    });
+
+    res.status(201).json({
+      success: true,
+      order: toPublicOrder(order),
+      order_token: signOrderToken(order.reference)
+    });
+  } catch (error) {
+    if (error instanceof OrderError || error instanceof HoldError) {
+      return sendOrderError(res, error);
     }
+    console.error('Order creation error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create order',
+      error: {
+        code: 'ORDER_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+/**
+ * Release an order's hold when its payment failed or was abandoned.
+ * Requires the order token, so only the buyer can give their tickets back.
+ */
+app.delete('/api/holds/:reference', (req, res) => {
+  const { reference } = req.params;
+  if (!verifyOrderToken(req.body && req.body.order_token, reference)) {
+    return sendInvalidOrderToken(res);
+  }
+
+  const released = releaseHold(reference);
+
+  res.json({
+    success: true,
+    released
   });
 });
 
 /**
- * Get all transactions (for debugging)
+ * Issue the tickets for an order's confirmed payment: everything in the order.
+ * `reference` is PayHero's reference for the payment and `hold_reference` the order's,
+ * whose order token is required.
  */
-app.get('/api/transactions', (req, res) => {
-  const allTransactions = Array.from(transactions.entries()).map(([id, data]) => ({
-    id,
-    ...data
-  }));
-  
+app.post('/api/tickets', async (req, res) => {
+  try {
+    const { reference, hold_reference, order_token, holder_name, holder_email } = req.body;
+    // The order is keyed by the reference its hold was created with
+    const orderReference = hold_reference || reference;
+
+    if (!reference || !holder_name) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: reference, holder_name'
+      });
+    }
+    if (!verifyOrderToken(order_token, orderReference)) {
+      return sendInvalidOrderToken(res);
+    }
+
+    // The payment must be the one made for this order, not just any paid payment
+    const order = getOrder(orderReference);
+    const localPayment = store.getPaymentByTransactionId(reference) || store.getPayment(reference);
+    if (!order || !localPayment || localPayment.reference !== order.reference) {
+      return sendError(res, 404, {
+        code: 'PAYMENT_NOT_FOUND',
+        message: `No payment ${reference} for order ${orderReference}`
+      });
+    }
+
+    // Never trust the client: confirm the payment with PayHero before issuing. A payment
+    // we recorded as failed or cancelled stays that way until it is reconciled.
+    const payment = await payHero.getTransactionStatus(localPayment.transaction_id || localPayment.reference);
+    const { state } = recordPaymentStatus(localPayment.reference, payment.status, 'ticket-issue', payment);
+    if (state !== 'success') {
+      return res.status(402).json({
+        success: false,
+        message: 'Payment has not been confirmed',
+        error: {
+          code: 'PAYMENT_NOT_CONFIRMED',
+          message: `Payment status is ${state || payment.status || 'unknown'}`
+        }
+      });
+    }
+
+    const tickets = issueTickets({
+      // Keyed by PayHero's reference, as when the callback issues them
+      reference: localPayment.transaction_id || localPayment.reference,
+      holdReference: order.reference,
+      matchId: order.matchId,
+      items: order.items,
+      holderName: holder_name,
+      // The address given at checkout, which the tickets are emailed to
+      holderEmail: holder_email || order.customerEmail || '',
+      amountPaid: payment.amount
+    });
+
+    markOrderPaid(order.reference);
+
+    console.log(`Tickets ${tickets.map((ticket) => ticket.ticketId).join(', ')} issued for payment ${reference}`);
+
+    res.status(201).json({
+      success: true,
+      tickets: tickets.map(toBuyerTicket)
+    });
+
+  } catch (error) {
+    if (error instanceof TicketIssueError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+
+    console.error('Ticket issuance error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue ticket',
+      error: {
+        code: 'TICKET_ISSUANCE_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+/**
+ * Verify a ticket QR token
+ */
+app.post('/api/tickets/verify', (req, res) => {
+  const { token } = req.body;
+
+  if (!token) {
+    return res.status(400).json({
+      success: false,
+      message: 'Token is required'
+    });
+  }
+
+  const result = verifyTicket(token);
+
+  if (!result.valid) {
+    console.warn(`Rejected ticket token: ${result.reason}`);
+    return res.status(422).json({
+      success: false,
+      valid: false,
+      error: {
+        code: result.reason,
+        message: 'Ticket token is not valid'
+      }
+    });
+  }
+
   res.json({
     success: true,
-    transactions: allTransactions
+    valid: true,
+    ticket: result.ticket
   });
 });
 
+const ATTENDEE_ERROR_STATUS = {
+  TICKET_NOT_FOUND: 404,
+  INVALID_ATTENDEE: 400,
+  EDIT_CLOSED: 409,
+  ALREADY_ADMITTED: 409
+};
+
+/**
+ * Name the person a ticket admits. Requires the ticket's access token, which only its
+ * buyer is given.
+ */
+app.put('/api/tickets/:ticketId/attendee', (req, res) => {
+  const { access_token, name, id_number, phone } = req.body;
+
+  if (!access_token || !name) {
+    return res.status(400).json({
+      success: false,
+      message: 'Missing required fields: access_token, name'
+    });
+  }
+
+  try {
+    const ticket = assignAttendee({
+      ticketId: req.params.ticketId,
+      accessToken: access_token,
+      name,
+      idNumber: id_number,
+      phone
+    });
+
+    res.json({
+      success: true,
+      ticket: withAccessToken(ticket)
+    });
+  } catch (error) {
+    if (error instanceof AttendeeError) {
+      return sendError(res, ATTENDEE_ERROR_STATUS[error.code] || 400, error);
+    }
+    console.error('Attendee update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update attendee',
+      error: {
+        code: 'ATTENDEE_UPDATE_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+const TICKET_EMAIL_ERROR_STATUS = {
+  TICKET_NOT_FOUND: 404,
+  EMAIL_REQUIRED: 400,
+  INVALID_EMAIL: 400
+};
+
+/**
+ * Email a ticket again, to the address it was bought with. Requires the ticket's access
+ * token, which only its buyer is given. The email is queued and sent in the background.
+ */
+app.post('/api/tickets/:ticketId/email', (req, res) => {
+  const { access_token } = req.body;
+
+  if (!access_token) {
+    return res.status(400).json({
+      success: false,
+      message: 'Missing required field: access_token'
+    });
+  }
+
+  try {
+    const queued = emailTicket({ ticketId: req.params.ticketId, accessToken: access_token });
+
+    res.status(202).json({
+      success: true,
+      ticket: toBuyerTicket(queued.ticket),
+      email: {
+        id: queued.email.id,
+        recipient: queued.email.recipient,
+        status: queued.email.status
+      }
+    });
+  } catch (error) {
+    if (error instanceof TicketEmailError) {
+      return sendError(res, TICKET_EMAIL_ERROR_STATUS[error.code] || 400, error);
+    }
+    console.error('Ticket email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to email ticket',
+      error: {
+        code: 'TICKET_EMAIL_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+/**
+ * Only allow requests from gate scanners holding the gate access key
+ */
+const requireGateKey = (req, res, next) => {
+  const provided = Buffer.from(req.get('x-gate-key') || '');
+  const expected = Buffer.from(GATE_ACCESS_KEY || '');
+
+  if (!GATE_ACCESS_KEY || provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid gate access key'
+    });
+  }
+
+  next();
+};
+
+/**
+ * Admin console.
+ * Admins log in with ADMIN_PASSWORD and send the session token as a Bearer token.
+ */
+const requireAdmin = (req, res, next) => {
+  const [scheme, token] = (req.get('authorization') || '').split(' ');
+
+  if (scheme !== 'Bearer' || !verifyAdminSession(token)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Admin login required',
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Missing or expired admin session'
+      }
+    });
+  }
+
+  next();
+};
+
+const MATCH_ERROR_STATUS = {
+  MATCH_NOT_FOUND: 404,
+  TIER_NOT_FOUND: 404,
+  INVALID_MATCH: 400,
+  INVALID_TIER: 400,
+  CAPACITY_TOO_LOW: 409,
+  TIER_IN_USE: 409
+};
+
+// Run an admin change and reply with the updated match
+const adminMatchHandler = (change, successStatus = 200) => (req, res) => {
+  try {
+    const match = change(req);
+    res.status(successStatus).json({
+      success: true,
+      match: toAdminMatch(match)
+    });
+  } catch (error) {
+    if (error instanceof MatchError) {
+      return res.status(MATCH_ERROR_STATUS[error.code] || 400).json({
+        success: false,
+        message: error.message,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+    console.error('Admin match update error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update match',
+      error: {
+        code: 'MATCH_UPDATE_FAILED',
+        message: error.message
+      }
+    });
+  }
+};
+
+// Public match plus the stock and seating admins need to see
+const toAdminMatch = (match) => {
+  const inventory = getInventory(match.id) || [];
+  const publicMatch = toPublicMatch(match);
+  return {
+    ...publicMatch,
+    tiers: publicMatch.tiers.map((tier) => ({
+      ...tier,
+      seating: match.tiers[tier.type].seating,
+      inventory: inventory.find((item) => item.type === tier.type) || null
+    }))
+  };
+};
+
+app.post('/api/admin/login', (req, res) => {
+  if (!isAdminEnabled()) {
+    return res.status(503).json({
+      success: false,
+      message: 'Admin console is disabled',
+      error: {
+        code: 'ADMIN_DISABLED',
+        message: 'Set ADMIN_PASSWORD on the backend to enable the admin console'
+      }
+    });
+  }
+
+  if (!checkAdminPassword(req.body.password)) {
+    return res.status(401).json({
+      success: false,
+      message: 'Incorrect password',
+      error: {
+        code: 'INVALID_CREDENTIALS',
+        message: 'Incorrect password'
+      }
+    });
+  }
+
+  res.json({
+    success: true,
+    session: createAdminSession()
+  });
+});
+
+app.get('/api/admin/matches', requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    matches: listMatches({ includeArchived: true }).map(toAdminMatch)
+  });
+});
+
+app.post('/api/admin/matches', requireAdmin, adminMatchHandler((req) => createMatch(req.body), 201));
+
+app.put('/api/admin/matches/:matchId', requireAdmin, adminMatchHandler((req) => (
+  updateMatch(req.params.matchId, req.body)
+)));
+
+app.post('/api/admin/matches/:matchId/archive', requireAdmin, adminMatchHandler((req) => (
+  setMatchArchived(req.params.matchId, true)
+)));
+
+app.post('/api/admin/matches/:matchId/restore', requireAdmin, adminMatchHandler((req) => (
+  setMatchArchived(req.params.matchId, false)
+)));
+
+app.put('/api/admin/matches/:matchId/tiers/:tierType', requireAdmin, adminMatchHandler((req) => (
+  saveTier(req.params.matchId, req.params.tierType, req.body)
+)));
+
+app.delete('/api/admin/matches/:matchId/tiers/:tierType', requireAdmin, adminMatchHandler((req) => (
+  deleteTier(req.params.matchId, req.params.tierType)
+)));
+
+const RECONCILIATION_ERROR_STATUS = {
+  INVALID_DATE: 400,
+  DAY_NOT_OVER: 409
+};
+
+// Payment reconciliation needs PayHero; reply 502 when it can't be reached
+const sendReconciliationFailure = (res, error) => {
+  console.error('Reconciliation error:', error);
+  res.status(502).json({
+    success: false,
+    message: 'Could not reconcile payments with PayHero',
+    error: {
+      code: 'RECONCILIATION_FAILED',
+      message: error.message
+    }
+  });
+};
+
+/**
+ * Check stale pending payments with PayHero now, instead of waiting for the reconciler
+ */
+app.post('/api/admin/reconciliation/run', requireAdmin, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      summary: await reconcilePendingPayments(payHero)
+    });
+  } catch (error) {
+    sendReconciliationFailure(res, error);
+  }
+});
+
+app.get('/api/admin/reconciliation/reports', requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    reports: listReconciliationReports()
+  });
+});
+
+app.get('/api/admin/reconciliation/reports/:date', requireAdmin, (req, res) => {
+  const report = getReconciliationReport(req.params.date);
+  if (!report) {
+    return res.status(404).json({
+      success: false,
+      message: 'Report not found',
+      error: {
+        code: 'REPORT_NOT_FOUND',
+        message: `No reconciliation report for ${req.params.date}`
+      }
+    });
+  }
+
+  res.json({
+    success: true,
+    report
+  });
+});
+
+/**
+ * Generate a day's reconciliation report again, e.g. after payments were corrected
+ */
+app.post('/api/admin/reconciliation/reports/:date', requireAdmin, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      report: await generateDailyReport(payHero, req.params.date)
+    });
+  } catch (error) {
+    if (error instanceof ReconciliationError) {
+      return sendError(res, RECONCILIATION_ERROR_STATUS[error.code] || 400, error);
+    }
+    sendReconciliationFailure(res, error);
+  }
+});
+
+/**
+ * Download the ticket manifest for a match so scanners can validate offline
+ */
+app.get('/api/scan/manifest/:matchId', requireGateKey, (req, res) => {
+  const { matchId } = req.params;
+
+  const tickets = listTicketsForMatch(matchId).map((ticket) => ({
+    ticketId: ticket.ticketId,
+    matchId: ticket.matchId,
+    qrToken: ticket.qrToken,
+    ticketType: ticket.ticketType,
+    holderName: ticket.holderName,
+    attendeeName: ticket.attendeeName,
+    attendeeIdNumber: ticket.attendeeIdNumber,
+    attendeePhone: ticket.attendeePhone
+  }));
+
+  res.json({
+    success: true,
+    matchId,
+    generatedAt: new Date().toISOString(),
+    tickets
+  });
+});
+
+/**
+ * Sync scans queued on a scanner and report tickets admitted at more than one gate
+ */
+app.post('/api/scan/sync', requireGateKey, (req, res) => {
+  const { device_id, scans } = req.body;
+
+  if (!device_id || !Array.isArray(scans)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Missing required fields: device_id, scans'
+    });
+  }
+
+  const accepted = recordScans(device_id, scans);
+  const conflicts = findConflicts(scans.map((scan) => scan.ticketId));
+
+  if (conflicts.length > 0) {
+    console.warn(`Scan conflicts reported by ${device_id}:`, conflicts.map((conflict) => conflict.ticketId));
+  }
+
+  res.json({
+    success: true,
+    accepted,
+    conflicts
+  });
+});
+
+const WALLET_ERROR_STATUS = {
+  INVALID_PHONE_NUMBER: 400,
+  INVALID_CODE: 401,
+  CODE_EXPIRED: 401,
+  TICKET_NOT_FOUND: 404,
+  TOO_MANY_ATTEMPTS: 429,
+  TOO_MANY_REQUESTS: 429
+};
+
+/**
+ * Ticket wallet.
+ * Buyers sign in with a code texted to the phone number they paid with, and send the
+ * wallet session token as a Bearer token.
+ */
+const requireWalletSession = (req, res, next) => {
+  const [scheme, token] = (req.get('authorization') || '').split(' ');
+  const phoneNumber = scheme === 'Bearer' ? verifyWalletSession(token) : null;
+
+  if (!phoneNumber) {
+    return res.status(401).json({
+      success: false,
+      message: 'Sign in to your tickets again',
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Missing or expired wallet session'
+      }
+    });
+  }
+
+  req.walletPhoneNumber = phoneNumber;
+  next();
+};
+
+app.post('/api/wallet/code', async (req, res) => {
+  try {
+    const { phoneNumber, expiresAt } = await requestWalletCode(req.body.phone_number);
+    res.json({
+      success: true,
+      phone_number: phoneNumber,
+      expires_at: expiresAt
+    });
+  } catch (error) {
+    if (error instanceof WalletError) {
+      return sendError(res, WALLET_ERROR_STATUS[error.code] || 400, error);
+    }
+    console.error('Wallet code error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Could not send the code. Please try again shortly.',
+      error: {
+        code: 'SMS_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+app.post('/api/wallet/verify', (req, res) => {
+  try {
+    res.json({
+      success: true,
+      session: verifyWalletCode(req.body.phone_number, req.body.code)
+    });
+  } catch (error) {
+    if (error instanceof WalletError) {
+      return sendError(res, WALLET_ERROR_STATUS[error.code] || 400, error);
+    }
+    console.error('Wallet sign-in error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check the code',
+      error: {
+        code: 'WALLET_SIGN_IN_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+app.get('/api/wallet/tickets', requireWalletSession, (req, res) => {
+  res.json({
+    success: true,
+    tickets: listWalletTickets(req.walletPhoneNumber).map(toBuyerTicket)
+  });
+});
+
+/**
+ * Text one of the wallet's tickets to its phone number again
+ */
+app.post('/api/wallet/tickets/:ticketId/resend', requireWalletSession, async (req, res) => {
+  try {
+    const ticket = await resendWalletTicket(req.walletPhoneNumber, req.params.ticketId);
+    res.json({
+      success: true,
+      ticket: toBuyerTicket(ticket)
+    });
+  } catch (error) {
+    if (error instanceof WalletError) {
+      return sendError(res, WALLET_ERROR_STATUS[error.code] || 400, error);
+    }
+    console.error('Ticket resend error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Could not send the ticket. Please try again shortly.',
+      error: {
+        code: 'SMS_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+const RECOVERY_ERROR_STATUS = {
+  INVALID_REQUEST: 400,
+  PAYMENT_NOT_CONFIRMED: 402,
+  PAYMENT_NOT_FOUND: 404
+};
+
+/**
+ * Recover the tickets of a payment whose buyer never got them, from its M-PESA receipt
+ * code or CHAN... order reference. Takes a wallet session, so only the phone number the
+ * payment was made with can recover it.
+ */
+app.post('/api/payments/recover', requireWalletSession, async (req, res) => {
+  try {
+    const { payment, tickets } = await recoverTickets(payHero, { phoneNumber: req.walletPhoneNumber, code: req.body.code });
+
+    res.json({
+      success: true,
+      payment: {
+        reference: payment.reference,
+        transaction_id: payment.transaction_id,
+        receipt: payment.provider_reference,
+        amount: payment.amount,
+        state: payment.status
+      },
+      tickets: tickets.map(toBuyerTicket)
+    });
+  } catch (error) {
+    if (error instanceof RecoveryError) {
+      return sendError(res, RECOVERY_ERROR_STATUS[error.code] || 400, error);
+    }
+    if (error instanceof TicketIssueError) {
+      return sendError(res, 409, error);
+    }
+    console.error('Ticket recovery error:', error);
+    res.status(502).json({
+      success: false,
+      message: 'Could not check the payment with PayHero. Please try again shortly.',
+      error: {
+        code: 'RECOVERY_FAILED',
+        message: error.message
+      }
+    });
+  }
+});
+
+/**
+ * Stream a payment's state to the browser as Server-Sent Events, so the page updates as
+ * soon as PayHero's callback arrives instead of polling the status route.
+ * `transactionId` is the reference PayHero returned when the STK push was initiated.
+ */
+app.get('/api/payments/events/:transactionId', (req, res) => {
+  const { transactionId } = req.params;
+  const payment = store.getPaymentByTransactionId(transactionId) || store.getPayment(transactionId);
+
+  if (!payment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Payment not found'
+    });
+  }
+
+  streamPaymentEvents(req, res, payment);
+});
+
+/**
+ * PayHero Webhook Handler
+ */
+app.post('/api/payment-callback', (req, res) => {
+  try {
+    const payload = req.body;
+
+    const verification = verifyWebhookRequest({
+      rawBody: req.rawBody,
+      signature: req.get(SIGNATURE_HEADER),
+      timestamp: req.get(TIMESTAMP_HEADER)
+    });
+    if (!verification.valid) {
+      console.warn(`Rejected PayHero webhook from ${req.ip}: ${verification.reason}`, {
+        event: payload && payload.event,
+        transactionId: payload && payload.data && payload.data.transaction && payload.data.transaction.id
+      });
+      return res.status(401).send('Invalid signature');
+    }
+
+    console.log('Received PayHero webhook:', payload);
+
+    // Process the webhook, once per event however often PayHero delivers it
+    if (payload.data && payload.data.transaction) {
+      const outcome = processWebhookEvent(payload, (transaction) => {
+        // Update local storage
+        const localTransaction = store.getPaymentByTransactionId(transaction.id) || store.getPayment(transaction.reference);
+        if (!localTransaction) {
+          return { paymentReference: null, status: transaction.status };
+        }
+
+        const { state, legal } = recordPaymentStatus(localTransaction.reference, transaction.status, 'webhook', transaction);
+        if (state !== 'success') {
+          return { paymentReference: localTransaction.reference, status: transaction.status, state, legal };
+        }
+
+        // Issue the tickets now, so the buyer gets them even if their browser never comes
+        // back. Issuing is idempotent: the browser, recovery and reconciliation get the same ones.
+        try {
+          const tickets = issuePaymentTickets(store.getPayment(localTransaction.reference), { amountPaid: transaction.amount });
+          console.log(`Tickets ${tickets.map((ticket) => ticket.ticketId).join(', ')} issued for payment ${localTransaction.reference}`);
+          return {
+            paymentReference: localTransaction.reference,
+            status: transaction.status,
+            state,
+            legal,
+            ticketIds: tickets.map((ticket) => ticket.ticketId)
+          };
+        } catch (error) {
+          if (!(error instanceof TicketIssueError)) {
+            throw error;
+          }
+          // Paid for but not issuable, e.g. short: left for reconciliation and support
+          console.error(`Tickets for payment ${localTransaction.reference} not issued: ${error.message}`);
+          return { paymentReference: localTransaction.reference, status: transaction.status, state, legal, ticketError: error.code };
+        }
+      });
+
+      if (outcome.duplicate) {
+        console.log(`Duplicate ${payload.event} for ${payload.data.transaction.id} (${outcome.status}), skipped`);
+      } else {
+        console.log(`Payment ${payload.data.transaction.status}: ${payload.data.transaction.id}`);
+      }
+    }
+
+    res.status(200).send('OK');
+  } catch (error) {
+    console.error('Webhook processing error:', error);
+    res.status(500).send('Internal Server Error');
+  }
+});
+
+/**
+ * Health check endpoint
+ */
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    payhero_config: {
+      account_id: PAYHERO_CONFIG.ACCOUNT_ID,
+      channel_id: PAYHERO_CONFIG.CHANNEL_ID,
+      has_auth_token: payHero.isConfigured,
+      callback_url: PAYHERO_CONFIG.CALLBACK_URL
+    }
+  });
+});
+
+/**
+ * Get all transactions, with buyers' names and phone numbers (for debugging)
+ */
+app.get('/api/transactions', requireAdmin, (req, res) => {
+  const allTransactions = store.listPayments().map((payment) => ({
+    id: payment.transaction_id || payment.reference,
+    ...payment,
+    status_history: store.getPaymentHistory(payment.reference)
+  }));
+
+  res.json({
+    success: true,
+    transactions: allTransactions
+  });
+});
+
+// Expire holds for payments nobody finished
+const holdSweeper = startHoldSweeper();
+// Settle payments whose callback never arrived, and report on each day's payments
+const reconciler = payHero.isConfigured ? startReconciler(payHero) : null;
+// Send ticket emails, and retry those that failed
+const ticketEmailSender = startTicketEmailSender();
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 PayHero backend server running on http://localhost:${PORT}`);
   console.log('📱 PayHero Configuration:');
   console.log(`   Account ID: ${PAYHERO_CONFIG.ACCOUNT_ID}`);
   console.log(`   Channel ID: ${PAYHERO_CONFIG.CHANNEL_ID}`);
-  console.log(`   Has Auth Token: ${!!PAYHERO_CONFIG.AUTH_TOKEN}`);
+  console.log(`   Has Auth Token: ${payHero.isConfigured}`);
   console.log(`   Callback URL: ${PAYHERO_CONFIG.CALLBACK_URL}`);
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('Received SIGTERM, shutting down gracefully');
+  clearInterval(holdSweeper);
+  clearInterval(reconciler);
+  clearInterval(ticketEmailSender);
+  store.close();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('Received SIGINT, shutting down gracefully');
+  clearInterval(holdSweeper);
+  clearInterval(reconciler);
+  clearInterval(ticketEmailSender);
+  store.close();
   process.exit(0);
 });
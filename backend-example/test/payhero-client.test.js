@@ -0,0 +1,235 @@
+// PayHeroClient against a local stub of the PayHero API
+
+const { describe, it, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+const { PayHeroClient, PayHeroError } = require('../lib/payhero-client');
+
+// Answers every request with `respond`, set per test, and keeps what it was sent
+const startStub = async () => {
+  const stub = {
+    requests: [],
+    respond: (req, res) => res.end('{}')
+  };
+
+  stub.server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      stub.requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: body ? JSON.parse(body) : null
+      });
+      stub.respond(req, res);
+    });
+  });
+
+  await new Promise((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+  stub.url = `http://127.0.0.1:${stub.server.address().port}`;
+  return stub;
+};
+
+const json = (status, data) => (req, res) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+describe('PayHeroClient', () => {
+  let stub;
+  let client;
+
+  before(async () => {
+    stub = await startStub();
+  });
+
+  after(() => new Promise((resolve) => stub.server.close(resolve)));
+
+  beforeEach(() => {
+    stub.requests = [];
+    client = new PayHeroClient({
+      baseUrl: stub.url,
+      authToken: 'dG9rZW4=',
+      channelId: '911',
+      callbackUrl: 'https://example.com/api/payment-callback'
+    });
+  });
+
+  describe('initiatePayment', () => {
+    it('sends an STK push with the client channel and callback', async () => {
+      stub.respond = json(201, { success: true, status: 'QUEUED', reference: 'PH-1', CheckoutRequestID: 'ws_CO_1' });
+
+      const push = await client.initiatePayment({
+        amount: '200',
+        phone_number: '254700000000',
+        provider: 'm-pesa',
+        external_reference: 'CHAN1',
+        customer_name: 'Ann'
+      });
+
+      assert.equal(push.reference, 'PH-1');
+      assert.equal(push.status, 'QUEUED');
+      const [request] = stub.requests;
+      assert.equal(request.method, 'POST');
+      assert.equal(request.url, '/api/v2/payments');
+      assert.equal(request.headers.authorization, 'Basic dG9rZW4=');
+      assert.deepEqual(request.body, {
+        amount: 200,
+        phone_number: '254700000000',
+        provider: 'm-pesa',
+        external_reference: 'CHAN1',
+        customer_name: 'Ann',
+        channel_id: 911,
+        callback_url: 'https://example.com/api/payment-callback'
+      });
+    });
+
+    it('defaults the status to QUEUED', async () => {
+      stub.respond = json(200, { CheckoutRequestID: 'ws_CO_2' });
+
+      const push = await client.initiatePayment({ amount: 1, phone_number: '254700000000' });
+
+      assert.equal(push.success, true);
+      assert.equal(push.status, 'QUEUED');
+    });
+
+    it('rejects a response without a reference', async () => {
+      stub.respond = json(200, { success: true });
+
+      await assert.rejects(
+        client.initiatePayment({ amount: 1, phone_number: '254700000000' }),
+        (error) => error instanceof PayHeroError && error.code === 'INVALID_RESPONSE'
+      );
+    });
+  });
+
+  describe('createCheckout', () => {
+    it('returns the hosted checkout URL', async () => {
+      stub.respond = json(201, { reference: 'PH-2', checkout_url: `${stub.url}/checkout/PH-2` });
+
+      const checkout = await client.createCheckout({
+        amount: 400,
+        external_reference: 'CHAN2',
+        customer_name: 'Ann',
+        customer_email: 'ann@example.com',
+        return_url: 'http://localhost:8080/payment/return'
+      });
+
+      assert.equal(checkout.checkout_url, `${stub.url}/checkout/PH-2`);
+      assert.equal(stub.requests[0].url, '/api/v2/checkout');
+      assert.equal(stub.requests[0].body.channel_id, 911);
+    });
+
+    it('rejects a response without a checkout URL', async () => {
+      stub.respond = json(201, { reference: 'PH-3' });
+
+      await assert.rejects(
+        client.createCheckout({ amount: 400, external_reference: 'CHAN3' }),
+        (error) => error instanceof PayHeroError && error.code === 'INVALID_RESPONSE'
+      );
+    });
+  });
+
+  describe('getTransactionStatus', () => {
+    it('looks the payment up by its reference', async () => {
+      stub.respond = json(200, { status: 'SUCCESS', provider_reference: 'SAE3YULR0Y' });
+
+      const status = await client.getTransactionStatus('PH 4/x');
+
+      assert.equal(stub.requests[0].method, 'GET');
+      assert.equal(stub.requests[0].url, '/api/v2/transaction-status?reference=PH%204%2Fx');
+      assert.equal(status.status, 'SUCCESS');
+      assert.equal(status.reference, 'PH 4/x');
+    });
+
+    it('defaults the status to PENDING', async () => {
+      stub.respond = json(200, {});
+
+      const status = await client.getTransactionStatus('PH-5');
+
+      assert.equal(status.status, 'PENDING');
+    });
+  });
+
+  describe('errors', () => {
+    it('keeps the status and body of an HTTP error', async () => {
+      stub.respond = json(400, { error_message: 'Insufficient balance' });
+
+      await assert.rejects(client.getTransactionStatus('PH-6'), (error) => {
+        assert.ok(error instanceof PayHeroError);
+        assert.equal(error.code, 'API_ERROR');
+        assert.equal(error.status, 400);
+        assert.deepEqual(error.details, { error_message: 'Insufficient balance' });
+        assert.match(error.message, /Insufficient balance/);
+        return true;
+      });
+    });
+
+    it('rejects a non-JSON response', async () => {
+      stub.respond = (req, res) => {
+        res.writeHead(502, { 'Content-Type': 'text/html' });
+        res.end('<html>Bad Gateway</html>');
+      };
+
+      await assert.rejects(
+        client.getTransactionStatus('PH-7'),
+        (error) => error instanceof PayHeroError && error.code === 'INVALID_RESPONSE' && error.status === 502
+      );
+    });
+
+    it('treats an empty body as an empty object', async () => {
+      stub.respond = (req, res) => res.end();
+
+      const status = await client.getTransactionStatus('PH-8');
+
+      assert.equal(status.status, 'PENDING');
+    });
+
+    it('fails without credentials before calling PayHero', async () => {
+      const unconfigured = new PayHeroClient({ baseUrl: stub.url });
+
+      assert.equal(unconfigured.isConfigured, false);
+      await assert.rejects(
+        unconfigured.getTransactionStatus('PH-9'),
+        (error) => error instanceof PayHeroError && error.code === 'NOT_CONFIGURED'
+      );
+      assert.equal(stub.requests.length, 0);
+    });
+
+    it('reports PayHero being unreachable', async () => {
+      const unreachable = new PayHeroClient({ baseUrl: 'http://127.0.0.1:9', authToken: 'dG9rZW4=' });
+
+      await assert.rejects(
+        unreachable.getTransactionStatus('PH-10'),
+        (error) => error instanceof PayHeroError && error.code === 'REQUEST_FAILED'
+      );
+    });
+  });
+
+  describe('configuration', () => {
+    it('does not double the API version in the base URL', async () => {
+      stub.respond = json(200, { status: 'SUCCESS' });
+      const versioned = new PayHeroClient({ baseUrl: `${stub.url}/api/v2/`, authToken: 'dG9rZW4=' });
+
+      await versioned.getTransactionStatus('PH-11');
+
+      assert.equal(stub.requests[0].url, '/api/v2/transaction-status?reference=PH-11');
+    });
+
+    it('builds Basic auth from an API username and password', () => {
+      const fromEnv = PayHeroClient.fromEnv({ PAYHERO_KEY: 'user', PAYHERO_SECRET: 'pass' });
+
+      assert.equal(fromEnv.authorization, `Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('prefers the auth token, with or without its prefix', () => {
+      const fromEnv = PayHeroClient.fromEnv({ PAYHERO_AUTH_TOKEN: 'Basic abc', PAYHERO_KEY: 'user', PAYHERO_SECRET: 'pass' });
+
+      assert.equal(fromEnv.authorization, 'Basic abc');
+      assert.equal(new PayHeroClient({ authToken: 'abc' }).authorization, 'Basic abc');
+    });
+  });
+});
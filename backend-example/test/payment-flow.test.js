@@ -0,0 +1,294 @@
+// End to end: the server, started as in production, taking M-PESA payments from the
+// PayHero simulator. Each flow uses one of the simulator's test phone numbers.
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const net = require('net');
+const path = require('path');
+const { spawn } = require('child_process');
+const { createPayHeroSimulator } = require('../lib/payhero-simulator');
+
+const DELAY_MS = 200;
+const TIMEOUT_MS = 1500;
+const WEBHOOK_SECRET = 'test-webhook-secret';
+const MATCH_ID = '1';
+const TIER = 'Regular';
+
+const PHONES = {
+  success: '254700000000',
+  wrongPin: '254700000001',
+  timeout: '254700000002'
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const findFreePort = () => new Promise((resolve, reject) => {
+  const server = net.createServer();
+  server.once('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+});
+
+// Resolves once the server says it is listening; rejects if it exits first
+const startServer = (env) => new Promise((resolve, reject) => {
+  const child = spawn(process.execPath, ['server.js'], {
+    cwd: path.join(__dirname, '..'),
+    env: { ...process.env, ...env },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let output = '';
+  const onOutput = (chunk) => {
+    output += chunk;
+    if (output.includes('server running on')) {
+      resolve({ child, output: () => output });
+    }
+  };
+  child.stdout.on('data', onOutput);
+  child.stderr.on('data', onOutput);
+  child.once('exit', (code) => reject(new Error(`Server exited with ${code}:\n${output}`)));
+});
+
+describe('M-PESA payment flow', () => {
+  let simulator;
+  let simulatorServer;
+  let server;
+  let baseUrl;
+
+  const api = async (method, route, body) => {
+    const response = await fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body)
+    });
+    return { status: response.status, data: await response.json() };
+  };
+
+  // Create an order for one ticket and send its STK push
+  const startPayment = async (phoneNumber) => {
+    const created = await api('POST', '/api/orders', {
+      match_id: MATCH_ID,
+      items: [{ ticket_type: TIER, quantity: 1 }],
+      phone_number: phoneNumber,
+      customer_name: 'Test Buyer',
+      customer_email: 'buyer@example.com'
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.data));
+
+    const { order, order_token: orderToken } = created.data;
+    const initiated = await api('POST', '/api/payments/initiate', {
+      reference: order.reference,
+      order_token: orderToken,
+      phone_number: phoneNumber,
+      customer_name: 'Test Buyer'
+    });
+    assert.equal(initiated.status, 200, JSON.stringify(initiated.data));
+    assert.equal(initiated.data.status, 'QUEUED');
+
+    return { order, orderToken, transactionId: initiated.data.reference };
+  };
+
+  const getStatus = async (transactionId) => {
+    const { status, data } = await api('GET', `/api/payments/status/${transactionId}`);
+    assert.equal(status, 200, JSON.stringify(data));
+    return data;
+  };
+
+  // Poll the status route, as the payment modal does, until the payment has an outcome
+  const waitForOutcome = async (transactionId, within = TIMEOUT_MS * 3) => {
+    const deadline = Date.now() + within;
+    for (;;) {
+      const status = await getStatus(transactionId);
+      if (['success', 'failed', 'cancelled'].includes(status.state)) {
+        return status;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Payment ${transactionId} still ${status.state} after ${within}ms`);
+      }
+      await sleep(50);
+    }
+  };
+
+  // The simulator's record of the push, once it has delivered its callback
+  const waitForCallback = async (transactionId) => {
+    for (let attempt = 0; attempt < 40; attempt++) {
+      const response = await fetch(`${simulator.url}/simulator/transactions`);
+      const { transactions } = await response.json();
+      const transaction = transactions.find((candidate) => candidate.reference === transactionId);
+      if (transaction && transaction.callbackStatus !== undefined) {
+        return transaction;
+      }
+      await sleep(50);
+    }
+    throw new Error(`No callback sent for ${transactionId}`);
+  };
+
+  const getTier = async () => {
+    const { data } = await api('GET', `/api/matches/${MATCH_ID}/inventory`);
+    return data.tiers.find((tier) => tier.type === TIER);
+  };
+
+  before(async () => {
+    const serverPort = await findFreePort();
+    baseUrl = `http://127.0.0.1:${serverPort}`;
+
+    simulator = createPayHeroSimulator({
+      delayMs: DELAY_MS,
+      timeoutMs: TIMEOUT_MS,
+      webhookSecret: WEBHOOK_SECRET,
+      log: { info: () => {}, warn: () => {}, error: () => {} }
+    });
+    simulatorServer = await new Promise((resolve) => {
+      const listening = simulator.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    simulator.url = `http://127.0.0.1:${simulatorServer.address().port}`;
+
+    server = await startServer({
+      NODE_ENV: 'test',
+      PORT: String(serverPort),
+      STORE_PATH: ':memory:',
+      PAYHERO_BASE_URL: simulator.url,
+      PAYHERO_AUTH_TOKEN: 'simulator',
+      PAYHERO_CHANNEL_ID: '1',
+      PAYHERO_CALLBACK_URL: `${baseUrl}/api/payment-callback`,
+      PAYHERO_WEBHOOK_SECRET: WEBHOOK_SECRET,
+      BUYER_TOKEN_SECRET: 'test',
+      TICKET_SIGNING_SECRET: 'test',
+      ADMIN_SESSION_SECRET: 'test',
+      WALLET_SESSION_SECRET: 'test'
+    });
+  });
+
+  after(async () => {
+    if (server) {
+      server.child.kill();
+    }
+    if (simulatorServer) {
+      simulator.locals.stop();
+      await new Promise((resolve) => simulatorServer.close(resolve));
+    }
+  });
+
+  it('issues tickets once the buyer pays', async () => {
+    const { order, orderToken, transactionId } = await startPayment(PHONES.success);
+    assert.equal((await getStatus(transactionId)).state, 'pending');
+
+    const status = await waitForOutcome(transactionId);
+    assert.equal(status.state, 'success');
+    assert.ok(status.provider_reference, 'M-PESA receipt code');
+    assert.equal((await waitForCallback(transactionId)).callbackStatus, 200);
+
+    const issued = await api('POST', '/api/tickets', {
+      reference: transactionId,
+      hold_reference: order.reference,
+      order_token: orderToken,
+      holder_name: 'Name From Browser'
+    });
+    assert.equal(issued.status, 201, JSON.stringify(issued.data));
+    assert.equal(issued.data.tickets.length, 1);
+    const [ticket] = issued.data.tickets;
+    assert.equal(ticket.ticketType, TIER);
+    // Already issued by the callback, to the buyer named on the order
+    assert.equal(ticket.holderName, 'Test Buyer');
+    assert.equal(ticket.holderEmail, 'buyer@example.com');
+    assert.ok(ticket.accessToken);
+
+    // Issuing again returns the same ticket rather than a second one
+    const again = await api('POST', '/api/tickets', {
+      reference: transactionId,
+      hold_reference: order.reference,
+      order_token: orderToken,
+      holder_name: 'Test Buyer'
+    });
+    assert.equal(again.status, 201, JSON.stringify(again.data));
+    assert.deepEqual(again.data.tickets.map((t) => t.ticketId), [ticket.ticketId]);
+  });
+
+  it('fails a payment the buyer entered the wrong PIN for, and releases its tickets', async () => {
+    const before = await getTier();
+    const { order, orderToken, transactionId } = await startPayment(PHONES.wrongPin);
+    assert.equal((await getTier()).held, before.held + 1);
+
+    const status = await waitForOutcome(transactionId);
+    assert.equal(status.state, 'failed');
+    assert.equal(status.message, 'The initiator information is invalid.');
+    assert.equal((await waitForCallback(transactionId)).callbackStatus, 200);
+    assert.equal((await getTier()).held, before.held);
+
+    const issued = await api('POST', '/api/tickets', {
+      reference: transactionId,
+      hold_reference: order.reference,
+      order_token: orderToken,
+      holder_name: 'Test Buyer'
+    });
+    assert.equal(issued.status, 402);
+    assert.equal(issued.data.error.code, 'PAYMENT_NOT_CONFIRMED');
+  });
+
+  it('fails a payment the buyer never answers once the prompt times out', async () => {
+    const { transactionId } = await startPayment(PHONES.timeout);
+
+    // Still waiting on the buyer after other pushes would have resolved
+    await sleep(DELAY_MS * 2);
+    assert.equal((await getStatus(transactionId)).state, 'pending');
+
+    const status = await waitForOutcome(transactionId);
+    assert.equal(status.state, 'failed');
+    assert.equal(status.message, 'DS timeout user cannot be reached');
+    assert.equal((await waitForCallback(transactionId)).callbackStatus, 200);
+  });
+
+  it('only gives a hold back to the buyer with its order token', async () => {
+    const before = await getTier();
+    const created = await api('POST', '/api/orders', {
+      match_id: MATCH_ID,
+      items: [{ ticket_type: TIER, quantity: 2 }],
+      phone_number: '254700000009',
+      customer_name: 'Test Buyer'
+    });
+    assert.equal(created.status, 201, JSON.stringify(created.data));
+    const { order, order_token: orderToken } = created.data;
+    assert.equal((await getTier()).held, before.held + 2);
+
+    const withoutToken = await api('DELETE', `/api/holds/${order.reference}`, {});
+    assert.equal(withoutToken.status, 403);
+    assert.equal(withoutToken.data.error.code, 'INVALID_ORDER_TOKEN');
+    assert.equal((await getTier()).held, before.held + 2);
+
+    const released = await api('DELETE', `/api/holds/${order.reference}`, { order_token: orderToken });
+    assert.equal(released.status, 200, JSON.stringify(released.data));
+    assert.equal((await getTier()).held, before.held);
+
+    // Holds only come with orders, which the caps apply to
+    const response = await fetch(`${baseUrl}/api/holds`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reference: 'CHANX', match_id: MATCH_ID, ticket_type: TIER, quantity: 200 })
+    });
+    assert.equal(response.status, 404);
+  });
+
+  it('counts card orders against the phone cap', async () => {
+    const cardCheckout = (body) => api('POST', '/api/payments/card/checkout', {
+      match_id: MATCH_ID,
+      items: [{ ticket_type: TIER, quantity: 6 }],
+      customer_name: 'Test Buyer',
+      customer_email: 'buyer@example.com',
+      ...body
+    });
+
+    const withoutPhone = await cardCheckout({});
+    assert.equal(withoutPhone.status, 400);
+    assert.equal(withoutPhone.data.error.code, 'INVALID_REQUEST');
+
+    const first = await cardCheckout({ phone_number: '0700000010' });
+    assert.equal(first.status, 201, JSON.stringify(first.data));
+
+    // 12 tickets for the number, over MAX_TICKETS_PER_PHONE, however it is written
+    const second = await cardCheckout({ phone_number: '+254700000010' });
+    assert.equal(second.status, 409);
+    assert.equal(second.data.error.code, 'PHONE_LIMIT_EXCEEDED');
+  });
+});
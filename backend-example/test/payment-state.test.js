@@ -0,0 +1,53 @@
+// The payment state machine, and the backend recording the statuses PayHero reports
+
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const { canTransition, transitionPayment } = require('../lib/payment-state.mjs');
+const { recordPaymentStatus } = require('../lib/payments');
+const { createStore, setStore } = require('../lib/store');
+
+const logger = { warn: () => {} };
+
+describe('payment state machine', () => {
+  it('only goes back to idle when the client resets', () => {
+    for (const from of ['initiating', 'pending', 'success', 'failed', 'cancelled']) {
+      assert.equal(canTransition(from, 'idle'), false, from);
+      assert.equal(canTransition(from, 'idle', { reset: true }), true, from);
+    }
+    assert.deepEqual(transitionPayment('success', 'idle', { logger }), { state: 'success', changed: false, legal: false });
+  });
+
+  it('never takes idle or initiating from a reported status', () => {
+    assert.equal(canTransition(null, 'initiating', { reported: true }), false);
+    assert.equal(canTransition('idle', 'initiating', { reported: true }), false);
+    assert.equal(canTransition('idle', 'initiating'), true);
+    assert.equal(canTransition('pending', 'success', { reported: true }), true);
+  });
+});
+
+describe('recordPaymentStatus', () => {
+  let store;
+
+  beforeEach(() => {
+    mock.method(console, 'warn', () => {});
+    store = createStore({ filename: ':memory:' });
+    setStore(store);
+    store.savePayment({ reference: 'CHAN1', transaction_id: 'PH-1', amount: 200, currency: 'KES', status: 'pending' });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    store.close();
+  });
+
+  it('ignores a callback or status check reporting a client state', () => {
+    for (const status of ['idle', 'initiating']) {
+      for (const source of ['webhook', 'status-check']) {
+        const transition = recordPaymentStatus('CHAN1', status, source, { status });
+        assert.deepEqual(transition, { state: 'pending', changed: false, legal: false });
+      }
+    }
+    assert.equal(store.getPayment('CHAN1').status, 'pending');
+    assert.equal(console.warn.mock.callCount(), 4);
+  });
+});
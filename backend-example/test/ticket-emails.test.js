@@ -0,0 +1,165 @@
+// The ticket email queue: sending, retrying with backoff and giving up
+
+process.env.EMAIL_MAX_ATTEMPTS = '3';
+process.env.EMAIL_RETRY_SECONDS = '60';
+
+const { describe, it, beforeEach, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const { createMailTransport, setMailTransport } = require('../lib/mailer');
+const { createStore, setStore } = require('../lib/store');
+const { queueTicketEmail, sendQueuedTicketEmails, TicketEmailError } = require('../lib/ticket-emails');
+
+const RETRY_MS = 60 * 1000;
+const START = Date.parse('2026-01-10T12:00:00.000Z');
+
+const makeTicket = (ticketId, reference) => ({
+  ticketId,
+  reference,
+  matchId: '1',
+  matchDate: '2026-01-17',
+  matchTime: '15:00',
+  teamA: 'Kenya',
+  teamB: 'Morocco',
+  venue: 'Kasarani Stadium',
+  ticketType: 'Regular',
+  quantity: 1,
+  totalAmount: 'KES 200',
+  holderEmail: 'buyer@example.com',
+  holderName: 'Test Buyer',
+  gate: 'Gate A',
+  section: 'A',
+  row: '1',
+  seat: '1',
+  gateOpenTime: '12:00',
+  qrToken: `qr-${ticketId}`,
+  issuedAt: new Date(START).toISOString()
+});
+
+// Fails its first `failures` sends, then delivers to the stub outbox
+const createFlakyTransport = (failures) => {
+  const stub = createMailTransport({ driver: 'stub' });
+  let attempts = 0;
+  return {
+    name: 'flaky',
+    get attempts() {
+      return attempts;
+    },
+    send: async (email) => {
+      attempts += 1;
+      if (attempts <= failures) {
+        throw new Error('SMTP server unavailable');
+      }
+      return stub.send(email);
+    },
+    listMessages: stub.listMessages
+  };
+};
+
+describe('ticket emails', () => {
+  let store;
+
+  // Straight into the store, so nothing is sent until the test sends it
+  const queue = (recipient = 'buyer@example.com') => store.queueTicketEmail({ reference: 'PH-1', recipient });
+
+  const advance = (ms) => mock.timers.tick(ms);
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+    store = createStore({ filename: ':memory:' });
+    setStore(store);
+    store.saveTicket(makeTicket('T1', 'PH-1'));
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    store.close();
+  });
+
+  it('sends a queued email with the tickets attached', async () => {
+    const transport = createFlakyTransport(0);
+    setMailTransport(transport);
+    const { id } = queue();
+
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 1, retrying: 0, failed: 0 });
+
+    const [message] = transport.listMessages('buyer@example.com');
+    assert.match(message.subject, /Kenya vs Morocco/);
+    assert.deepEqual(message.attachments.map((attachment) => attachment.filename), ['CHAN2024_Ticket_T1.pdf']);
+    const email = store.getTicketEmail(id);
+    assert.equal(email.status, 'sent');
+    assert.equal(email.attempts, 1);
+    assert.equal(email.messageId, message.id);
+  });
+
+  it('retries a failed send, doubling the wait each time', async () => {
+    const transport = createFlakyTransport(2);
+    setMailTransport(transport);
+    const { id } = queue();
+
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 1, failed: 0 });
+    let email = store.getTicketEmail(id);
+    assert.equal(email.status, 'queued');
+    assert.equal(email.attempts, 1);
+    assert.equal(email.lastError, 'SMTP server unavailable');
+    assert.equal(email.nextAttemptAt, new Date(START + RETRY_MS).toISOString());
+
+    // Not retried before it is due
+    advance(RETRY_MS - 1);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 0, failed: 0 });
+    assert.equal(transport.attempts, 1);
+
+    advance(1);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 1, failed: 0 });
+    email = store.getTicketEmail(id);
+    assert.equal(email.attempts, 2);
+    assert.equal(email.nextAttemptAt, new Date(START + RETRY_MS + 2 * RETRY_MS).toISOString());
+
+    advance(2 * RETRY_MS);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 1, retrying: 0, failed: 0 });
+    email = store.getTicketEmail(id);
+    assert.equal(email.status, 'sent');
+    assert.equal(email.attempts, 3);
+    assert.equal(email.nextAttemptAt, null);
+    assert.equal(email.lastError, null);
+    assert.equal(transport.listMessages('buyer@example.com').length, 1);
+  });
+
+  it('gives up after EMAIL_MAX_ATTEMPTS failed sends', async () => {
+    const transport = createFlakyTransport(Infinity);
+    setMailTransport(transport);
+    const { id } = queue();
+
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 1, failed: 0 });
+    advance(RETRY_MS);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 1, failed: 0 });
+    advance(2 * RETRY_MS);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 0, failed: 1 });
+
+    const email = store.getTicketEmail(id);
+    assert.equal(email.status, 'failed');
+    assert.equal(email.attempts, 3);
+    assert.equal(email.nextAttemptAt, null);
+    assert.equal(email.lastError, 'SMTP server unavailable');
+
+    // Never tried again
+    advance(24 * 60 * RETRY_MS);
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 0, failed: 0 });
+    assert.equal(transport.attempts, 3);
+  });
+
+  it('retries an email whose tickets cannot be found', async () => {
+    setMailTransport(createFlakyTransport(0));
+    const { id } = store.queueTicketEmail({ reference: 'PH-UNKNOWN', recipient: 'buyer@example.com' });
+
+    assert.deepEqual(await sendQueuedTicketEmails(), { sent: 0, retrying: 1, failed: 0 });
+    assert.equal(store.getTicketEmail(id).lastError, 'No tickets for payment PH-UNKNOWN');
+  });
+
+  it('only queues emails to a valid address', () => {
+    assert.throws(
+      () => queueTicketEmail({ reference: 'PH-1', recipient: 'not an email' }),
+      (error) => error instanceof TicketEmailError && error.code === 'INVALID_EMAIL'
+    );
+    assert.deepEqual(store.listTicketEmails('PH-1'), []);
+  });
+});
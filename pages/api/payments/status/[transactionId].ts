@@ -1,9 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { PayHeroClient, PayHeroError } from '../../../../backend-example/lib/payhero-client';
 
-const PAYHERO_CONFIG = {
-  BASE_URL: 'https://backend.payhero.co.ke/api/v2',
-  AUTH_TOKEN: 'i4BD8JfaYcLYUGGn7DvS:gjrhiBmLT2b0Jo08y9XYso8ib3NFvDh4KRkchXC4==',
-};
+const payHero = PayHeroClient.fromEnv();
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -11,24 +9,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   const { transactionId } = req.query;
+  if (typeof transactionId !== 'string' || !transactionId) {
+    return res.status(400).json({ success: false, message: 'Transaction ID is required' });
+  }
 
   try {
-    const response = await fetch(`${PAYHERO_CONFIG.BASE_URL}/api/v2/payments/${transactionId}`, {
-      headers: {
-        'Authorization': `Basic ${Buffer.from(PAYHERO_CONFIG.AUTH_TOKEN).toString('base64')}`,
-        'Accept': 'application/json',
-      },
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.message || 'Failed to fetch payment status');
-    }
-
-    res.status(200).json(data);
+    res.status(200).json(await payHero.getTransactionStatus(transactionId));
   } catch (error) {
     console.error('PayHero API Error:', error);
-    res.status(500).json({ message: 'Failed to check payment status' });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check payment status',
+      error: {
+        code: error instanceof PayHeroError ? error.code : 'STATUS_CHECK_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
   }
 }
@@ -4,10 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
+import PaymentResume from "./components/PaymentResume";
 import Index from "./pages/Index";
 import TicketSelection from "./pages/TicketSelection";
 import Checkout from "./pages/Checkout";
 import TicketConfirmation from "./pages/TicketConfirmation";
+import Scan from "./pages/Scan";
+import Admin from "./pages/Admin";
+import Recover from "./pages/Recover";
+import PaymentReturn from "./pages/PaymentReturn";
+import MyTickets from "./pages/MyTickets";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,11 +25,17 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
+          <PaymentResume />
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/tickets/:matchId" element={<TicketSelection />} />
             <Route path="/checkout" element={<Checkout />} />
             <Route path="/ticket" element={<TicketConfirmation />} />
+            <Route path="/scan" element={<Scan />} />
+            <Route path="/admin" element={<Admin />} />
+            <Route path="/recover" element={<Recover />} />
+            <Route path="/payment/return" element={<PaymentReturn />} />
+            <Route path="/my-tickets" element={<MyTickets />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ticketService } from "@/lib/ticket-service";
+import type { TicketRecord } from "@/lib/ticket-types";
+
+interface AttendeeFormProps {
+  ticket: TicketRecord;
+  onSaved: (ticket: TicketRecord) => void;
+  onCancel: () => void;
+}
+
+// Names the person a ticket admits, with an optional ID number or phone for the gate
+const AttendeeForm = ({ ticket, onSaved, onCancel }: AttendeeFormProps) => {
+  const [name, setName] = useState(ticket.attendeeName || "");
+  const [idNumber, setIdNumber] = useState(ticket.attendeeIdNumber || "");
+  const [phone, setPhone] = useState(ticket.attendeePhone || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the attendee's full name",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await ticketService.updateAttendee(ticket.ticketId, {
+        accessToken: ticket.accessToken as string,
+        name,
+        idNumber,
+        phone
+      });
+      onSaved(updated);
+      toast({
+        title: "Attendee Saved",
+        description: `Ticket #${ticket.ticketId} now admits ${updated.attendeeName}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Attendee Not Saved",
+        description: error instanceof Error ? error.message : "Could not update the attendee",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="attendee-name" className="text-sm">Attendee Name *</Label>
+        <Input
+          id="attendee-name"
+          placeholder="Full name as on ID"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="attendee-id" className="text-sm">ID Number</Label>
+          <Input
+            id="attendee-id"
+            placeholder="Optional"
+            value={idNumber}
+            onChange={(e) => setIdNumber(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="attendee-phone" className="text-sm">Phone</Label>
+          <Input
+            id="attendee-phone"
+            placeholder="Optional"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <Button variant="outline" className="flex-1" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button className="flex-1 bg-orange-500 hover:bg-orange-600" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Attendee
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AttendeeForm;
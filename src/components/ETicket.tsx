@@ -1,38 +1,42 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Download, Mail } from "lucide-react";
+import { ChevronLeft, ChevronRight, Download, Mail, UserPen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
 import { QRCodeSVG } from "qrcode.react";
 import chanLogo from "@/assets/chan.png";
+import type { TicketRecord } from "@/lib/ticket-types";
+import { ticketService } from "@/lib/ticket-service";
+import AttendeeForm from "./AttendeeForm";
 
 interface ETicketProps {
   isOpen: boolean;
   onClose: () => void;
-  ticketData: {
-    ticketId: string;
-    matchDate: string;
-    matchTime: string;
-    teamA: string;
-    teamB: string;
-    venue: string;
-    ticketType: string;
-    quantity: number;
-    totalAmount: string;
-    holderEmail: string;
-    holderName: string;
-    gate: string;
-    section: string;
-    row: string;
-    gateOpenTime: string;
+  ticketData: TicketRecord;
+  // Paging through the tickets of an order with more than one
+  navigation?: {
+    index: number;
+    total: number;
+    onPrevious: () => void;
+    onNext: () => void;
   };
+  // Called with the updated ticket after its attendee is changed
+  onTicketChange?: (ticket: TicketRecord) => void;
 }
 
-const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
+const ETicket = ({ isOpen, onClose, ticketData, navigation, onTicketChange }: ETicketProps) => {
   const [isSending, setIsSending] = useState(false);
+  const [isEditingAttendee, setIsEditingAttendee] = useState(false);
   const { toast } = useToast();
+  const attendeeName = ticketData.attendeeName || ticketData.holderName;
+  const canEditAttendee = !!onTicketChange && !!ticketData.accessToken && !!ticketData.attendeeEditableUntil
+    && new Date(ticketData.attendeeEditableUntil) > new Date();
+
+  useEffect(() => {
+    setIsEditingAttendee(false);
+  }, [ticketData.ticketId]);
 
   const handleDownload = async () => {
     try {
@@ -128,15 +132,19 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
       pdf.text("ATTENDEE", margin, startY + 25);
       pdf.setTextColor(0);
       pdf.setFontSize(12);
-      pdf.text(ticketData.holderName, margin, startY + 31);
+      pdf.text(attendeeName, margin, startY + 31);
+      if (ticketData.attendeeIdNumber) {
+        pdf.setFontSize(8);
+        pdf.text(`ID ${ticketData.attendeeIdNumber}`, margin, startY + 36);
+      }
 
       // Add seat details with proper spacing
       const seatY = startY + 45;
       pdf.setFontSize(8);
       pdf.setTextColor(100);
-      pdf.text("SEAT", margin, seatY);
+      pdf.text("GATE", margin, seatY);
       pdf.text("SECTION", margin + colWidth, seatY);
-      pdf.text("ROW", margin + (colWidth * 2), seatY);
+      pdf.text("ROW / SEAT", margin + (colWidth * 2), seatY);
 
       pdf.setTextColor(0);
       pdf.setFontSize(10);
@@ -145,12 +153,12 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
       pdf.setTextColor(0, 0, 255); // Blue color for section
       pdf.text(section, margin + colWidth, seatY + 6);
       pdf.setTextColor(0);
-      pdf.text(ticketData.row, margin + (colWidth * 2), seatY + 6);
+      pdf.text(`${ticketData.row} / ${ticketData.seat}`, margin + (colWidth * 2), seatY + 6);
 
       // Generate QR code
       const qr = document.createElement('canvas');
       const QRCode = await import('qrcode');
-      await QRCode.toCanvas(qr, `https://mookh.ticket/v/${ticketData.ticketId}`, {
+      await QRCode.toCanvas(qr, ticketData.qrToken, {
         width: 200,
         margin: 1
       });
@@ -183,16 +191,22 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
 
   const handleSendEmail = async () => {
     setIsSending(true);
-    
-    // Simulate email sending
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsSending(false);
-    
-    toast({
-      title: "Ticket Sent",
-      description: `E-ticket has been sent to ${ticketData.holderEmail}`,
-    });
+    try {
+      // Queued by the backend, which sends it with the ticket PDF attached
+      const email = await ticketService.emailTicket(ticketData.ticketId, { accessToken: ticketData.accessToken as string });
+      toast({
+        title: "Ticket Sent",
+        description: `E-ticket is on its way to ${email.recipient}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Email Failed",
+        description: error instanceof Error ? error.message : "Failed to send the ticket. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
   };
 
   return (
@@ -244,13 +258,26 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
             </div>
             
             <div className="border-t border-gray-200 pt-4">
-              <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Attendee</p>
-              <p className="text-base text-gray-900">{ticketData.holderName}</p>
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Attendee</p>
+                  <p className="text-base text-gray-900">{attendeeName}</p>
+                  {ticketData.attendeeIdNumber && (
+                    <p className="text-xs text-gray-600">ID {ticketData.attendeeIdNumber}</p>
+                  )}
+                </div>
+                {canEditAttendee && !isEditingAttendee && (
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditingAttendee(true)}>
+                    <UserPen className="w-4 h-4 mr-1" />
+                    {ticketData.attendeeName ? "Change" : "Name attendee"}
+                  </Button>
+                )}
+              </div>
             </div>
             
             <div className="flex justify-between items-start border-t border-gray-200 pt-4">
               <div>
-                <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Seat</p>
+                <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Gate</p>
                 <p className="text-sm text-gray-900">{ticketData.gate}</p>
               </div>
               <div>
@@ -258,8 +285,8 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
                 <p className="text-sm text-gray-900">{ticketData.section}</p>
               </div>
               <div>
-                <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Row</p>
-                <p className="text-sm text-gray-900">{ticketData.row}</p>
+                <p className="text-[0.7rem] uppercase text-gray-600 mb-1">Row / Seat</p>
+                <p className="text-sm text-gray-900">{ticketData.row} / {ticketData.seat}</p>
               </div>
             </div>
 
@@ -267,7 +294,7 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
             <div className="border-t border-gray-200 pt-4">
               <div className="flex flex-col items-center justify-center py-4">
                 <QRCodeSVG
-                  value={`https://mookh.ticket/v/${ticketData.ticketId}`}
+                  value={ticketData.qrToken}
                   size={120}
                   level="H"
                   includeMargin={true}
@@ -286,24 +313,60 @@ const ETicket = ({ isOpen, onClose, ticketData }: ETicketProps) => {
         </div>
 
         <div className="p-4 bg-white">
-          <div className="flex gap-3">
-            <Button 
-              onClick={handleDownload}
-              variant="outline"
-              className="flex-1"
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Download
-            </Button>
-            <Button 
-              onClick={handleSendEmail}
-              disabled={isSending}
-              className="flex-1 bg-orange-500 hover:bg-orange-600"
-            >
-              <Mail className="w-4 h-4 mr-2" />
-              {isSending ? "Sending..." : "Send to Email"}
-            </Button>
-          </div>
+          {navigation && (
+            <div className="flex items-center justify-between mb-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Previous ticket"
+                onClick={navigation.onPrevious}
+                disabled={navigation.index === 0}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-gray-600">
+                Ticket {navigation.index + 1} of {navigation.total}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Next ticket"
+                onClick={navigation.onNext}
+                disabled={navigation.index === navigation.total - 1}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+          {isEditingAttendee ? (
+            <AttendeeForm
+              ticket={ticketData}
+              onSaved={(ticket) => {
+                setIsEditingAttendee(false);
+                onTicketChange?.(ticket);
+              }}
+              onCancel={() => setIsEditingAttendee(false)}
+            />
+          ) : (
+            <div className="flex gap-3">
+              <Button 
+                onClick={handleDownload}
+                variant="outline"
+                className="flex-1"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button 
+                onClick={handleSendEmail}
+                disabled={isSending || !ticketData.accessToken || !ticketData.holderEmail}
+                className="flex-1 bg-orange-500 hover:bg-orange-600"
+              >
+                <Mail className="w-4 h-4 mr-2" />
+                {isSending ? "Sending..." : "Send to Email"}
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,346 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ProgressOverlay } from "@/components/ui/progress-overlay";
+import { CreditCard, Loader2, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { PAYMENT_PROVIDERS, type PaymentProvider } from "@/lib/payhero-config";
+import { MOBILE_WALLETS } from "@/lib/mobile-wallets";
+import type { PricedOrderItem } from "@/lib/ticket-types";
+import { FALLBACK_FLAG, getTeamFlag } from "@/lib/team-flags";
+import { useMatch } from "@/hooks/use-matches";
+import type { TicketCheckout } from "@/hooks/use-ticket-checkout";
+
+interface PaymentFormProps {
+  matchId: string;
+  items: PricedOrderItem[];
+  // The checkout the form fills in and pays for, from useTicketCheckout
+  checkout: TicketCheckout;
+}
+
+// The match, the order summary, the buyer's details and the payment methods, as shown
+// by the payment modal and the /checkout page. The progress overlay covers the nearest
+// positioned ancestor while a payment is under way.
+const PaymentForm = ({ matchId, items, checkout }: PaymentFormProps) => {
+  const { data: match } = useMatch(matchId);
+  const {
+    fullName,
+    setFullName,
+    email,
+    setEmail,
+    provider,
+    setProvider,
+    walletNumber,
+    setWalletNumber,
+    wallet,
+    ticketCount,
+    amount,
+    isProcessing,
+    paymentStatus,
+    isAwaitingPayment,
+    paymentError,
+    progressMessage,
+    progressValue,
+    transactionId,
+    tickets,
+    setShowETicket,
+    payWithWallet,
+    payByCard,
+    openRecovery
+  } = checkout;
+
+  return (
+    <>
+      {(isAwaitingPayment || paymentStatus === 'initiating') && progressMessage && (
+        <div className="absolute inset-0 z-50">
+          <ProgressOverlay
+            loading={true}
+            message={progressMessage.main}
+            subMessage={progressMessage.sub}
+            progress={progressValue}
+            status={paymentStatus === 'success' ? 'success' : paymentStatus === 'failed' ? 'error' : 'pending'}
+          />
+        </div>
+      )}
+      
+      {/* Match Summary Card */}
+      {match && (
+        <div className="bg-orange-500 text-white p-4 rounded-lg mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <div className="flex items-center gap-1">
+              <div className="w-6 h-4 rounded overflow-hidden border border-white/20">
+                <img 
+                  src={getTeamFlag(match.teamA, match.teamAFlagUrl)} 
+                  alt={`${match.teamA} Flag`}
+                  className="w-full h-full object-cover"
+                  onError={(e) => {
+                    console.error('Error loading flag:', e.currentTarget.src);
+                    e.currentTarget.src = FALLBACK_FLAG;
+                  }}
+                />
+              </div>
+              <span className="text-sm">{match.teamA}</span>
+            </div>
+            <span className="text-sm font-bold">{match.time}</span>
+            <div className="flex items-center gap-1">
+              <span className="text-sm">{match.teamB}</span>
+              <div className="w-6 h-4 rounded overflow-hidden border border-white/20">
+                <img 
+                  src={getTeamFlag(match.teamB, match.teamBFlagUrl)} 
+                  alt={`${match.teamB} Flag`}
+                  className="w-full h-full object-cover"
+                  onError={(e) => {
+                    console.error('Error loading flag:', e.currentTarget.src);
+                    e.currentTarget.src = FALLBACK_FLAG;
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+          <h3 className="font-bold text-center mb-1">
+            {match.teamA} VS {match.teamB}
+          </h3>
+          <p className="text-center text-sm opacity-90">{match.date}</p>
+          <p className="text-center text-sm opacity-90">{match.venue}</p>
+        </div>
+      )}
+
+      {/* Your Seats */}
+      <div className="mb-4">
+        <h4 className="font-semibold mb-2">Your Seats</h4>
+        <div className="bg-muted p-3 rounded-lg">
+          <span className="text-sm font-medium">
+            {ticketCount === 1
+              ? "Your seat is allocated once payment is confirmed"
+              : `Your ${ticketCount} seats are allocated once payment is confirmed, with one ticket per person`}
+          </span>
+        </div>
+      </div>
+
+      {/* Order Summary */}
+      <div className="mb-4">
+        <h4 className="font-semibold mb-2">Order Summary</h4>
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div key={item.ticketType} className="flex justify-between">
+              <span className="text-sm">{item.quantity} × {item.ticketType}</span>
+              <span className="text-sm font-medium">KES {item.quantity * item.unitPrice}</span>
+            </div>
+          ))}
+          <div className="border-t pt-2">
+            <div className="flex justify-between">
+              <span className="text-sm">Subtotal</span>
+              <span className="text-sm">{amount}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>Total</span>
+              <span>{amount}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Bio Details */}
+      <div className="mb-4">
+        <h4 className="font-semibold mb-2">Bio Details</h4>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="fullName" className="text-sm">Full Name *</Label>
+            <Input
+              id="fullName"
+              type="text"
+              placeholder="Enter full name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="email" className="text-sm">Email Address *</Label>
+            <Input
+              id="email"
+              type="email"
+              placeholder="Enter email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Payment Method */}
+      <div className="mb-4">
+        <h4 className="font-semibold mb-2">Payment method</h4>
+        <Tabs defaultValue="mobile" className="w-full">
+          <TabsList className="grid w-full grid-cols-2 h-12">
+            <TabsTrigger value="mobile" className="h-10 bg-orange-500 text-white data-[state=active]:bg-orange-600">
+              Mobile Money
+            </TabsTrigger>
+            <TabsTrigger value="card" className="h-10 bg-gray-200 text-gray-700 data-[state=active]:bg-gray-300">
+              Card
+            </TabsTrigger>
+          </TabsList>
+          
+          <TabsContent value="mobile" className="space-y-4 mt-4">
+            <RadioGroup
+              value={provider}
+              onValueChange={(value) => setProvider(value as PaymentProvider)}
+              disabled={isProcessing}
+              className="grid-cols-3"
+            >
+              {Object.values(PAYMENT_PROVIDERS).map((value) => (
+                <Label
+                  key={value}
+                  htmlFor={`wallet-${value}`}
+                  className="flex items-center gap-2 rounded-md border p-3 text-sm cursor-pointer"
+                >
+                  <RadioGroupItem id={`wallet-${value}`} value={value} />
+                  {MOBILE_WALLETS[value].name}
+                </Label>
+              ))}
+            </RadioGroup>
+            <div>
+              <Label htmlFor="wallet-number" className="text-sm">{wallet.name} Number *</Label>
+              <Input
+                id="wallet-number"
+                type="tel"
+                placeholder={wallet.example}
+                value={walletNumber}
+                onChange={(e) => setWalletNumber(e.target.value)}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                The payment prompt appears on this {wallet.network} number
+              </p>
+            </div>
+            <div className="space-y-4">
+            <Button 
+              onClick={payWithWallet}
+              disabled={isProcessing || paymentStatus === 'success'}
+              className="w-full bg-orange-500 hover:bg-orange-600 h-12"
+            >
+              {paymentStatus === 'initiating' ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Initiating Payment...
+                </>
+              ) : isProcessing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Sending STK Push...
+                </>
+              ) : paymentStatus === 'success' ? (
+                <>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Payment Successful!
+                </>
+              ) : paymentStatus === 'failed' ? (
+                <>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Try Again
+                </>
+              ) : (
+                `Pay ${amount} via ${wallet.name}`
+              )}
+            </Button>
+              
+              {paymentStatus === 'success' && (
+                <div className="text-center space-y-2">
+                  <div className="flex items-center justify-center gap-2 text-green-600">
+                    <CheckCircle className="w-5 h-5" />
+                    <p className="text-sm font-medium">Payment received successfully!</p>
+                  </div>
+                  <Button
+                    onClick={() => setShowETicket(true)}
+                    className="w-full bg-green-600 hover:bg-green-700"
+                  >
+                    {tickets.length > 1 ? `View ${tickets.length} E-Tickets` : "View E-Ticket"}
+                  </Button>
+                </div>
+              )}
+
+              {paymentStatus === 'failed' && paymentError && (
+                <div className="text-center space-y-2">
+                  <div className="flex items-center justify-center gap-2 text-red-600">
+                    <XCircle className="w-5 h-5" />
+                    <p className="text-sm font-medium">Verification Failed</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{paymentError}</p>
+                  {/* The recovery page checks the payment with PayHero again */}
+                  <div className="mt-4 p-4 bg-orange-50 rounded-lg">
+                    <p className="text-sm text-orange-700 mb-2">
+                      If you received a {wallet.name} confirmation message but don't see your ticket:
+                    </p>
+                    <Button
+                      onClick={openRecovery}
+                      className="w-full bg-orange-500 hover:bg-orange-600"
+                    >
+                      Recover My Tickets
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {transactionId && isAwaitingPayment && (
+                <div className="text-center space-y-2">
+                  <div className="flex items-center justify-center gap-2 text-orange-600">
+                    <AlertCircle className="w-5 h-5" />
+                    <p className="text-sm font-medium text-center">
+                      Please check your phone and enter your {wallet.name} PIN
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-center gap-2 mt-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span className="text-sm text-muted-foreground">Waiting for payment confirmation...</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="card" className="space-y-4 mt-4">
+            <div className="flex items-start gap-3 bg-muted p-3 rounded-lg">
+              <CreditCard className="w-5 h-5 mt-0.5 shrink-0" />
+              <p className="text-sm text-muted-foreground">
+                You'll enter your card details on PayHero's secure checkout page, then come
+                back here for your {ticketCount === 1 ? "e-ticket" : "e-tickets"}.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="card-phone-number" className="text-sm">Phone Number *</Label>
+              <Input
+                id="card-phone-number"
+                type="tel"
+                placeholder="0712345678"
+                value={walletNumber}
+                onChange={(e) => setWalletNumber(e.target.value)}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Your tickets are linked to this number, which signs you in to your ticket wallet
+              </p>
+            </div>
+            <Button 
+              onClick={payByCard}
+              disabled={isProcessing}
+              className="w-full bg-orange-500 hover:bg-orange-600 h-12"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Opening Checkout...
+                </>
+              ) : (
+                `Pay ${amount} by Card`
+              )}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </>
+  );
+};
+
+export default PaymentForm;
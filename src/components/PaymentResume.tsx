@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { usePaymentStatus } from "@/hooks/use-payment-status";
+import { loadPendingPayment } from "@/lib/pending-payment";
+import { DEFAULT_WALLET, MOBILE_WALLETS } from "@/lib/mobile-wallets";
+import { ticketService } from "@/lib/ticket-service";
+import type { TicketRecord } from "@/lib/ticket-types";
+import ETicket from "./ETicket";
+
+// Picks up a payment the buyer was still waiting on when the page was reloaded, and
+// delivers its tickets once it succeeds
+const PaymentResume = () => {
+  const [pendingPayment] = useState(loadPendingPayment);
+  const [tickets, setTickets] = useState<TicketRecord[]>([]);
+  const [ticketIndex, setTicketIndex] = useState(0);
+  const [showETicket, setShowETicket] = useState(false);
+  const issuingRef = useRef(false);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const walletName = MOBILE_WALLETS[pendingPayment?.provider ?? DEFAULT_WALLET].name;
+
+  const issueTickets = async () => {
+    if (!pendingPayment || issuingRef.current) {
+      return;
+    }
+    issuingRef.current = true;
+
+    try {
+      const issued = await ticketService.issueTickets({
+        reference: pendingPayment.reference,
+        holdReference: pendingPayment.orderReference,
+        orderToken: pendingPayment.orderToken,
+        holderName: pendingPayment.holderName,
+        holderEmail: pendingPayment.holderEmail
+      });
+      setTickets(issued);
+      setTicketIndex(0);
+      setShowETicket(true);
+      payment.complete();
+      toast({
+        title: "Payment Successful!",
+        description: `Your earlier payment went through. Here ${issued.length === 1 ? "is your e-ticket" : "are your e-tickets"}.`,
+      });
+    } catch (error) {
+      console.error('Ticket issuance error:', error);
+      // Still resumable, so the next visit tries again
+      toast({
+        title: "Ticket Not Issued Yet",
+        description: `We could not issue your ticket right now. Keep your payment reference (${pendingPayment.reference}) and try again shortly.`,
+        variant: "destructive",
+        duration: 10000
+      });
+    }
+  };
+
+  const payment = usePaymentStatus(pendingPayment?.reference ?? null, {
+    onStateChange: (state) => {
+      if (state === 'success') {
+        issueTickets();
+      } else if (state === 'failed' || state === 'cancelled') {
+        toast({
+          title: "Payment Not Completed",
+          description: `Your earlier ${walletName} payment did not go through, so no tickets were issued.`,
+          variant: "destructive"
+        });
+      }
+    },
+    onTimeout: () => toast({
+      title: "Payment Status",
+      description: `If you've completed the payment but don't see your ticket, you can recover it with the receipt code from your ${walletName} message.`,
+      duration: 10000,
+      action: (
+        <ToastAction
+          altText="Recover tickets"
+          onClick={() => navigate(`/recover?code=${encodeURIComponent(pendingPayment?.reference || "")}`)}
+        >
+          Recover
+        </ToastAction>
+      )
+    })
+  });
+
+  useEffect(() => {
+    if (pendingPayment) {
+      toast({
+        title: "Checking Your Payment",
+        description: `We're confirming the ${walletName} payment you started earlier.`,
+      });
+    }
+  }, [pendingPayment, walletName, toast]);
+
+  if (tickets.length === 0) {
+    return null;
+  }
+
+  return (
+    <ETicket
+      isOpen={showETicket}
+      onClose={() => setShowETicket(false)}
+      ticketData={tickets[ticketIndex]}
+      navigation={tickets.length > 1 ? {
+        index: ticketIndex,
+        total: tickets.length,
+        onPrevious: () => setTicketIndex((index) => Math.max(index - 1, 0)),
+        onNext: () => setTicketIndex((index) => Math.min(index + 1, tickets.length - 1))
+      } : undefined}
+      onTicketChange={(updated) => setTickets((prev) => prev.map((ticket) => (
+        ticket.ticketId === updated.ticketId ? updated : ticket
+      )))}
+    />
+  );
+};
+
+export default PaymentResume;
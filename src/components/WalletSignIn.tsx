@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { walletService } from "@/lib/wallet-service";
+
+const CODE_LENGTH = 6;
+
+interface WalletSignInProps {
+  onSignIn: () => void;
+  defaultPhoneNumber?: string;
+  // What signing in lets the buyer do, shown above the phone number
+  description?: string;
+  submitLabel?: string;
+}
+
+// Two steps: the phone number the tickets were bought with, then the code texted to it
+const WalletSignIn = ({
+  onSignIn,
+  defaultPhoneNumber = "",
+  description = "Enter the phone number you paid with. We'll text you a code to see every ticket bought with it.",
+  submitLabel = "Show My Tickets"
+}: WalletSignInProps) => {
+  const [phoneNumber, setPhoneNumber] = useState(defaultPhoneNumber);
+  // The number the code was sent to, as the backend formatted it
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const requestCode = async () => {
+    setIsSubmitting(true);
+    try {
+      const sent = await walletService.requestCode(phoneNumber);
+      setCodeSentTo(sent.phoneNumber);
+      setCode("");
+    } catch (error) {
+      toast({
+        title: "Code Not Sent",
+        description: error instanceof Error ? error.message : "Could not send the code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    if (!codeSentTo) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await walletService.verifyCode(codeSentTo, value);
+      onSignIn();
+    } catch (error) {
+      setCode("");
+      toast({
+        title: "Sign In Failed",
+        description: error instanceof Error ? error.message : "Could not check the code",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!codeSentTo) {
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <p className="text-sm text-muted-foreground">{description}</p>
+          <div>
+            <Label htmlFor="wallet-phone" className="text-sm">Phone Number</Label>
+            <Input
+              id="wallet-phone"
+              type="tel"
+              placeholder="07xx xxx xxx"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <Button
+            className="w-full bg-orange-500 hover:bg-orange-600"
+            onClick={requestCode}
+            disabled={!phoneNumber.trim() || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send Code
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the {CODE_LENGTH}-digit code we texted to +{codeSentTo}.
+        </p>
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={verifyCode}
+            disabled={isSubmitting}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <Button
+          className="w-full bg-orange-500 hover:bg-orange-600"
+          onClick={() => verifyCode(code)}
+          disabled={code.length < CODE_LENGTH || isSubmitting}
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setCodeSentTo(null)} disabled={isSubmitting}>
+            Change number
+          </Button>
+          <Button variant="ghost" size="sm" onClick={requestCode} disabled={isSubmitting}>
+            Send a new code
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WalletSignIn;
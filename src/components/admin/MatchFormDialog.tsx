@@ -0,0 +1,236 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format, isValid, parse } from "date-fns";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { AdminMatch, MatchInput } from "@/lib/admin-types";
+
+// Match dates are stored the way tickets print them
+const MATCH_DATE_FORMAT = "d MMM yyyy";
+
+const teamCode = z.string().trim().toUpperCase().regex(/^[A-Z]{2,4}$/, "Use a 2-4 letter team code, e.g. KEN");
+const flagUrl = z.string().trim().url("Enter a full image URL").or(z.literal(""));
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour time, e.g. 18:00");
+
+const matchSchema = z.object({
+  teamA: teamCode,
+  teamB: teamCode,
+  teamAFlagUrl: flagUrl,
+  teamBFlagUrl: flagUrl,
+  venue: z.string().trim().min(1, "Venue is required"),
+  date: z.date({ required_error: "Pick the match date" }),
+  time,
+  gateOpenTime: time
+});
+
+type MatchFormValues = z.infer<typeof matchSchema>;
+
+interface MatchFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Match being edited; a new match is created when omitted
+  match?: AdminMatch | null;
+  onSubmit: (input: MatchInput) => Promise<void>;
+}
+
+const toFormValues = (match?: AdminMatch | null): MatchFormValues => {
+  const date = match ? parse(match.date, MATCH_DATE_FORMAT, new Date()) : undefined;
+  return {
+    teamA: match?.teamA || "",
+    teamB: match?.teamB || "",
+    teamAFlagUrl: match?.teamAFlagUrl || "",
+    teamBFlagUrl: match?.teamBFlagUrl || "",
+    venue: match?.venue || "",
+    date: date && isValid(date) ? date : undefined,
+    time: match?.time || "",
+    gateOpenTime: match?.gateOpenTime || ""
+  };
+};
+
+const MatchFormDialog = ({ open, onOpenChange, match, onSubmit }: MatchFormDialogProps) => {
+  const form = useForm<MatchFormValues>({
+    resolver: zodResolver(matchSchema),
+    defaultValues: toFormValues(match)
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(match));
+    }
+  }, [open, match, form]);
+
+  const handleSubmit = async (values: MatchFormValues) => {
+    await onSubmit({
+      teamA: values.teamA,
+      teamB: values.teamB,
+      teamAFlagUrl: values.teamAFlagUrl || null,
+      teamBFlagUrl: values.teamBFlagUrl || null,
+      venue: values.venue,
+      date: format(values.date, MATCH_DATE_FORMAT),
+      time: values.time,
+      gateOpenTime: values.gateOpenTime
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{match ? "Edit match" : "New match"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="teamA"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Home team</FormLabel>
+                    <FormControl>
+                      <Input placeholder="KEN" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="teamB"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Away team</FormLabel>
+                    <FormControl>
+                      <Input placeholder="MAR" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="teamAFlagUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Home flag URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="teamBFlagUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Away flag URL</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave flag URLs empty to use the bundled flag for the team code.
+            </p>
+
+            <FormField
+              control={form.control}
+              name="venue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venue</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Moi Sports Centre Kasarani" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Match date</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn("justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                        >
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {field.value ? format(field.value, MATCH_DATE_FORMAT) : "Pick a date"}
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Kickoff</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="gateOpenTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gates open</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormDescription>Printed on every ticket</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {match ? "Save changes" : "Create match"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MatchFormDialog;
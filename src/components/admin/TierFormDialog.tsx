@@ -0,0 +1,259 @@
+import { useEffect } from "react";
+import { useForm, type Control, type FieldPath } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { CalendarIcon, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { AdminTicketTier, TierInput } from "@/lib/admin-types";
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour time, e.g. 09:00");
+
+const tierSchema = z.object({
+  type: z.string().trim().min(1, "Tier name is required").max(40),
+  price: z.coerce.number().int("Whole shillings only").min(1, "Price must be above zero"),
+  capacity: z.coerce.number().int("Whole tickets only").min(1, "Capacity must be above zero"),
+  description: z.string().trim().max(200),
+  gate: z.string().trim(),
+  saleStartsOn: z.date().optional(),
+  saleStartsTime: time,
+  saleEndsOn: z.date().optional(),
+  saleEndsTime: time
+}).refine(
+  (values) => !values.saleStartsOn || !values.saleEndsOn
+    || withTime(values.saleStartsOn, values.saleStartsTime) < withTime(values.saleEndsOn, values.saleEndsTime),
+  { message: "Sales must end after they start", path: ["saleEndsOn"] }
+);
+
+type TierFormValues = z.infer<typeof tierSchema>;
+
+interface TierFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Tier being edited; a new tier is created when omitted
+  tier?: AdminTicketTier | null;
+  onSubmit: (tierType: string, input: TierInput) => Promise<void>;
+}
+
+function withTime(date: Date, value: string): Date {
+  const [hours, minutes] = value.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+const toFormValues = (tier?: AdminTicketTier | null): TierFormValues => {
+  const startsAt = tier?.saleStartsAt ? new Date(tier.saleStartsAt) : undefined;
+  const endsAt = tier?.saleEndsAt ? new Date(tier.saleEndsAt) : undefined;
+  return {
+    type: tier?.type || "",
+    price: tier?.price || 0,
+    capacity: tier?.capacity || 0,
+    description: tier?.description || "",
+    gate: tier?.seating.gate || "",
+    saleStartsOn: startsAt,
+    saleStartsTime: startsAt ? format(startsAt, "HH:mm") : "00:00",
+    saleEndsOn: endsAt,
+    saleEndsTime: endsAt ? format(endsAt, "HH:mm") : "23:59"
+  };
+};
+
+interface SaleDateFieldProps {
+  control: Control<TierFormValues>;
+  dateName: FieldPath<TierFormValues>;
+  timeName: FieldPath<TierFormValues>;
+  label: string;
+}
+
+// Optional date and time for one end of the sale window
+const SaleDateField = ({ control, dateName, timeName, label }: SaleDateFieldProps) => (
+  <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+    <FormField
+      control={control}
+      name={dateName}
+      render={({ field }) => {
+        const value = field.value as Date | undefined;
+        return (
+          <FormItem className="flex flex-col">
+            <FormLabel>{label}</FormLabel>
+            <div className="flex gap-1">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant="outline"
+                      className={cn("flex-1 justify-start text-left font-normal", !value && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {value ? format(value, "d MMM yyyy") : "Any time"}
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar mode="single" selected={value} onSelect={field.onChange} initialFocus />
+                </PopoverContent>
+              </Popover>
+              {value && (
+                <Button type="button" variant="ghost" size="icon" onClick={() => field.onChange(undefined)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+    <FormField
+      control={control}
+      name={timeName}
+      render={({ field }) => (
+        <FormItem>
+          <FormControl>
+            <Input type="time" className="w-28" {...field} value={field.value as string} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  </div>
+);
+
+const TierFormDialog = ({ open, onOpenChange, tier, onSubmit }: TierFormDialogProps) => {
+  const form = useForm<TierFormValues>({
+    resolver: zodResolver(tierSchema),
+    defaultValues: toFormValues(tier)
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(tier));
+    }
+  }, [open, tier, form]);
+
+  const handleSubmit = async (values: TierFormValues) => {
+    await onSubmit(values.type, {
+      price: values.price,
+      capacity: values.capacity,
+      description: values.description,
+      gate: values.gate,
+      saleStartsAt: values.saleStartsOn ? withTime(values.saleStartsOn, values.saleStartsTime).toISOString() : null,
+      saleEndsAt: values.saleEndsOn ? withTime(values.saleEndsOn, values.saleEndsTime).toISOString() : null
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{tier ? `Edit ${tier.type}` : "New ticket tier"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Regular" disabled={!!tier} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price (KES)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Capacity</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    {tier?.inventory && (
+                      <FormDescription>
+                        {tier.inventory.sold} sold, {tier.inventory.held} held
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="Gates open 15:00 hrs" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gate</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Main Gate" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    {tier && tier.seating.sections[0] !== "General Admission"
+                      ? `Seated in ${tier.seating.sections.join(", ")}`
+                      : "New tiers are general admission"}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <SaleDateField control={form.control} dateName="saleStartsOn" timeName="saleStartsTime" label="Sales open" />
+            <SaleDateField control={form.control} dateName="saleEndsOn" timeName="saleEndsTime" label="Sales close" />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {tier ? "Save tier" : "Add tier"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TierFormDialog;
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { matchService, MatchServiceError } from "@/lib/match-service"
+
+// The catalog rarely changes while someone is browsing
+const MATCH_STALE_TIME = 5 * 60 * 1000
+
+export function useMatches() {
+  return useQuery({
+    queryKey: ["matches"],
+    queryFn: () => matchService.listMatches(),
+    staleTime: MATCH_STALE_TIME
+  })
+}
+
+export function useMatch(matchId: string | undefined) {
+  return useQuery({
+    queryKey: ["matches", matchId],
+    queryFn: () => matchService.getMatch(matchId as string),
+    enabled: !!matchId,
+    // Retrying won't make an unknown match appear
+    retry: (failureCount, error) =>
+      !(error instanceof MatchServiceError && error.code === "MATCH_NOT_FOUND") && failureCount < 3,
+    staleTime: MATCH_STALE_TIME
+  })
+}
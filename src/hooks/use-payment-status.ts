@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { payHeroService } from "@/lib/payhero-service"
+import { isFinalState, toPaymentState, type PaymentState } from "@/lib/payment-state"
+import { forgetPendingPayment, savePendingPayment, type PendingPayment } from "@/lib/pending-payment"
+import type { PayHeroStatusResponse } from "@/lib/payhero-types"
+
+// How long to wait for a payment to become final, as shown by the payment progress bar
+export const PAYMENT_STATUS_MAX_DURATION = 3 * 60 * 1000 // 3 minutes
+
+// Status check backoff, used only while the live status stream is unavailable
+const BASE_POLL_INTERVAL = 3000
+const MAX_POLL_INTERVAL = 30000
+
+/**
+ * Delay before the next status check: doubles with every check up to MAX_POLL_INTERVAL,
+ * up to half of it random so waiting browsers don't all poll at once
+ */
+const getPollDelay = (checks: number) => {
+  const delay = Math.min(BASE_POLL_INTERVAL * 2 ** checks, MAX_POLL_INTERVAL)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+// The payment state a status response reports, preferring the one our backend recorded
+const getState = (response: PayHeroStatusResponse | undefined): PaymentState | null =>
+  response ? response.state ?? toPaymentState(response.status) : null
+
+interface UsePaymentStatusOptions {
+  // Saved with the reference while it is tracked, so a reload can resume the payment
+  details?: Omit<PendingPayment, "reference" | "startedAt">
+  maxDuration?: number
+  // Called with every state the payment reports, and PayHero's status when known
+  onStateChange?: (state: PaymentState, status?: string) => void
+  // Called once `maxDuration` has passed without a final state
+  onTimeout?: () => void
+}
+
+/**
+ * Track a payment by PayHero's reference until it is final or `maxDuration` has passed.
+ * Follows the backend's live status stream, and polls with backoff only while the stream
+ * is unavailable. A failed or cancelled payment stops being resumable on its own; call
+ * `complete` once a successful one has been dealt with.
+ */
+export function usePaymentStatus(
+  reference: string | null,
+  { details, maxDuration = PAYMENT_STATUS_MAX_DURATION, onStateChange, onTimeout }: UsePaymentStatusOptions = {}
+) {
+  const queryClient = useQueryClient()
+  const [streamUnavailable, setStreamUnavailable] = useState(false)
+  const [timedOut, setTimedOut] = useState(false)
+  const [cancelled, setCancelled] = useState(false)
+  const startedAtRef = useRef(Date.now())
+  const closeStreamRef = useRef<(() => void) | null>(null)
+  // Only read when tracking starts, so a new object every render doesn't restart it
+  const detailsRef = useRef(details)
+  detailsRef.current = details
+  // The latest callbacks, so updates never reach a stale closure
+  const callbacksRef = useRef({ onStateChange, onTimeout })
+  callbacksRef.current = { onStateChange, onTimeout }
+
+  const query = useQuery({
+    queryKey: ["payment-status", reference],
+    queryFn: ({ signal }) => payHeroService.checkPaymentStatus(reference as string, signal),
+    enabled: !!reference && streamUnavailable && !timedOut && !cancelled,
+    refetchInterval: (query) =>
+      isFinalState(getState(query.state.data)) || Date.now() - startedAtRef.current >= maxDuration
+        ? false
+        : getPollDelay(query.state.dataUpdateCount),
+    // The buyer is probably in their M-PESA app while this runs
+    refetchIntervalInBackground: true,
+    retry: false
+  })
+  const state = getState(query.data)
+  const status = query.data?.status
+
+  useEffect(() => {
+    if (!reference) {
+      return
+    }
+
+    startedAtRef.current = Date.now()
+    setStreamUnavailable(false)
+    setTimedOut(false)
+    setCancelled(false)
+    if (detailsRef.current) {
+      savePendingPayment({ reference, ...detailsRef.current, startedAt: new Date().toISOString() })
+    }
+
+    const closeStream = payHeroService.subscribeToPaymentStatus(reference, {
+      onStatus: (event) => queryClient.setQueryData<PayHeroStatusResponse>(
+        ["payment-status", reference],
+        { success: true, reference, state: event.state }
+      ),
+      onUnavailable: () => setStreamUnavailable(true)
+    })
+    closeStreamRef.current = closeStream
+
+    // Check once more before giving up on a callback that never came
+    let tracking = true
+    const isSettled = () => isFinalState(getState(queryClient.getQueryData(["payment-status", reference])))
+    const timeout = setTimeout(() => {
+      closeStream()
+      if (isSettled()) {
+        return
+      }
+      queryClient
+        .fetchQuery({
+          queryKey: ["payment-status", reference],
+          queryFn: ({ signal }) => payHeroService.checkPaymentStatus(reference, signal)
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          if (!tracking) {
+            return
+          }
+          setTimedOut(true)
+          if (!isSettled()) {
+            callbacksRef.current.onTimeout?.()
+          }
+        })
+    }, maxDuration)
+
+    return () => {
+      tracking = false
+      clearTimeout(timeout)
+      closeStream()
+      closeStreamRef.current = null
+    }
+  }, [reference, maxDuration, queryClient])
+
+  useEffect(() => {
+    if (!reference || !state) {
+      return
+    }
+    // Nothing left to resume for a payment that didn't go through
+    if (state === "failed" || state === "cancelled") {
+      forgetPendingPayment(reference)
+    }
+    callbacksRef.current.onStateChange?.(state, status)
+  }, [reference, state, status])
+
+  /**
+   * Stop tracking the payment, abandoning any status check in flight
+   */
+  const cancel = useCallback(() => {
+    if (!reference) {
+      return
+    }
+    setCancelled(true)
+    closeStreamRef.current?.()
+    queryClient.cancelQueries({ queryKey: ["payment-status", reference] })
+    forgetPendingPayment(reference)
+  }, [reference, queryClient])
+
+  /**
+   * Stop resuming the payment after a reload, once its tickets are issued
+   */
+  const complete = useCallback(() => {
+    if (reference) {
+      forgetPendingPayment(reference)
+    }
+  }, [reference])
+
+  return {
+    state,
+    status,
+    timedOut,
+    refresh: query.refetch,
+    cancel,
+    complete
+  }
+}
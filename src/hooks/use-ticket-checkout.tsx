@@ -0,0 +1,425 @@
+import { useEffect, useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+
+import { ToastAction } from "@/components/ui/toast"
+import { useToast } from "@/hooks/use-toast"
+import { PAYMENT_STATUS_MAX_DURATION, usePaymentStatus } from "@/hooks/use-payment-status"
+import { payHeroService } from "@/lib/payhero-service"
+import { PAYMENT_PROVIDERS, type PaymentProvider } from "@/lib/payhero-config"
+import { MOBILE_WALLETS, normalizePhoneNumber } from "@/lib/mobile-wallets"
+import { ticketService } from "@/lib/ticket-service"
+import { transitionPayment, type PaymentState } from "@/lib/payment-state"
+import { forgetPendingPayment } from "@/lib/pending-payment"
+import type { PricedOrderItem, TicketRecord } from "@/lib/ticket-types"
+
+interface UseTicketCheckoutOptions {
+  // Where the payment was started from, as logged with its state changes
+  source: string
+  // Called once the payment succeeded, before its tickets are issued
+  onPaid?: () => void
+  // Called before the buyer is sent to another page
+  onLeave?: () => void
+}
+
+/**
+ * Buy an order's tickets: the buyer's details, the order and its hold, the STK push to
+ * their mobile money wallet or the hosted card checkout, and the tickets once paid.
+ * Shared by the payment modal and the /checkout page.
+ */
+export function useTicketCheckout(
+  matchId: string,
+  items: PricedOrderItem[],
+  { source, onPaid, onLeave }: UseTicketCheckoutOptions
+) {
+  const [isProcessing, setIsProcessing] = useState(false)
+  // The mobile money wallet the STK push goes to, and the number it is sent to
+  const [provider, setProvider] = useState<PaymentProvider>(PAYMENT_PROVIDERS.MPESA)
+  const [walletNumber, setWalletNumber] = useState("")
+  const [email, setEmail] = useState("")
+  const [fullName, setFullName] = useState("")
+  const [showETicket, setShowETicket] = useState(false)
+  const [tickets, setTickets] = useState<TicketRecord[]>([])
+  const [ticketIndex, setTicketIndex] = useState(0)
+  const { toast } = useToast()
+  const navigate = useNavigate()
+  const ticketCount = items.reduce((total, item) => total + item.quantity, 0)
+  const amount = `KES ${items.reduce((total, item) => total + item.quantity * item.unitPrice, 0)}`
+  const wallet = MOBILE_WALLETS[provider]
+
+  const [transactionId, setTransactionId] = useState<string | null>(null)
+  const [paymentStatus, setPaymentStatusValue] = useState<PaymentState>("idle")
+  // Current state for async callbacks, which would otherwise see a stale paymentStatus
+  const paymentStateRef = useRef<PaymentState>("idle")
+  const isAwaitingPayment = paymentStatus === "pending" || paymentStatus === "processing"
+  const [paymentError, setPaymentError] = useState<string | null>(null)
+  const [progressMessage, setProgressMessage] = useState<{ main: string; sub: string } | null>(null)
+  const [progressValue, setProgressValue] = useState<number>(0)
+  // The order's reference, which is also its hold's. Read from async callbacks,
+  // so kept in a ref rather than state
+  const orderReferenceRef = useRef<string | null>(null)
+  // Proves the order is this buyer's, which issuing its tickets takes
+  const orderTokenRef = useRef<string | null>(null)
+  // Follows the payment once the STK push is sent. Saved with what it takes to issue the
+  // tickets, so a reload can still deliver them
+  usePaymentStatus(transactionId, {
+    details: orderReferenceRef.current && orderTokenRef.current ? {
+      orderReference: orderReferenceRef.current,
+      orderToken: orderTokenRef.current,
+      matchId,
+      holderName: fullName,
+      holderEmail: email,
+      provider
+    } : undefined,
+    onStateChange: (state, status) => applyPaymentState(transactionId as string, state, status),
+    onTimeout: () => showStatusTimeout()
+  })
+
+  // Move the payment through the shared state machine. Illegal moves are logged and
+  // ignored; returns whether the move was allowed. Only `reset` goes back to idle.
+  const setPaymentStatus = (status: PaymentState, { reset = false } = {}): boolean => {
+    const { state, legal } = transitionPayment(paymentStateRef.current, status, {
+      reference: orderReferenceRef.current ?? undefined,
+      source,
+      reset
+    })
+    paymentStateRef.current = state ?? "idle"
+    setPaymentStatusValue(paymentStateRef.current)
+    return legal
+  }
+
+  // Progress increment interval, over as long as the payment is tracked
+  useEffect(() => {
+    if (paymentStatus === "pending" || paymentStatus === "processing") {
+      const incrementInterval = 1000 // 1 second
+      const incrementValue = 100 / (PAYMENT_STATUS_MAX_DURATION / incrementInterval)
+
+      const interval = setInterval(() => {
+        // Never reach 100% automatically
+        setProgressValue((prev) => Math.min(prev + incrementValue, 98))
+      }, incrementInterval)
+
+      return () => clearInterval(interval)
+    } else if (paymentStatus === "success") {
+      setProgressValue(100)
+    } else if (paymentStatus === "idle" || paymentStatus === "failed") {
+      setProgressValue(0)
+    }
+  }, [paymentStatus])
+
+  // Show a state the tracked payment reported. `status` is PayHero's own status, when known.
+  const applyPaymentState = (txnId: string, state: PaymentState, status?: string) => {
+    switch (state) {
+      case "success":
+        // Never issue tickets for a payment this checkout already gave up on
+        if (!setPaymentStatus("success")) {
+          break
+        }
+        setPaymentError(null)
+        toast({
+          title: "Payment Successful!",
+          description: `Your payment has been processed successfully. Issuing your ${ticketCount === 1 ? "e-ticket" : "e-tickets"}...`,
+        })
+        fetchIssuedTickets(txnId)
+        onPaid?.()
+        break
+
+      case "failed":
+        handlePaymentFailure("Payment was unsuccessful. Please try again.")
+        break
+
+      case "cancelled":
+        handlePaymentFailure("Payment was cancelled. Please try again.")
+        break
+
+      case "initiating":
+      case "pending":
+        setPaymentStatus("pending")
+        setProgressMessage(status === "QUEUED" ? {
+          // Payment request is queued, continue waiting
+          main: "Payment Request Queued",
+          sub: "Please wait while we process your request..."
+        } : {
+          // STK push sent, waiting for user action
+          main: "Check Your Phone",
+          sub: `Enter your ${wallet.name} PIN to complete payment`
+        })
+        break
+
+      case "processing":
+        setPaymentStatus("processing")
+        setProgressMessage({
+          main: "Confirming Payment",
+          sub: "Please wait while we verify your transaction..."
+        })
+        break
+
+      default:
+        // Log the unexpected status for debugging (without sensitive data)
+        console.log("Unexpected payment status:", status ?? state)
+        handlePaymentFailure("Unable to determine payment status")
+    }
+  }
+
+  // Shown when a payment is still unconfirmed after we've stopped waiting for it
+  const showStatusTimeout = () => {
+    const message = process.env.NODE_ENV === "development"
+      ? "Payment status check timed out. If testing, ensure the webhook endpoint is responding correctly."
+      : `If you've completed the payment but don't see your ticket, you can recover it with the receipt code from your ${wallet.name} message.`
+    toast({
+      title: "Payment Status",
+      description: message,
+      duration: 10000,
+      action: <ToastAction altText="Recover tickets" onClick={openRecovery}>Recover</ToastAction>
+    })
+  }
+
+  // The recovery page, filled in with this payment
+  const openRecovery = () => {
+    const params = new URLSearchParams({ phone: walletNumber, code: transactionId || "" })
+    onLeave?.()
+    navigate(`/recover?${params}`)
+  }
+
+  // Give the held tickets back so others can buy them
+  const releaseHold = () => {
+    const reference = orderReferenceRef.current
+    const orderToken = orderTokenRef.current
+    if (!reference || !orderToken) {
+      return
+    }
+    orderReferenceRef.current = null
+    ticketService.releaseHold(reference, orderToken).catch((error) => {
+      // The backend expires the hold on its own if this doesn't get through
+      console.error("Failed to release ticket hold:", error)
+    })
+  }
+
+  const handlePaymentFailure = (userMessage: string) => {
+    // A late failure can't undo a payment that already succeeded
+    if (!setPaymentStatus("failed")) {
+      return
+    }
+    releaseHold()
+    setPaymentError(userMessage)
+    toast({
+      title: "Payment Failed",
+      description: userMessage,
+      variant: "destructive"
+    })
+  }
+
+  // Ask the backend to issue the order's tickets once the payment is confirmed
+  const fetchIssuedTickets = async (reference: string) => {
+    try {
+      const issued = await ticketService.issueTickets({
+        reference,
+        holdReference: orderReferenceRef.current as string,
+        orderToken: orderTokenRef.current as string,
+        holderName: fullName,
+        holderEmail: email
+      })
+
+      setTickets(issued)
+      setTicketIndex(0)
+      setShowETicket(true)
+      // Delivered, so nothing to resume after a reload
+      forgetPendingPayment(reference)
+    } catch (error) {
+      console.error("Ticket issuance error:", error)
+      toast({
+        title: "Ticket Not Issued Yet",
+        description: `We could not issue your ticket right now. Keep your payment reference (${reference}) and try again shortly.`,
+        variant: "destructive",
+        duration: 10000
+      })
+    }
+  }
+
+  /**
+   * Stop tracking the payment and start over. A payment left unfinished is picked up
+   * again after a reload.
+   */
+  const reset = () => {
+    setPaymentStatus("idle", { reset: true })
+    setTransactionId(null)
+    setPaymentError(null)
+    setIsProcessing(false)
+    setProgressValue(0)
+    setProgressMessage(null)
+  }
+
+  const initiatePayment = async (phoneNumber: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      // Each attempt is a new payment, with its own reference
+      setPaymentStatus("idle", { reset: true })
+      setPaymentStatus("initiating")
+      setPaymentError(null)
+      setProgressMessage({
+        main: "Initiating Payment",
+        sub: `Preparing to send the ${wallet.name} prompt...`
+      })
+
+      // Create the order before prompting: it holds the tickets, so they can't sell
+      // out while the customer pays, and fixes the total the backend charges
+      const { order, orderToken } = await ticketService.createOrder({
+        matchId,
+        items: items.map(({ ticketType, quantity }) => ({ ticketType, quantity })),
+        phoneNumber,
+        provider,
+        customerName: fullName,
+        customerEmail: email
+      })
+      orderReferenceRef.current = order.reference
+      orderTokenRef.current = orderToken
+
+      const response = await payHeroService.initiateSTKPush({
+        customerName: fullName,
+        phoneNumber,
+        provider,
+        reference: order.reference,
+        orderToken
+      })
+
+      if (!response.success) {
+        releaseHold()
+        throw new Error(response.error?.message || "Failed to initiate payment")
+      }
+
+      // Use either reference or CheckoutRequestID as the transaction ID
+      const txnId = response.reference || response.CheckoutRequestID
+      if (!txnId) {
+        throw new Error("No reference or CheckoutRequestID returned from PayHero")
+      }
+
+      setTransactionId(txnId)
+      setPaymentStatus("pending")
+      setProgressMessage({
+        main: "STK Push Sent",
+        sub: `Please check your phone for the ${wallet.name} prompt`
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error("Payment initiation error:", error)
+      const errorMessage = error instanceof Error ? error.message : "Failed to initiate payment"
+      setPaymentError(errorMessage)
+      return { success: false, error: errorMessage }
+    }
+  }
+
+  const payWithWallet = async () => {
+    if (!walletNumber || !email || !fullName) {
+      toast({
+        title: "Missing Information",
+        description: `Please enter your full name, ${wallet.name} number and email address`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    // Validate and format phone number for the chosen wallet
+    const validation = payHeroService.validatePhoneNumber(walletNumber, provider)
+    if (!validation.isValid) {
+      toast({
+        title: "Invalid Phone Number",
+        description: validation.error || "Please enter a valid Kenyan phone number",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsProcessing(true)
+    const result = await initiatePayment(validation.formattedNumber!)
+    if (result.success) {
+      toast({
+        title: "STK Push Sent!",
+        description: `Please check your phone and enter your ${wallet.name} PIN to complete the payment.`,
+      })
+    } else {
+      setPaymentStatus("failed")
+      setIsProcessing(false)
+      toast({
+        title: "Payment Failed",
+        description: result.error || "Failed to initiate payment. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Card details are entered on PayHero's hosted checkout, never here. The buyer comes
+  // back to /payment/return, which confirms the payment before issuing the tickets.
+  // Card orders take a phone number too, which the per-phone cap counts them against.
+  const payByCard = async () => {
+    if (!walletNumber || !email || !fullName) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your full name, phone number and email address",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const phoneNumber = normalizePhoneNumber(walletNumber)
+    if (!phoneNumber) {
+      toast({
+        title: "Invalid Phone Number",
+        description: "Please enter a valid Kenyan phone number, e.g. 0712345678",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsProcessing(true)
+    try {
+      const { checkoutUrl } = await ticketService.startCardCheckout({
+        matchId,
+        items: items.map(({ ticketType, quantity }) => ({ ticketType, quantity })),
+        phoneNumber,
+        customerName: fullName,
+        customerEmail: email
+      })
+      window.location.assign(checkoutUrl)
+    } catch (error) {
+      console.error("Card checkout error:", error)
+      setIsProcessing(false)
+      toast({
+        title: "Card Payment Failed",
+        description: error instanceof Error ? error.message : "Could not start the card payment. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  return {
+    fullName,
+    setFullName,
+    email,
+    setEmail,
+    provider,
+    setProvider,
+    walletNumber,
+    setWalletNumber,
+    wallet,
+    ticketCount,
+    amount,
+    isProcessing,
+    paymentStatus,
+    isAwaitingPayment,
+    paymentError,
+    progressMessage,
+    progressValue,
+    transactionId,
+    tickets,
+    setTickets,
+    ticketIndex,
+    setTicketIndex,
+    showETicket,
+    setShowETicket,
+    payWithWallet,
+    payByCard,
+    openRecovery,
+    reset
+  }
+}
+
+export type TicketCheckout = ReturnType<typeof useTicketCheckout>
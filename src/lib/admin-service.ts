@@ -0,0 +1,152 @@
+import { PAYHERO_CONFIG } from './payhero-config';
+
+import type {
+  AdminMatch,
+  AdminMatchesResponse,
+  AdminMatchResponse,
+  AdminSession,
+  LoginResponse,
+  MatchInput,
+  TierInput
+} from './admin-types';
+
+const SESSION_KEY = 'chan-admin-session';
+
+export class AdminServiceError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'AdminServiceError';
+    this.code = code;
+  }
+}
+
+class AdminService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = PAYHERO_CONFIG.API_BASE_URL;
+  }
+
+  // Sessions live for the browser tab only
+  getSession(): AdminSession | null {
+    try {
+      const session: AdminSession | null = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null');
+      if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+    } catch (e) {
+      // Fall through and treat a corrupt session as logged out
+    }
+    sessionStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+
+  logout(): void {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+
+  private async request<T extends LoginResponse | AdminMatchesResponse | AdminMatchResponse>(
+    path: string,
+    init?: RequestInit
+  ): Promise<T> {
+    const session = this.getSession();
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...(session ? { 'Authorization': `Bearer ${session.token}` } : {}),
+        ...init?.headers
+      }
+    });
+
+    let data: T;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new AdminServiceError('INVALID_RESPONSE', `Invalid response from admin API (${response.status})`);
+    }
+
+    if (response.status === 401 && session) {
+      this.logout();
+    }
+
+    if (!response.ok || !data.success) {
+      throw new AdminServiceError(
+        data.error?.code || 'ADMIN_REQUEST_FAILED',
+        data.message || data.error?.message || 'Admin request failed'
+      );
+    }
+
+    return data;
+  }
+
+  private async requestMatch(path: string, init?: RequestInit): Promise<AdminMatch> {
+    const data = await this.request<AdminMatchResponse>(path, init);
+    if (!data.match) {
+      throw new AdminServiceError('INVALID_RESPONSE', 'Match missing from response');
+    }
+    return data.match;
+  }
+
+  async login(password: string): Promise<AdminSession> {
+    const data = await this.request<LoginResponse>('/api/admin/login', {
+      method: 'POST',
+      body: JSON.stringify({ password })
+    });
+    if (!data.session) {
+      throw new AdminServiceError('INVALID_RESPONSE', 'Session missing from response');
+    }
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(data.session));
+    return data.session;
+  }
+
+  /**
+   * Every match, archived ones included, with stock per tier
+   */
+  async listMatches(): Promise<AdminMatch[]> {
+    const data = await this.request<AdminMatchesResponse>('/api/admin/matches');
+    return data.matches || [];
+  }
+
+  async createMatch(input: MatchInput): Promise<AdminMatch> {
+    return this.requestMatch('/api/admin/matches', {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+  }
+
+  async updateMatch(matchId: string, input: MatchInput): Promise<AdminMatch> {
+    return this.requestMatch(`/api/admin/matches/${encodeURIComponent(matchId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    });
+  }
+
+  async setArchived(matchId: string, archived: boolean): Promise<AdminMatch> {
+    const action = archived ? 'archive' : 'restore';
+    return this.requestMatch(`/api/admin/matches/${encodeURIComponent(matchId)}/${action}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Create a tier, or update it if the match already has one with this name
+   */
+  async saveTier(matchId: string, tierType: string, input: TierInput): Promise<AdminMatch> {
+    return this.requestMatch(`/api/admin/matches/${encodeURIComponent(matchId)}/tiers/${encodeURIComponent(tierType)}`, {
+      method: 'PUT',
+      body: JSON.stringify(input)
+    });
+  }
+
+  async deleteTier(matchId: string, tierType: string): Promise<AdminMatch> {
+    return this.requestMatch(`/api/admin/matches/${encodeURIComponent(matchId)}/tiers/${encodeURIComponent(tierType)}`, {
+      method: 'DELETE'
+    });
+  }
+}
+
+export const adminService = new AdminService();
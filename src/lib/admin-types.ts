@@ -0,0 +1,64 @@
+import type { Match, TicketTier } from './match-types';
+import type { TierInventory } from './ticket-types';
+
+export interface AdminSession {
+  token: string;
+  expiresAt: string;
+}
+
+export interface TierSeating {
+  gate: string;
+  sections: string[];
+  rowsPerSection: number;
+  seatsPerRow: number;
+}
+
+export interface AdminTicketTier extends TicketTier {
+  seating: TierSeating;
+  inventory: TierInventory | null;
+}
+
+export interface AdminMatch extends Omit<Match, 'tiers'> {
+  tiers: AdminTicketTier[];
+}
+
+export interface MatchInput {
+  teamA: string;
+  teamB: string;
+  teamAFlagUrl: string | null;
+  teamBFlagUrl: string | null;
+  date: string;
+  time: string;
+  venue: string;
+  gateOpenTime: string;
+}
+
+export interface TierInput {
+  price: number;
+  capacity: number;
+  description: string;
+  gate: string;
+  saleStartsAt: string | null;
+  saleEndsAt: string | null;
+}
+
+interface ApiResponse {
+  success: boolean;
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface LoginResponse extends ApiResponse {
+  session?: AdminSession;
+}
+
+export interface AdminMatchesResponse extends ApiResponse {
+  matches?: AdminMatch[];
+}
+
+export interface AdminMatchResponse extends ApiResponse {
+  match?: AdminMatch;
+}
@@ -0,0 +1,64 @@
+import { PAYHERO_CONFIG } from './payhero-config';
+
+import type {
+  Match,
+  MatchesResponse,
+  MatchResponse
+} from './match-types';
+
+export class MatchServiceError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'MatchServiceError';
+    this.code = code;
+  }
+}
+
+class MatchService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = PAYHERO_CONFIG.API_BASE_URL;
+  }
+
+  private async request<T extends MatchesResponse | MatchResponse>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    let data: T;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new MatchServiceError('INVALID_RESPONSE', `Invalid response from match catalog (${response.status})`);
+    }
+
+    if (!response.ok || !data.success) {
+      throw new MatchServiceError(
+        data.error?.code || 'MATCH_REQUEST_FAILED',
+        data.message || data.error?.message || 'Match request failed'
+      );
+    }
+
+    return data;
+  }
+
+  async listMatches(): Promise<Match[]> {
+    const data = await this.request<MatchesResponse>('/api/matches');
+    return data.matches || [];
+  }
+
+  async getMatch(matchId: string): Promise<Match> {
+    const data = await this.request<MatchResponse>(`/api/matches/${encodeURIComponent(matchId)}`);
+    if (!data.match) {
+      throw new MatchServiceError('INVALID_RESPONSE', 'Match missing from response');
+    }
+    return data.match;
+  }
+}
+
+export const matchService = new MatchService();
@@ -0,0 +1,45 @@
+// Match catalog as served by GET /api/matches
+export interface TicketTier {
+  type: string;
+  price: number;
+  description: string;
+  capacity: number;
+  // Optional sale window, ISO timestamps
+  saleStartsAt: string | null;
+  saleEndsAt: string | null;
+}
+
+export interface Match {
+  id: string;
+  // Team codes, e.g. "MAD"
+  teamA: string;
+  teamB: string;
+  // Custom flag images; bundled flags are used when these are empty
+  teamAFlagUrl: string | null;
+  teamBFlagUrl: string | null;
+  // Display date, e.g. "30 Aug 2025"
+  date: string;
+  time: string;
+  venue: string;
+  gateOpenTime: string;
+  // Archived matches are off sale and hidden from the home page
+  status: 'active' | 'archived';
+  tiers: TicketTier[];
+}
+
+interface ApiResponse {
+  success: boolean;
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface MatchesResponse extends ApiResponse {
+  matches?: Match[];
+}
+
+export interface MatchResponse extends ApiResponse {
+  match?: Match;
+}
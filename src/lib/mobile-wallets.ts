@@ -0,0 +1,2 @@
+// Wallets and their number ranges live with the backend, which uses the same module
+export * from '../../backend-example/lib/mobile-wallets.mjs';
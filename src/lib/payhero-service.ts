@@ -1,180 +1,80 @@
-import { 
-  PAYHERO_CONFIG, 
-  PAYHERO_ENDPOINTS
-} from './payhero-config';
+import { PAYHERO_CONFIG, PAYMENT_PROVIDERS, type PaymentProvider } from './payhero-config';
+import { isFinalState } from './payment-state';
+import { validateWalletNumber, type WalletNumberValidation } from './mobile-wallets';
 
 import type {
   PayHeroResponse,
-  PayHeroStatusResponse
+  PayHeroStatusResponse,
+  PaymentStatusEvent
 } from './payhero-types';
 
 interface STKPushRequest {
-  amount: number;
   customerName: string;
   phoneNumber: string;
-  provider: string;
-  reference?: string;
+  provider: PaymentProvider;
+  reference: string;
+  // Proves the order is the buyer's own, see ticketService.createOrder
+  orderToken: string;
 }
 
-class PayHeroService {
-  private channelId: string;
-  private callbackUrl: string;
-
-  constructor() {
-    this.channelId = PAYHERO_CONFIG.CHANNEL_ID;
-    this.callbackUrl = PAYHERO_CONFIG.CALLBACK_URL;
-  }
-
-  private generateReference(): string {
-    return `CHAN${Date.now().toString()}`;
-  }
-
-  validatePhoneNumber(phoneNumber: string): { isValid: boolean; formattedNumber?: string; error?: string } {
-    try {
-      // Remove any spaces, hyphens, or other separators
-      let cleaned = phoneNumber.replace(/\D/g, '');
-
-      // If the number starts with 0, replace it with 254
-      if (cleaned.startsWith('0')) {
-        cleaned = '254' + cleaned.slice(1);
-      }
-      // If the number starts with +, remove it
-      else if (cleaned.startsWith('+')) {
-        cleaned = cleaned.slice(1);
-      }
-      // If the number doesn't start with 254, add it
-      else if (!cleaned.startsWith('254')) {
-        cleaned = '254' + cleaned;
-      }
-
-      // Check if the number is a valid Kenyan phone number
-      // Should be 12 digits (254 + 9 digits)
-      if (cleaned.length !== 12) {
-        return {
-          isValid: false,
-          error: 'Phone number must be 9 digits excluding the country code'
-        };
-      }
-
-      // Check if it's a valid Safaricom number (254 7xx xxx xxx)
-      if (!cleaned.match(/^254(7[0-9]{8})$/)) {
-        return {
-          isValid: false,
-          error: 'Please enter a valid Safaricom number (07xx xxx xxx)'
-        };
-      }
+interface PaymentStatusHandlers {
+  onStatus: (event: PaymentStatusEvent) => void;
+  // The stream could not be opened or was closed by the backend; poll instead
+  onUnavailable: () => void;
+}
 
-      return {
-        isValid: true,
-        formattedNumber: cleaned
-      };
+// Talks to PayHero through our backend's /api/payments/* proxy, which holds the credentials
+class PayHeroService {
+  private baseUrl = PAYHERO_CONFIG.API_BASE_URL;
 
-    } catch (error) {
-      return {
-        isValid: false,
-        error: 'Invalid phone number format'
-      };
-    }
+  /**
+   * Check a phone number can pay with `provider`'s wallet, and format it as 254...
+   */
+  validatePhoneNumber(phoneNumber: string, provider: PaymentProvider = PAYMENT_PROVIDERS.MPESA): WalletNumberValidation {
+    return validateWalletNumber(phoneNumber, provider);
   }
 
+  /**
+   * Send an STK push for an order created with ticketService.createOrder.
+   * The backend charges the order total, so no amount is sent from here.
+   */
   async initiateSTKPush({
-    amount,
     customerName,
     phoneNumber,
     provider,
-    reference
+    reference,
+    orderToken
   }: STKPushRequest): Promise<PayHeroResponse> {
     try {
-      // Format and validate phone number
-      const validation = this.validatePhoneNumber(phoneNumber);
+      // Format and validate phone number for the chosen wallet
+      const validation = this.validatePhoneNumber(phoneNumber, provider);
       if (!validation.isValid) {
         throw new Error(validation.error || 'Invalid phone number');
       }
-      const formattedPhone = validation.formattedNumber!;
-
-      const paymentReference = reference || this.generateReference();
 
-      const requestBody = {
-        amount: Number(amount),
-        phone_number: formattedPhone,
-        channel_id: Number(this.channelId),
-        provider: 'm-pesa',
-        external_reference: paymentReference || undefined, // Only include if provided
-        customer_name: customerName || undefined, // Only include if provided
-        callback_url: this.callbackUrl || undefined // Only include if provided
-      };
-
-      // Log complete request details for debugging
-      console.log('PayHero API Request:', {
-        url: `${PAYHERO_CONFIG.BASE_URL}${PAYHERO_ENDPOINTS.INITIATE_PAYMENT}`,
+      const response = await fetch(`${this.baseUrl}/api/payments/initiate`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'Authorization': 'Basic ***' // Masked for security
+          'Accept': 'application/json'
         },
-        body: {
-          ...requestBody,
-          phone_number: formattedPhone.slice(0, 6) + '****' + formattedPhone.slice(-2)
-        }
-      });
-
-      const url = `${PAYHERO_CONFIG.BASE_URL}${PAYHERO_ENDPOINTS.INITIATE_PAYMENT}`;
-      const headers = { 
-        'Content-Type': 'application/json', 
-        'Accept': 'application/json',
-        'Authorization': PAYHERO_CONFIG.AUTH_TOKEN
-      };
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify({
+          reference,
+          order_token: orderToken,
+          customer_name: customerName,
+          phone_number: validation.formattedNumber,
+          provider
+        })
       });
 
-      // Read response as text first for better error handling
-      const responseText = await response.text();
-      console.log('Raw PayHero Response:', responseText);
-      
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (e) {
-        console.error('Failed to parse response:', responseText);
-        throw new Error(`Invalid response format: ${responseText.substring(0, 100)}...`);
-      }
-
-      // Log the complete response for debugging
-      console.log('PayHero API Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries([...response.headers]),
-        data: JSON.stringify(data, null, 2)
-      });
+      const data = await response.json().catch(() => null);
 
-      if (!response.ok) {
-        console.error('PayHero Error Response:', data);
-        let errorMsg = 'Unknown error';
-        
-        if (data.error_message) {
-          errorMsg = data.error_message;
-        } else if (data.message) {
-          errorMsg = data.message;
-        } else if (response.status === 404) {
-          errorMsg = 'Payment endpoint not found. Please check API configuration.';
-        }
-        
-        throw new Error(`PayHero API Error: ${response.status} - ${errorMsg}`);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error?.message || data?.message || `Payment request failed (${response.status})`);
       }
 
-      // According to docs, successful response should look like:
-      // {
-      //   "success": true,
-      //   "status": "QUEUED",
-      //   "reference": "E8UWT7CLUW",
-      //   "CheckoutRequestID": "ws_CO_15012024164321519708344109"
-      // }
-      
+      // PayHero identifies the push by its own reference, e.g.
+      // { "status": "QUEUED", "reference": "E8UWT7CLUW", "CheckoutRequestID": "ws_CO_..." }
       if (!data.reference || !data.CheckoutRequestID) {
         console.error('Invalid PayHero Response Structure:', data);
         throw new Error('Invalid response structure from PayHero - missing reference or CheckoutRequestID');
@@ -200,64 +100,27 @@ class PayHeroService {
     }
   }
 
-  async checkPaymentStatus(reference: string): Promise<PayHeroStatusResponse> {
+  /**
+   * Ask the backend for a payment's status. Aborting `signal` rejects with an AbortError.
+   */
+  async checkPaymentStatus(reference: string, signal?: AbortSignal): Promise<PayHeroStatusResponse> {
     try {
-      const url = `${PAYHERO_CONFIG.BASE_URL}${PAYHERO_ENDPOINTS.CHECK_STATUS}?reference=${reference}`;
-      const headers = {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        'Authorization': PAYHERO_CONFIG.AUTH_TOKEN
-      };
-
-      // Log request for debugging
-      console.log('PayHero Status Check Request:', {
-        url,
+      const response = await fetch(`${this.baseUrl}/api/payments/status/${encodeURIComponent(reference)}`, {
         method: 'GET',
-        headers: {
-          ...headers,
-          'Authorization': 'Basic ***' // Masked for security
-        }
-      });
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers
+        headers: { 'Accept': 'application/json' },
+        signal
       });
 
-      // Read response as text first for better error handling
-      const responseText = await response.text();
-      console.log('Raw PayHero Status Response:', responseText);
+      const data = await response.json().catch(() => null);
 
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (e) {
-        console.error('Failed to parse status response:', responseText);
-        // If we can't parse the response, consider it pending
-        return {
-          success: true,
-          status: 'QUEUED',
-          reference: reference,
-          message: 'Status check in progress'
-        };
-      }
-
-      // Log the complete response for debugging
-      console.log('PayHero Status API Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries([...response.headers]),
-        data: JSON.stringify(data, null, 2)
-      });
-
-      if (!response.ok) {
-        console.error('PayHero Status Check Error Response:', data);
-        throw new Error(`PayHero Status API Error: ${response.status} - ${data.message || response.statusText || 'Unknown error'}`);
+      if (!response.ok || !data?.success) {
+        throw new Error(`Status check failed: ${response.status} - ${data?.message || response.statusText || 'Unknown error'}`);
       }
 
       return {
         success: true,
         status: data.status || 'PENDING',
+        state: data.state,
         provider_reference: data.provider_reference,
         third_party_reference: data.third_party_reference,
         reference: reference,
@@ -265,6 +128,9 @@ class PayHeroService {
       };
 
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('PayHero Status Check Error:', error);
       // On error, consider the payment still pending
       return {
@@ -275,6 +141,54 @@ class PayHeroService {
       };
     }
   }
+
+  /**
+   * Follow a payment's state over the backend's Server-Sent Events stream, starting with
+   * its current state. The stream closes itself once the payment is final.
+   * Returns a function that closes it.
+   */
+  subscribeToPaymentStatus(reference: string, { onStatus, onUnavailable }: PaymentStatusHandlers): () => void {
+    if (typeof EventSource === 'undefined') {
+      onUnavailable();
+      return () => {};
+    }
+
+    const source = new EventSource(`${this.baseUrl}/api/payments/events/${encodeURIComponent(reference)}`);
+    let opened = false;
+    let closed = false;
+    const close = () => {
+      closed = true;
+      source.close();
+    };
+
+    source.onopen = () => {
+      opened = true;
+    };
+
+    source.addEventListener('payment', (message) => {
+      try {
+        const event: PaymentStatusEvent = JSON.parse((message as MessageEvent<string>).data);
+        if (isFinalState(event.state)) {
+          close();
+        }
+        onStatus(event);
+      } catch (error) {
+        console.error('Invalid payment status event:', error);
+      }
+    });
+
+    // EventSource reconnects by itself after a dropped connection; give up only when it
+    // never connected or the backend refused the stream
+    source.onerror = () => {
+      if (closed || (opened && source.readyState !== EventSource.CLOSED)) {
+        return;
+      }
+      close();
+      onUnavailable();
+    };
+
+    return close;
+  }
 }
 
 export const payHeroService = new PayHeroService();
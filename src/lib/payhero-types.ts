@@ -1,4 +1,6 @@
 // PayHero API Types
+import type { PaymentState } from './payment-state';
+
 export interface PayHeroPaymentRequest {
   amount: number;
   phone_number: string;
@@ -21,9 +23,19 @@ export interface PayHeroResponse {
   };
 }
 
+// A payment's state as pushed by the backend's live status stream
+// (GET /api/payments/events/:reference)
+export interface PaymentStatusEvent {
+  reference: string;
+  state: PaymentState;
+  updatedAt: string;
+}
+
 export interface PayHeroStatusResponse {
   success: boolean;
-  status?: 'SUCCESS' | 'QUEUED' | 'FAILED' | 'PENDING';
+  status?: 'SUCCESS' | 'QUEUED' | 'FAILED' | 'PENDING' | 'PROCESSING';
+  // The payment's state as our backend recorded it, see payment-state
+  state?: PaymentState | null;
   reference?: string;
   provider_reference?: string;
   third_party_reference?: string;
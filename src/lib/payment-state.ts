@@ -0,0 +1,2 @@
+// The payment state machine lives with the backend, which uses the same module
+export * from '../../backend-example/lib/payment-state.mjs';
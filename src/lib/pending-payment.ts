@@ -0,0 +1,63 @@
+// The payment a buyer is waiting on, kept in localStorage so that reloading the page
+// resumes tracking it instead of losing a ticket that was paid for.
+
+import type { PaymentProvider } from './payhero-config';
+
+const PENDING_PAYMENT_KEY = 'chan-pending-payment';
+// By then the backend has released the hold, or the payment needs support anyway
+const PENDING_PAYMENT_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface PendingPayment {
+  // PayHero's reference for the STK push, which status checks take
+  reference: string;
+  // The order's own reference, which is also its hold's
+  orderReference: string;
+  // Proves the order is the buyer's, which issuing its tickets takes
+  orderToken: string;
+  matchId: string;
+  holderName: string;
+  holderEmail: string;
+  // The wallet paid with; missing for payments saved before wallets could be chosen
+  provider?: PaymentProvider;
+  startedAt: string;
+}
+
+export const savePendingPayment = (payment: PendingPayment): void => {
+  try {
+    localStorage.setItem(PENDING_PAYMENT_KEY, JSON.stringify(payment));
+  } catch (error) {
+    // Private browsing or a full quota: tracking still works until the page is left
+    console.error('Failed to save pending payment:', error);
+  }
+};
+
+export const loadPendingPayment = (): PendingPayment | null => {
+  try {
+    const payment: PendingPayment | null = JSON.parse(localStorage.getItem(PENDING_PAYMENT_KEY) || 'null');
+    // Payments saved without an order token can't be issued from here any more
+    if (!payment?.reference || !payment.orderToken) {
+      return null;
+    }
+    if (Date.now() - new Date(payment.startedAt).getTime() > PENDING_PAYMENT_TTL) {
+      forgetPendingPayment(payment.reference);
+      return null;
+    }
+    return payment;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Stop resuming a payment. Only forgets `reference`, so a newer payment is kept.
+ */
+export const forgetPendingPayment = (reference: string): void => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_PAYMENT_KEY) || 'null');
+    if (!stored || stored.reference === reference) {
+      localStorage.removeItem(PENDING_PAYMENT_KEY);
+    }
+  } catch (error) {
+    localStorage.removeItem(PENDING_PAYMENT_KEY);
+  }
+};
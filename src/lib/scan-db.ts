@@ -0,0 +1,98 @@
+import type { ManifestTicket, ScanRecord } from './scan-types';
+
+// IndexedDB storage for the gate scanner, so validation keeps working offline
+const DB_NAME = 'chan-gate-scanner';
+const DB_VERSION = 1;
+const TICKETS_STORE = 'tickets';
+const SCANS_STORE = 'scans';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const tickets = db.createObjectStore(TICKETS_STORE, { keyPath: 'ticketId' });
+        tickets.createIndex('matchId', 'matchId');
+        const scans = db.createObjectStore(SCANS_STORE, { keyPath: 'scanId' });
+        scans.createIndex('ticketId', 'ticketId');
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * Replace the stored manifest for a match
+ */
+export const saveManifest = async (matchId: string, tickets: ManifestTicket[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TICKETS_STORE, 'readwrite');
+  const store = tx.objectStore(TICKETS_STORE);
+
+  const existingKeys = await promisify(store.index('matchId').getAllKeys(matchId));
+  existingKeys.forEach((key) => store.delete(key));
+  tickets.forEach((ticket) => store.put(ticket));
+
+  await transactionDone(tx);
+};
+
+export const countManifestTickets = async (matchId: string): Promise<number> => {
+  const db = await openDb();
+  return promisify(db.transaction(TICKETS_STORE).objectStore(TICKETS_STORE).index('matchId').count(matchId));
+};
+
+export const getManifestTicket = async (ticketId: string): Promise<ManifestTicket | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(TICKETS_STORE).objectStore(TICKETS_STORE).get(ticketId));
+};
+
+export const saveScan = async (scan: ScanRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SCANS_STORE, 'readwrite');
+  tx.objectStore(SCANS_STORE).put(scan);
+  await transactionDone(tx);
+};
+
+export const getScansForTicket = async (ticketId: string): Promise<ScanRecord[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(SCANS_STORE).objectStore(SCANS_STORE).index('ticketId').getAll(ticketId));
+};
+
+export const getUnsyncedScans = async (): Promise<ScanRecord[]> => {
+  const db = await openDb();
+  const scans: ScanRecord[] = await promisify(db.transaction(SCANS_STORE).objectStore(SCANS_STORE).getAll());
+  return scans.filter((scan) => !scan.synced);
+};
+
+export const markScansSynced = async (scanIds: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SCANS_STORE, 'readwrite');
+  const store = tx.objectStore(SCANS_STORE);
+
+  for (const scanId of scanIds) {
+    const scan: ScanRecord | undefined = await promisify(store.get(scanId));
+    if (scan) {
+      store.put({ ...scan, synced: true });
+    }
+  }
+
+  await transactionDone(tx);
+};
@@ -0,0 +1,163 @@
+import { PAYHERO_CONFIG } from './payhero-config';
+import {
+  getManifestTicket,
+  getScansForTicket,
+  getUnsyncedScans,
+  markScansSynced,
+  saveManifest,
+  saveScan
+} from './scan-db';
+
+import type {
+  ManifestResponse,
+  ManifestTicket,
+  ScanRecord,
+  ScanResult,
+  SyncResponse
+} from './scan-types';
+
+const DEVICE_ID_KEY = 'chan-gate-scanner-device';
+
+interface TicketTokenPayload {
+  ticketId: string;
+  matchId: string;
+  tier: string;
+}
+
+export interface ScanOutcome {
+  result: ScanResult;
+  ticket?: ManifestTicket;
+  previousScan?: ScanRecord;
+}
+
+/**
+ * Read the payload of a signed ticket token.
+ * The signature is not checked here: a token only passes at the gate if it
+ * matches the token the backend issued for that ticket in the manifest.
+ */
+const decodeTicketToken = (token: string): TicketTokenPayload | null => {
+  const [encodedPayload, signature] = token.trim().split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  try {
+    const json = atob(encodedPayload.replace(/-/g, '+').replace(/_/g, '/'));
+    const payload = JSON.parse(json);
+    if (!payload.tid || !payload.mid) {
+      return null;
+    }
+    return { ticketId: payload.tid, matchId: payload.mid, tier: payload.tier };
+  } catch (e) {
+    return null;
+  }
+};
+
+class ScanService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = PAYHERO_CONFIG.API_BASE_URL;
+  }
+
+  getDeviceId(): string {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  }
+
+  /**
+   * Download the ticket manifest for a match and store it for offline validation
+   */
+  async downloadManifest(matchId: string, gateKey: string): Promise<number> {
+    const response = await fetch(`${this.baseUrl}/api/scan/manifest/${encodeURIComponent(matchId)}`, {
+      headers: {
+        'Accept': 'application/json',
+        'x-gate-key': gateKey
+      }
+    });
+
+    const data: ManifestResponse = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || `Failed to download manifest (${response.status})`);
+    }
+
+    await saveManifest(matchId, data.tickets);
+    return data.tickets.length;
+  }
+
+  /**
+   * Validate a scanned token against the local manifest and record the scan.
+   * Works without network access.
+   */
+  async scan(token: string, matchId: string, gate: string): Promise<ScanOutcome> {
+    const payload = decodeTicketToken(token);
+    const ticket = payload ? await getManifestTicket(payload.ticketId) : undefined;
+
+    let result: ScanResult;
+    let previousScan: ScanRecord | undefined;
+
+    if (!payload || !ticket || ticket.qrToken !== token.trim()) {
+      result = 'INVALID';
+    } else if (ticket.matchId !== matchId) {
+      result = 'WRONG_MATCH';
+    } else {
+      const scans = await getScansForTicket(ticket.ticketId);
+      previousScan = scans.find((scan) => scan.result === 'ADMITTED');
+      result = previousScan ? 'DUPLICATE' : 'ADMITTED';
+    }
+
+    await saveScan({
+      scanId: crypto.randomUUID(),
+      ticketId: payload?.ticketId || 'UNKNOWN',
+      matchId,
+      gate,
+      result,
+      scannedAt: new Date().toISOString(),
+      synced: false
+    });
+
+    return { result, ticket, previousScan };
+  }
+
+  /**
+   * Push queued scans to the backend.
+   * Returns the backend's report of tickets admitted at more than one gate.
+   */
+  async syncScans(gateKey: string): Promise<SyncResponse> {
+    const pending = await getUnsyncedScans();
+    if (pending.length === 0) {
+      return { success: true, accepted: 0, conflicts: [] };
+    }
+
+    const response = await fetch(`${this.baseUrl}/api/scan/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'x-gate-key': gateKey
+      },
+      body: JSON.stringify({
+        device_id: this.getDeviceId(),
+        scans: pending.map(({ synced, ...scan }) => scan)
+      })
+    });
+
+    const data: SyncResponse = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.message || `Failed to sync scans (${response.status})`);
+    }
+
+    await markScansSynced(pending.map((scan) => scan.scanId));
+    return data;
+  }
+
+  async countPendingScans(): Promise<number> {
+    return (await getUnsyncedScans()).length;
+  }
+}
+
+export const scanService = new ScanService();
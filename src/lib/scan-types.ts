@@ -0,0 +1,50 @@
+// Gate scanner types
+
+// Ticket entry from the match manifest downloaded by the scanner
+export interface ManifestTicket {
+  ticketId: string;
+  matchId: string;
+  qrToken: string;
+  ticketType: string;
+  holderName: string;
+  // Named attendee, checked against their ID at the gate
+  attendeeName?: string | null;
+  attendeeIdNumber?: string | null;
+  attendeePhone?: string | null;
+}
+
+export interface ManifestResponse {
+  success: boolean;
+  matchId: string;
+  generatedAt: string;
+  tickets: ManifestTicket[];
+  message?: string;
+}
+
+export type ScanResult = 'ADMITTED' | 'DUPLICATE' | 'INVALID' | 'WRONG_MATCH';
+
+export interface ScanRecord {
+  scanId: string;
+  ticketId: string;
+  matchId: string;
+  gate: string;
+  result: ScanResult;
+  scannedAt: string;
+  synced: boolean;
+}
+
+export interface ScanConflict {
+  ticketId: string;
+  scans: {
+    gate: string;
+    deviceId: string;
+    scannedAt: string;
+  }[];
+}
+
+export interface SyncResponse {
+  success: boolean;
+  accepted: number;
+  conflicts: ScanConflict[];
+  message?: string;
+}
@@ -0,0 +1,21 @@
+import kenyaFlag from '@/assets/kenya.png';
+import madagascarFlag from '@/assets/madagascar.png';
+import tanzaniaFlag from '@/assets/tz.png';
+import moroccoFlag from '@/assets/mar.png';
+import mauritaniaFlag from '@/assets/flags/mauritania.png';
+
+// Flags are bundled with the frontend and looked up by the team codes the match catalog uses
+const TEAM_FLAGS: Record<string, string> = {
+  KEN: kenyaFlag,
+  MAD: madagascarFlag,
+  TAN: tanzaniaFlag,
+  TZ: tanzaniaFlag,
+  MAR: moroccoFlag,
+  MTN: mauritaniaFlag
+};
+
+// Plain grey rectangle for teams without a bundled flag
+export const FALLBACK_FLAG = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjQiIGhlaWdodD0iMTYiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PHJlY3Qgd2lkdGg9IjI0IiBoZWlnaHQ9IjE2IiBmaWxsPSIjZjBmMGYwIi8+PC9zdmc+';
+
+export const getTeamFlag = (teamCode: string, flagUrl?: string | null): string =>
+  flagUrl || TEAM_FLAGS[teamCode] || FALLBACK_FLAG;
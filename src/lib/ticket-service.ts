@@ -0,0 +1,224 @@
+import { PAYHERO_CONFIG } from './payhero-config';
+
+import type {
+  AttendeeUpdate,
+  CardCheckout,
+  CardCheckoutRequest,
+  CardCheckoutResponse,
+  CardPayment,
+  CardPaymentResponse,
+  CreateOrderRequest,
+  CreatedOrder,
+  HoldResponse,
+  InventoryResponse,
+  IssueTicketsRequest,
+  OrderLimits,
+  OrderLimitsResponse,
+  OrderResponse,
+  QueuedTicketEmail,
+  TicketEmailRequest,
+  TicketEmailResponse,
+  TicketRecord,
+  TicketResponse,
+  TicketsResponse,
+  TierInventory
+} from './ticket-types';
+
+export class TicketServiceError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'TicketServiceError';
+    this.code = code;
+  }
+}
+
+class TicketService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = PAYHERO_CONFIG.API_BASE_URL;
+  }
+
+  private async request<T extends TicketResponse | TicketsResponse | InventoryResponse | HoldResponse | OrderResponse | OrderLimitsResponse | CardCheckoutResponse>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...init?.headers
+      }
+    });
+
+    let data: T;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new TicketServiceError('INVALID_RESPONSE', `Invalid response from ticket service (${response.status})`);
+    }
+
+    if (!response.ok || !data.success) {
+      throw new TicketServiceError(
+        data.error?.code || 'TICKET_REQUEST_FAILED',
+        data.message || data.error?.message || 'Ticket request failed'
+      );
+    }
+
+    return data;
+  }
+
+  private async requestTicket(path: string, init?: RequestInit): Promise<TicketRecord> {
+    const data = await this.request<TicketResponse>(path, init);
+    if (!data.ticket) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Ticket missing from response');
+    }
+    return data.ticket;
+  }
+
+  /**
+   * Ask the backend to issue the tickets for a payment, one per person in the order.
+   * The backend confirms the payment with PayHero, and that it was made for the order,
+   * before allocating seats.
+   */
+  async issueTickets({ reference, holdReference, orderToken, holderName, holderEmail }: IssueTicketsRequest): Promise<TicketRecord[]> {
+    const data = await this.request<TicketsResponse>('/api/tickets', {
+      method: 'POST',
+      body: JSON.stringify({
+        reference,
+        hold_reference: holdReference,
+        order_token: orderToken,
+        holder_name: holderName,
+        holder_email: holderEmail
+      })
+    });
+    if (!data.tickets?.length) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Tickets missing from response');
+    }
+    return data.tickets;
+  }
+
+  /**
+   * Start paying for an order by card, creating the order and its hold if needed.
+   * Redirect the buyer to `checkoutUrl`: card details are entered on PayHero's page,
+   * never ours, and PayHero sends the buyer back to /payment/return.
+   */
+  async startCardCheckout({ matchId, items, phoneNumber, customerName, customerEmail }: CardCheckoutRequest): Promise<CardCheckout> {
+    const data = await this.request<CardCheckoutResponse>('/api/payments/card/checkout', {
+      method: 'POST',
+      body: JSON.stringify({
+        match_id: matchId,
+        items: items.map((item) => ({ ticket_type: item.ticketType, quantity: item.quantity })),
+        phone_number: phoneNumber,
+        customer_name: customerName,
+        customer_email: customerEmail
+      })
+    });
+    if (!data.reference || !data.checkout_url || !data.order) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Checkout missing from response');
+    }
+    return { reference: data.reference, checkoutUrl: data.checkout_url, order: data.order };
+  }
+
+  /**
+   * Confirm an order's card payment once the buyer is back from the hosted checkout,
+   * with the order token PayHero sends them back with. The backend checks it with
+   * PayHero and returns the order's tickets once it succeeded.
+   */
+  async confirmCardPayment(reference: string, orderToken: string): Promise<{ payment: CardPayment; tickets: TicketRecord[] }> {
+    const data = await this.request<CardPaymentResponse>('/api/payments/card/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ reference, order_token: orderToken })
+    });
+    if (!data.payment) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Payment missing from response');
+    }
+    return { payment: data.payment, tickets: data.tickets || [] };
+  }
+
+  /**
+   * Name the person a ticket admits. Fails with EDIT_CLOSED once the cutoff before kickoff has passed.
+   */
+  async updateAttendee(ticketId: string, { accessToken, name, idNumber, phone }: AttendeeUpdate): Promise<TicketRecord> {
+    return this.requestTicket(`/api/tickets/${encodeURIComponent(ticketId)}/attendee`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        access_token: accessToken,
+        name,
+        id_number: idNumber,
+        phone
+      })
+    });
+  }
+
+  /**
+   * Email a ticket, with its PDF attached, to the address it was bought with. The
+   * backend queues the email and retries it if sending fails.
+   */
+  async emailTicket(ticketId: string, { accessToken }: TicketEmailRequest): Promise<QueuedTicketEmail> {
+    const data = await this.request<TicketEmailResponse>(`/api/tickets/${encodeURIComponent(ticketId)}/email`, {
+      method: 'POST',
+      body: JSON.stringify({ access_token: accessToken })
+    });
+    if (!data.email) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Email missing from response');
+    }
+    return data.email;
+  }
+
+  /**
+   * Create an order and hold its tickets before sending the STK push.
+   * Fails with SOLD_OUT if a tier does not have enough left, or with
+   * ORDER_LIMIT_EXCEEDED / PHONE_LIMIT_EXCEEDED when a purchase cap is hit. The backend
+   * picks the order's reference, and returns the order token to pay for it with.
+   */
+  async createOrder({ matchId, items, phoneNumber, provider, customerName, customerEmail }: CreateOrderRequest): Promise<CreatedOrder> {
+    const data = await this.request<OrderResponse>('/api/orders', {
+      method: 'POST',
+      body: JSON.stringify({
+        match_id: matchId,
+        items: items.map((item) => ({ ticket_type: item.ticketType, quantity: item.quantity })),
+        phone_number: phoneNumber,
+        provider,
+        customer_name: customerName,
+        customer_email: customerEmail
+      })
+    });
+    if (!data.order || !data.order_token) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Order missing from response');
+    }
+    return { order: data.order, orderToken: data.order_token };
+  }
+
+  /**
+   * Most tickets one order, and one phone number, may buy
+   */
+  async getOrderLimits(): Promise<OrderLimits> {
+    const data = await this.request<OrderLimitsResponse>('/api/orders/limits');
+    if (!data.limits) {
+      throw new TicketServiceError('INVALID_RESPONSE', 'Limits missing from response');
+    }
+    return data.limits;
+  }
+
+  /**
+   * Give an order's held tickets back when the payment did not go through.
+   * `orderToken` is the token the order was created with.
+   */
+  async releaseHold(reference: string, orderToken: string): Promise<void> {
+    await this.request<HoldResponse>(`/api/holds/${encodeURIComponent(reference)}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ order_token: orderToken })
+    });
+  }
+
+  /**
+   * Tickets left per tier for a match
+   */
+  async getInventory(matchId: string): Promise<TierInventory[]> {
+    const data = await this.request<InventoryResponse>(`/api/matches/${encodeURIComponent(matchId)}/inventory`);
+    return data.tiers || [];
+  }
+}
+
+export const ticketService = new TicketService();
@@ -0,0 +1,205 @@
+import type { PaymentProvider } from './payhero-config';
+import type { PaymentState } from './payment-state';
+
+// Ticket records as issued by the backend
+export interface TicketRecord {
+  ticketId: string;
+  reference: string;
+  matchId: string;
+  matchDate: string;
+  matchTime: string;
+  teamA: string;
+  teamB: string;
+  venue: string;
+  ticketType: string;
+  quantity: number;
+  totalAmount: string;
+  holderEmail: string;
+  holderName: string;
+  gate: string;
+  section: string;
+  row: string;
+  seat: string;
+  gateOpenTime: string;
+  issuedAt: string;
+  // Signed token encoded in the ticket QR code
+  qrToken: string;
+  // Person the ticket admits; until named, the buyer (holderName)
+  attendeeName: string | null;
+  attendeeIdNumber: string | null;
+  attendeePhone: string | null;
+  // Last moment the attendee can be changed
+  attendeeEditableUntil?: string;
+  // Lets the buyer change the ticket. Only on tickets returned to their buyer
+  accessToken?: string;
+}
+
+export interface AttendeeUpdate {
+  // The ticket's accessToken
+  accessToken: string;
+  name: string;
+  idNumber?: string;
+  phone?: string;
+}
+
+// Always sent to the address the ticket was bought with
+export interface TicketEmailRequest {
+  // The ticket's accessToken
+  accessToken: string;
+}
+
+// An email queued by the backend, which sends it in the background
+export interface QueuedTicketEmail {
+  id: number;
+  recipient: string;
+  status: 'queued' | 'sent' | 'failed';
+}
+
+// Issues every ticket in the payment's order
+export interface IssueTicketsRequest {
+  // PayHero's reference for the payment
+  reference: string;
+  // The order's reference, which is also its hold's
+  holdReference: string;
+  // Returned when the order was created
+  orderToken: string;
+  holderName: string;
+  holderEmail: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface TicketResponse extends ApiResponse {
+  ticket?: TicketRecord;
+}
+
+export interface TicketEmailResponse extends TicketResponse {
+  email?: QueuedTicketEmail;
+}
+
+export interface TicketsResponse extends ApiResponse {
+  tickets?: TicketRecord[];
+}
+
+// Tickets set aside while a payment is in flight
+export interface TicketHold {
+  reference: string;
+  matchId: string;
+  items: { tier: string; quantity: number }[];
+  quantity: number;
+  status: 'active' | 'converted' | 'released' | 'expired';
+  expiresAt: string;
+}
+
+export interface HoldResponse extends ApiResponse {
+  hold?: TicketHold;
+}
+
+// One line of an order: a ticket type and how many people it admits
+export interface OrderItem {
+  ticketType: string;
+  quantity: number;
+}
+
+export interface PricedOrderItem extends OrderItem {
+  unitPrice: number;
+}
+
+// Tickets for several tiers of a match, paid for with one STK push
+export interface TicketOrder {
+  reference: string;
+  matchId: string;
+  items: PricedOrderItem[];
+  quantity: number;
+  totalAmount: number;
+  status: 'pending' | 'paid';
+  createdAt: string;
+}
+
+export interface CreateOrderRequest {
+  matchId: string;
+  items: OrderItem[];
+  phoneNumber: string;
+  // The wallet the STK push will go to, which the number must belong to
+  provider: PaymentProvider;
+  customerName: string;
+  customerEmail: string;
+}
+
+// A new order, and the token that proves it is the buyer's. Paying for the order and
+// getting its tickets take both.
+export interface CreatedOrder {
+  order: TicketOrder;
+  orderToken: string;
+}
+
+export interface OrderResponse extends ApiResponse {
+  order?: TicketOrder;
+  order_token?: string;
+}
+
+// An order paid by card on PayHero's hosted checkout, which the buyer is sent to
+export interface CardCheckoutRequest {
+  matchId: string;
+  items: OrderItem[];
+  // The buyer's phone number, which the per-phone cap counts the order against
+  phoneNumber: string;
+  customerName: string;
+  customerEmail: string;
+}
+
+export interface CardCheckout {
+  // PayHero's reference for the payment
+  reference: string;
+  checkoutUrl: string;
+  order: TicketOrder;
+}
+
+export interface CardCheckoutResponse extends ApiResponse {
+  reference?: string;
+  checkout_url?: string;
+  order?: TicketOrder;
+}
+
+// An order's card payment as confirmed with PayHero when the buyer comes back
+export interface CardPayment {
+  reference: string;
+  transaction_id: string | null;
+  amount: number;
+  state: PaymentState;
+}
+
+// `tickets` is empty until the payment has succeeded
+export interface CardPaymentResponse extends TicketsResponse {
+  payment?: CardPayment;
+}
+
+export interface OrderLimits {
+  maxTicketsPerOrder: number;
+  maxTicketsPerPhone: number;
+}
+
+export interface OrderLimitsResponse extends ApiResponse {
+  limits?: OrderLimits;
+}
+
+// Stock for one tier of a match
+export interface TierInventory {
+  type: string;
+  capacity: number;
+  sold: number;
+  held: number;
+  available: number;
+}
+
+export interface InventoryResponse extends ApiResponse {
+  matchId?: string;
+  tiers?: TierInventory[];
+}
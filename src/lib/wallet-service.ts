@@ -0,0 +1,152 @@
+import { PAYHERO_CONFIG } from './payhero-config';
+
+import type { TicketRecord } from './ticket-types';
+import type {
+  RecoveredPayment,
+  WalletCodeResponse,
+  WalletRecoveryResponse,
+  WalletSession,
+  WalletSessionResponse,
+  WalletTicketResponse,
+  WalletTicketsResponse
+} from './wallet-types';
+
+const SESSION_KEY = 'chan-wallet-session';
+
+export class WalletServiceError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'WalletServiceError';
+    this.code = code;
+  }
+}
+
+class WalletService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = PAYHERO_CONFIG.API_BASE_URL;
+  }
+
+  // Sessions live for the browser tab only
+  getSession(): WalletSession | null {
+    try {
+      const session: WalletSession | null = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null');
+      if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+        return session;
+      }
+    } catch (e) {
+      // Fall through and treat a corrupt session as signed out
+    }
+    sessionStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+
+  signOut(): void {
+    sessionStorage.removeItem(SESSION_KEY);
+  }
+
+  private async request<T extends WalletCodeResponse | WalletSessionResponse | WalletTicketsResponse | WalletTicketResponse | WalletRecoveryResponse>(
+    path: string,
+    init?: RequestInit
+  ): Promise<T> {
+    const session = this.getSession();
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...(session ? { 'Authorization': `Bearer ${session.token}` } : {}),
+        ...init?.headers
+      }
+    });
+
+    let data: T;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new WalletServiceError('INVALID_RESPONSE', `Invalid response from ticket wallet (${response.status})`);
+    }
+
+    if (response.status === 401 && session) {
+      this.signOut();
+    }
+
+    if (!response.ok || !data.success) {
+      throw new WalletServiceError(
+        data.error?.code || 'WALLET_REQUEST_FAILED',
+        data.message || data.error?.message || 'Ticket wallet request failed'
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Text a sign-in code to the phone number the tickets were bought with.
+   * Resolves with the number in 2547XXXXXXXX form, to verify the code against.
+   */
+  async requestCode(phoneNumber: string): Promise<{ phoneNumber: string; expiresAt: string }> {
+    const data = await this.request<WalletCodeResponse>('/api/wallet/code', {
+      method: 'POST',
+      body: JSON.stringify({ phone_number: phoneNumber })
+    });
+    if (!data.phone_number || !data.expires_at) {
+      throw new WalletServiceError('INVALID_RESPONSE', 'Phone number missing from response');
+    }
+    return { phoneNumber: data.phone_number, expiresAt: data.expires_at };
+  }
+
+  async verifyCode(phoneNumber: string, code: string): Promise<WalletSession> {
+    const data = await this.request<WalletSessionResponse>('/api/wallet/verify', {
+      method: 'POST',
+      body: JSON.stringify({ phone_number: phoneNumber, code })
+    });
+    if (!data.session) {
+      throw new WalletServiceError('INVALID_RESPONSE', 'Session missing from response');
+    }
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(data.session));
+    return data.session;
+  }
+
+  /**
+   * Every ticket bought from the signed-in phone number, across matches
+   */
+  async listTickets(): Promise<TicketRecord[]> {
+    const data = await this.request<WalletTicketsResponse>('/api/wallet/tickets');
+    return data.tickets || [];
+  }
+
+  /**
+   * Text a ticket to the signed-in phone number again
+   */
+  async resendTicket(ticketId: string): Promise<TicketRecord> {
+    const data = await this.request<WalletTicketResponse>(`/api/wallet/tickets/${encodeURIComponent(ticketId)}/resend`, {
+      method: 'POST'
+    });
+    if (!data.ticket) {
+      throw new WalletServiceError('INVALID_RESPONSE', 'Ticket missing from response');
+    }
+    return data.ticket;
+  }
+
+  /**
+   * Get back the tickets of a payment from the signed-in phone number whose buyer never
+   * received them, from its M-PESA receipt code or CHAN... order reference. The backend
+   * checks the payment with PayHero again and issues its tickets if it was paid.
+   */
+  async recoverTickets(code: string): Promise<{ payment: RecoveredPayment; tickets: TicketRecord[] }> {
+    const data = await this.request<WalletRecoveryResponse>('/api/payments/recover', {
+      method: 'POST',
+      body: JSON.stringify({ code })
+    });
+    if (!data.payment || !data.tickets?.length) {
+      throw new WalletServiceError('INVALID_RESPONSE', 'Tickets missing from response');
+    }
+    return { payment: data.payment, tickets: data.tickets };
+  }
+}
+
+export const walletService = new WalletService();
@@ -0,0 +1,47 @@
+import type { TicketRecord } from './ticket-types';
+
+// Signed in with a code texted to the phone number the tickets were bought with
+export interface WalletSession {
+  token: string;
+  phoneNumber: string;
+  expiresAt: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  message?: string;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface WalletCodeResponse extends ApiResponse {
+  phone_number?: string;
+  expires_at?: string;
+}
+
+export interface WalletSessionResponse extends ApiResponse {
+  session?: WalletSession;
+}
+
+export interface WalletTicketsResponse extends ApiResponse {
+  tickets?: TicketRecord[];
+}
+
+export interface WalletTicketResponse extends ApiResponse {
+  ticket?: TicketRecord;
+}
+
+// A payment whose tickets were recovered
+export interface RecoveredPayment {
+  reference: string;
+  transaction_id: string | null;
+  receipt: string | null;
+  amount: number;
+  state: string;
+}
+
+export interface WalletRecoveryResponse extends WalletTicketsResponse {
+  payment?: RecoveredPayment;
+}
@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Archive, Loader2, LogOut, Pencil, Plus, RotateCcw, Ticket, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import TopBar from "@/components/TopBar";
+import MatchFormDialog from "@/components/admin/MatchFormDialog";
+import TierFormDialog from "@/components/admin/TierFormDialog";
+import { adminService, AdminServiceError } from "@/lib/admin-service";
+import type { AdminMatch, AdminTicketTier, MatchInput, TierInput } from "@/lib/admin-types";
+import { getTeamFlag } from "@/lib/team-flags";
+
+const ADMIN_MATCHES_KEY = ["admin", "matches"];
+
+const formatSaleWindow = (tier: AdminTicketTier) => {
+  const format = (value: string) => new Date(value).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+  if (tier.saleStartsAt && tier.saleEndsAt) {
+    return `${format(tier.saleStartsAt)} – ${format(tier.saleEndsAt)}`;
+  }
+  if (tier.saleStartsAt) {
+    return `From ${format(tier.saleStartsAt)}`;
+  }
+  if (tier.saleEndsAt) {
+    return `Until ${format(tier.saleEndsAt)}`;
+  }
+  return "Always";
+};
+
+const AdminLogin = ({ onLogin }: { onLogin: () => void }) => {
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await adminService.login(password);
+      onLogin();
+    } catch (error) {
+      toast({
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : "Could not log in",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto">
+      <CardHeader>
+        <CardTitle>Admin login</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="admin-password">Password</Label>
+            <Input
+              id="admin-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={!password || isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Log in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isLoggedIn, setIsLoggedIn] = useState(() => !!adminService.getSession());
+  const [matchDialog, setMatchDialog] = useState<{ open: boolean; match: AdminMatch | null }>({ open: false, match: null });
+  const [tiersMatchId, setTiersMatchId] = useState<string | null>(null);
+  const [tierDialog, setTierDialog] = useState<{ open: boolean; tier: AdminTicketTier | null }>({ open: false, tier: null });
+
+  const { data: matches = [], isLoading } = useQuery({
+    queryKey: ADMIN_MATCHES_KEY,
+    queryFn: () => adminService.listMatches(),
+    enabled: isLoggedIn
+  });
+
+  const tiersMatch = matches.find((match) => match.id === tiersMatchId) || null;
+
+  const handleError = (error: unknown) => {
+    if (error instanceof AdminServiceError && error.code === "UNAUTHORIZED") {
+      setIsLoggedIn(false);
+    }
+    toast({
+      title: "Update Failed",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive"
+    });
+  };
+
+  // Admin changes show up on the public pages straight away
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ADMIN_MATCHES_KEY });
+    queryClient.invalidateQueries({ queryKey: ["matches"] });
+    queryClient.invalidateQueries({ queryKey: ["inventory"] });
+  };
+
+  const archiveMutation = useMutation({
+    mutationFn: ({ matchId, archived }: { matchId: string; archived: boolean }) =>
+      adminService.setArchived(matchId, archived),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const deleteTierMutation = useMutation({
+    mutationFn: ({ matchId, tierType }: { matchId: string; tierType: string }) =>
+      adminService.deleteTier(matchId, tierType),
+    onSuccess: refresh,
+    onError: handleError
+  });
+
+  const handleSaveMatch = async (input: MatchInput) => {
+    try {
+      if (matchDialog.match) {
+        await adminService.updateMatch(matchDialog.match.id, input);
+      } else {
+        await adminService.createMatch(input);
+      }
+      refresh();
+      setMatchDialog({ open: false, match: null });
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleSaveTier = async (tierType: string, input: TierInput) => {
+    if (!tiersMatch) {
+      return;
+    }
+    try {
+      await adminService.saveTier(tiersMatch.id, tierType, input);
+      refresh();
+      setTierDialog({ open: false, tier: null });
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const handleLogout = () => {
+    adminService.logout();
+    setIsLoggedIn(false);
+    queryClient.removeQueries({ queryKey: ADMIN_MATCHES_KEY });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <TopBar />
+      <div className="max-w-6xl mx-auto px-4 py-4">
+        <div className="flex items-center justify-between gap-3 mb-6">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="h-8 w-8">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <h1 className="text-lg font-semibold">Admin</h1>
+          </div>
+          {isLoggedIn && (
+            <div className="flex gap-2">
+              <Button onClick={() => setMatchDialog({ open: true, match: null })}>
+                <Plus className="h-4 w-4 mr-2" />
+                New match
+              </Button>
+              <Button variant="outline" onClick={handleLogout}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Log out
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!isLoggedIn ? (
+          <AdminLogin onLogin={() => setIsLoggedIn(true)} />
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Kickoff</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Tiers</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">Loading matches...</TableCell>
+                    </TableRow>
+                  )}
+                  {!isLoading && matches.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">No matches yet</TableCell>
+                    </TableRow>
+                  )}
+                  {matches.map((match) => (
+                    <TableRow key={match.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          <img src={getTeamFlag(match.teamA, match.teamAFlagUrl)} alt="" className="w-6 h-4 object-cover rounded" />
+                          {match.teamA} vs {match.teamB}
+                          <img src={getTeamFlag(match.teamB, match.teamBFlagUrl)} alt="" className="w-6 h-4 object-cover rounded" />
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {match.date}, {match.time}
+                        <div className="text-xs text-muted-foreground">Gates {match.gateOpenTime}</div>
+                      </TableCell>
+                      <TableCell>{match.venue}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {match.tiers.map((tier) => (
+                            <Badge key={tier.type} variant="secondary">
+                              {tier.type} · KES {tier.price} · {tier.inventory?.sold ?? 0}/{tier.capacity}
+                            </Badge>
+                          ))}
+                          {match.tiers.length === 0 && <span className="text-xs text-muted-foreground">None</span>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={match.status === "archived" ? "outline" : "default"}>
+                          {match.status === "archived" ? "Archived" : "On sale"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" title="Edit match" onClick={() => setMatchDialog({ open: true, match })}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Ticket tiers" onClick={() => setTiersMatchId(match.id)}>
+                            <Ticket className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={match.status === "archived" ? "Restore match" : "Archive match"}
+                            disabled={archiveMutation.isPending}
+                            onClick={() => archiveMutation.mutate({ matchId: match.id, archived: match.status !== "archived" })}
+                          >
+                            {match.status === "archived" ? <RotateCcw className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <MatchFormDialog
+        open={matchDialog.open}
+        onOpenChange={(open) => setMatchDialog((prev) => ({ ...prev, open }))}
+        match={matchDialog.match}
+        onSubmit={handleSaveMatch}
+      />
+
+      {/* Ticket tiers for one match */}
+      <Dialog open={!!tiersMatch} onOpenChange={(open) => !open && setTiersMatchId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              {tiersMatch ? `${tiersMatch.teamA} vs ${tiersMatch.teamB} tiers` : "Tiers"}
+            </DialogTitle>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tier</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Sold / Capacity</TableHead>
+                <TableHead>Sale window</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiersMatch?.tiers.map((tier) => (
+                <TableRow key={tier.type}>
+                  <TableCell>
+                    <div className="font-medium">{tier.type}</div>
+                    <div className="text-xs text-muted-foreground">{tier.seating.gate}</div>
+                  </TableCell>
+                  <TableCell>KES {tier.price}</TableCell>
+                  <TableCell>
+                    {tier.inventory?.sold ?? 0} / {tier.capacity}
+                    {!!tier.inventory?.held && (
+                      <div className="text-xs text-muted-foreground">{tier.inventory.held} held</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{formatSaleWindow(tier)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="icon" title="Edit tier" onClick={() => setTierDialog({ open: true, tier })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete tier"
+                        disabled={deleteTierMutation.isPending || !!tier.inventory?.sold || !!tier.inventory?.held}
+                        onClick={() => deleteTierMutation.mutate({ matchId: tiersMatch.id, tierType: tier.type })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end">
+            <Button onClick={() => setTierDialog({ open: true, tier: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add tier
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TierFormDialog
+        open={tierDialog.open}
+        onOpenChange={(open) => setTierDialog((prev) => ({ ...prev, open }))}
+        tier={tierDialog.tier}
+        onSubmit={handleSaveTier}
+      />
+    </div>
+  );
+};
+
+export default Admin;
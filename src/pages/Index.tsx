@@ -4,43 +4,26 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, MapPin, Calendar, Clock } from "lucide-react";
+import { Search, MapPin, Calendar, Clock, Ticket } from "lucide-react";
+import { format, isValid, parse } from "date-fns";
 import TopBar from "@/components/TopBar";
 import heroImage from "@/assets/newBanner.png";
 import chanLogo from "@/assets/chann.png";
-import kenyaFlag from "@/assets/kenya.png";
-import madagascarFlag from "@/assets/madagascar.png";
-import tzFlag from "@/assets/tz.png";
-import marFlag from "@/assets/mar.png";
+import { useMatches } from "@/hooks/use-matches";
+import { getTeamFlag } from "@/lib/team-flags";
+
+// "30 Aug 2025" -> "Sat 30 Aug 2025"
+const withWeekday = (date: string) => {
+  const parsed = parse(date, "d MMM yyyy", new Date());
+  return isValid(parsed) ? format(parsed, "EEE d MMM yyyy") : date;
+};
+
 const Index = () => {
   const navigate = useNavigate();
   const [selectedTeam, setSelectedTeam] = useState("");
   const [selectedLocation, setSelectedLocation] = useState("");
 
-  const upcomingMatches = [
-    {
-      id: "1",
-      date: "Sat 30 Aug 2025",
-      homeTeam: "MAD",
-      awayTeam: "MAR",
-      homeFlag: madagascarFlag,
-      awayFlag: marFlag,
-      time: "18:00",
-      venue: "Moi Sports Centre Kasarani",
-      price: 200
-    },
-    // {
-    //   id: "2",
-    //   date: "22 Aug 2025",
-    //   homeTeam: "TAN",
-    //   awayTeam: "MOR",
-    //   homeFlag: tzFlag,
-    //   awayFlag: marFlag,
-    //   time: "20:00",
-    //   venue: "Benjamin Mkapa National Stadium",
-    //   price: 50
-    // },
-  ];
+  const { data: upcomingMatches = [], isLoading, isError } = useMatches();
 
   const handleMatchSelect = (matchId: string) => {
     navigate(`/tickets/${matchId}`);
@@ -167,7 +150,19 @@ const Index = () => {
 
       {/* Upcoming Matches Section - Both Desktop and Mobile */}
       <div className="max-w-6xl mx-auto px-4 py-8 lg:py-16">
-        <h2 className="text-2xl font-bold mb-8 text-start lg:text-left">CHAN FINALS</h2>
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <h2 className="text-2xl font-bold text-start lg:text-left">CHAN FINALS</h2>
+          <Button variant="outline" onClick={() => navigate("/my-tickets")}>
+            <Ticket className="w-4 h-4 mr-2" />
+            My Tickets
+          </Button>
+        </div>
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading matches...</p>
+        )}
+        {isError && (
+          <p className="text-sm text-destructive">We couldn't load matches right now. Please refresh to try again.</p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {upcomingMatches.map((match) => (
             <Card 
@@ -179,7 +174,7 @@ const Index = () => {
                 <div className="bg-gradient-to-br from-card to-muted p-6 space-y-4">
                   
                   <div className="text-center text-2xl font-bold text-foreground">
-                    {match.date}
+                    {withWeekday(match.date)}
                   </div>
                   
                   {/* Horizontal dark line */}
@@ -187,11 +182,11 @@ const Index = () => {
                   
                   <div className="flex items-center justify-between">
                     {/* Home Team */}
-                    <div className="text-xl font-bold text-foreground">{match.homeTeam}</div>
+                    <div className="text-xl font-bold text-foreground">{match.teamA}</div>
                     
                     {/* Home Flag */}
                     <div className="w-12 h-8 rounded overflow-hidden border-2 border-yellow-400">
-                      <img src={match.homeFlag} alt={`${match.homeTeam} Flag`} className="w-full h-full object-cover" />
+                      <img src={getTeamFlag(match.teamA, match.teamAFlagUrl)} alt={`${match.teamA} Flag`} className="w-full h-full object-cover" />
                     </div>
                     
                     {/* Time */}
@@ -201,10 +196,10 @@ const Index = () => {
                     
                     {/* Away Flag */}
                     <div className="w-12 h-8 rounded overflow-hidden border-2 border-gray-300">
-                      <img src={match.awayFlag} alt={`${match.awayTeam} Flag`} className="w-full h-full object-cover" />
+                      <img src={getTeamFlag(match.teamB, match.teamBFlagUrl)} alt={`${match.teamB} Flag`} className="w-full h-full object-cover" />
                     </div>
                     {/* Away Team */}
-                    <div className="text-xl font-bold text-foreground">{match.awayTeam}</div>
+                    <div className="text-xl font-bold text-foreground">{match.teamB}</div>
                   </div>
                   
                   <div className="text-center text-foreground font-medium">
@@ -214,7 +209,7 @@ const Index = () => {
                 
                 <div className="bg-white p-4">
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-600">from Ksh {match.price}</span>
+                    <span className="text-gray-600">from Ksh {Math.min(...match.tiers.map((tier) => tier.price))}</span>
                     <Button 
                       className="bg-primary hover:bg-primary/90 text-white font-semibold px-6 py-2 rounded-full"
                     >
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, LogOut, MessageSquare, Ticket } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import TopBar from "@/components/TopBar";
+import ETicket from "@/components/ETicket";
+import WalletSignIn from "@/components/WalletSignIn";
+import { walletService, WalletServiceError } from "@/lib/wallet-service";
+import type { TicketRecord } from "@/lib/ticket-types";
+
+const WALLET_TICKETS_KEY = ["wallet", "tickets"];
+
+// "My Tickets": every ticket bought from the buyer's phone number, across matches
+const MyTickets = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState(() => walletService.getSession());
+  const [ticketIndex, setTicketIndex] = useState(0);
+  const [showETicket, setShowETicket] = useState(false);
+
+  const { data: tickets = [], isLoading, error, refetch } = useQuery({
+    queryKey: [...WALLET_TICKETS_KEY, session?.phoneNumber],
+    queryFn: async () => {
+      try {
+        return await walletService.listTickets();
+      } catch (e) {
+        // The wallet service has already dropped a session the backend no longer accepts
+        if (e instanceof WalletServiceError && e.code === "UNAUTHORIZED") {
+          setSession(null);
+        }
+        throw e;
+      }
+    },
+    enabled: !!session,
+    retry: false
+  });
+
+  const resendTicket = useMutation({
+    mutationFn: (ticketId: string) => walletService.resendTicket(ticketId),
+    onSuccess: (ticket) => toast({
+      title: "Ticket Sent",
+      description: `Ticket #${ticket.ticketId} has been texted to +${session?.phoneNumber}.`
+    }),
+    onError: (error) => {
+      if (error instanceof WalletServiceError && error.code === "UNAUTHORIZED") {
+        signOut();
+      }
+      toast({
+        title: "Ticket Not Sent",
+        description: error instanceof Error ? error.message : "Could not send the ticket",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const signOut = () => {
+    walletService.signOut();
+    queryClient.removeQueries({ queryKey: WALLET_TICKETS_KEY });
+    setSession(null);
+    setShowETicket(false);
+  };
+
+  const openTicket = (index: number) => {
+    setTicketIndex(index);
+    setShowETicket(true);
+  };
+
+  const updateTicket = (updated: TicketRecord) => {
+    queryClient.setQueryData<TicketRecord[]>([...WALLET_TICKETS_KEY, session?.phoneNumber], (prev = []) => prev.map((ticket) => (
+      ticket.ticketId === updated.ticketId ? updated : ticket
+    )));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <TopBar />
+      <div className="max-w-md mx-auto p-4">
+        <div className="flex items-center gap-3 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold flex-1">My Tickets</h1>
+          {session && (
+            <Button variant="ghost" size="sm" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {!session ? (
+          <WalletSignIn onSignIn={() => setSession(walletService.getSession())} />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading your tickets...
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <p className="text-sm text-red-600">
+                {error instanceof Error ? error.message : "Could not load your tickets"}
+              </p>
+              <Button className="w-full bg-orange-500 hover:bg-orange-600" onClick={() => refetch()}>
+                Try Again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : tickets.length === 0 ? (
+          <Card>
+            <CardContent className="p-4 space-y-3 text-center">
+              <p className="text-sm text-muted-foreground">
+                No tickets were bought with +{session.phoneNumber}. Paid but got no ticket?
+              </p>
+              <Button variant="outline" className="w-full" onClick={() => navigate("/recover")}>
+                Recover Tickets
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {tickets.length === 1 ? "1 ticket" : `${tickets.length} tickets`} bought with +{session.phoneNumber}
+              </p>
+              {tickets.map((ticket, index) => (
+                <div key={ticket.ticketId} className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1 justify-between h-auto py-2"
+                    onClick={() => openTicket(index)}
+                  >
+                    <span className="flex items-center gap-2 text-left">
+                      <Ticket className="w-4 h-4 shrink-0" />
+                      <span>
+                        {ticket.teamA} vs {ticket.teamB} · {ticket.ticketType}
+                        <span className="block text-xs text-muted-foreground">{ticket.matchDate}, {ticket.matchTime}</span>
+                      </span>
+                    </span>
+                    <span className="text-xs text-muted-foreground">#{ticket.ticketId}</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-auto"
+                    title="Text this ticket to me again"
+                    onClick={() => resendTicket.mutate(ticket.ticketId)}
+                    disabled={resendTicket.isPending}
+                  >
+                    {resendTicket.isPending && resendTicket.variables === ticket.ticketId
+                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                      : <MessageSquare className="w-4 h-4" />}
+                    <span className="sr-only">Re-send ticket</span>
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Open a ticket to download it as a PDF or show its QR code at the gate.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {session && tickets.length > 0 && (
+        <ETicket
+          isOpen={showETicket}
+          onClose={() => setShowETicket(false)}
+          ticketData={tickets[Math.min(ticketIndex, tickets.length - 1)]}
+          navigation={tickets.length > 1 ? {
+            index: ticketIndex,
+            total: tickets.length,
+            onPrevious: () => setTicketIndex((index) => Math.max(index - 1, 0)),
+            onNext: () => setTicketIndex((index) => Math.min(index + 1, tickets.length - 1))
+          } : undefined}
+          onTicketChange={updateTicket}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MyTickets;
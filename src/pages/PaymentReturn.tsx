@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CheckCircle, Loader2, Ticket, XCircle } from "lucide-react";
+import TopBar from "@/components/TopBar";
+import ETicket from "@/components/ETicket";
+import { isFinalState } from "@/lib/payment-state";
+import { ticketService } from "@/lib/ticket-service";
+import type { TicketRecord } from "@/lib/ticket-types";
+
+// Checks with the backend every few seconds while PayHero hasn't settled the payment yet
+const CONFIRM_INTERVAL = 3000;
+const MAX_CONFIRM_CHECKS = 10;
+
+// Where PayHero's hosted card checkout sends the buyer back to. Getting here proves
+// nothing, so the payment is confirmed by the backend before any ticket is shown.
+const PaymentReturn = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const order = searchParams.get("order");
+  // The order token the backend put in the return URL, which proves the order is ours
+  const orderToken = searchParams.get("token");
+  const [updatedTickets, setUpdatedTickets] = useState<Record<string, TicketRecord>>({});
+  const [ticketIndex, setTicketIndex] = useState(0);
+  const [showETicket, setShowETicket] = useState(true);
+
+  const queryClient = useQueryClient();
+  const { data, error, isFetching, refetch } = useQuery({
+    queryKey: ["card-payment", order],
+    queryFn: () => ticketService.confirmCardPayment(order as string, orderToken as string),
+    enabled: !!order && !!orderToken,
+    retry: false,
+    refetchInterval: (query) => {
+      const state = query.state.data?.payment.state;
+      return !isFinalState(state) && query.state.dataUpdateCount < MAX_CONFIRM_CHECKS ? CONFIRM_INTERVAL : false;
+    }
+  });
+
+  const state = data?.payment.state;
+  const tickets = (data?.tickets || []).map((ticket) => updatedTickets[ticket.ticketId] || ticket);
+  const checks = queryClient.getQueryState(["card-payment", order])?.dataUpdateCount ?? 0;
+  const gaveUp = !isFinalState(state) && checks >= MAX_CONFIRM_CHECKS;
+
+  const openTicket = (index: number) => {
+    setTicketIndex(index);
+    setShowETicket(true);
+  };
+
+  const renderStatus = () => {
+    if (!order || !orderToken) {
+      return <p className="text-sm text-muted-foreground">This link doesn't name an order.</p>;
+    }
+
+    if (error) {
+      return (
+        <>
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : "Could not confirm your card payment"}
+          </p>
+          <Button className="w-full bg-orange-500 hover:bg-orange-600" onClick={() => refetch()} disabled={isFetching}>
+            {isFetching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Try Again
+          </Button>
+        </>
+      );
+    }
+
+    if (state === "success") {
+      return (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <div>
+              <p className="font-semibold">Payment confirmed</p>
+              <p className="text-muted-foreground">KES {data.payment.amount} · {data.payment.reference}</p>
+            </div>
+          </div>
+          {tickets.map((ticket, index) => (
+            <Button
+              key={ticket.ticketId}
+              variant="outline"
+              className="w-full justify-between"
+              onClick={() => openTicket(index)}
+            >
+              <span className="flex items-center gap-2">
+                <Ticket className="w-4 h-4" />
+                {ticket.teamA} vs {ticket.teamB} · {ticket.ticketType}
+              </span>
+              <span className="text-xs text-muted-foreground">#{ticket.ticketId}</span>
+            </Button>
+          ))}
+        </>
+      );
+    }
+
+    if (state === "failed" || state === "cancelled") {
+      return (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <XCircle className="w-5 h-5 text-red-600" />
+            <p>
+              {state === "cancelled" ? "The card payment was cancelled" : "The card payment did not go through"},
+              so no tickets were issued and you were not charged.
+            </p>
+          </div>
+          <Button className="w-full bg-orange-500 hover:bg-orange-600" onClick={() => navigate("/")}>
+            Back to Matches
+          </Button>
+        </>
+      );
+    }
+
+    if (gaveUp) {
+      return (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Your card payment for order {order} hasn't been confirmed yet. If you were charged, your
+            tickets will be issued as soon as it is, and you can recover them with this reference.
+          </p>
+          <Button className="w-full bg-orange-500 hover:bg-orange-600" onClick={() => refetch()} disabled={isFetching}>
+            {isFetching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Check Again
+          </Button>
+          <Button variant="outline" className="w-full" onClick={() => navigate("/recover")}>
+            Recover Tickets
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Confirming your card payment...
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <TopBar />
+      <div className="max-w-md mx-auto p-4">
+        <div className="flex items-center gap-3 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold">Card Payment</h1>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            {renderStatus()}
+          </CardContent>
+        </Card>
+      </div>
+
+      {tickets.length > 0 && (
+        <ETicket
+          isOpen={showETicket}
+          onClose={() => setShowETicket(false)}
+          ticketData={tickets[ticketIndex]}
+          navigation={tickets.length > 1 ? {
+            index: ticketIndex,
+            total: tickets.length,
+            onPrevious: () => setTicketIndex((index) => Math.max(index - 1, 0)),
+            onNext: () => setTicketIndex((index) => Math.min(index + 1, tickets.length - 1))
+          } : undefined}
+          onTicketChange={(updated) => setUpdatedTickets((prev) => ({ ...prev, [updated.ticketId]: updated }))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PaymentReturn;
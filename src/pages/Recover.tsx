@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Loader2, LogOut, Ticket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import TopBar from "@/components/TopBar";
+import ETicket from "@/components/ETicket";
+import WalletSignIn from "@/components/WalletSignIn";
+import { walletService, WalletServiceError } from "@/lib/wallet-service";
+import type { TicketRecord } from "@/lib/ticket-types";
+import type { RecoveredPayment } from "@/lib/wallet-types";
+
+// "I paid but got no ticket": once signed in with a code texted to the phone number the
+// payment was made with, finds it from its M-PESA receipt code or CHAN reference and
+// shows its tickets
+const Recover = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [session, setSession] = useState(() => walletService.getSession());
+  const [code, setCode] = useState(searchParams.get("code") || "");
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [payment, setPayment] = useState<RecoveredPayment | null>(null);
+  const [tickets, setTickets] = useState<TicketRecord[]>([]);
+  const [ticketIndex, setTicketIndex] = useState(0);
+  const [showETicket, setShowETicket] = useState(false);
+  const { toast } = useToast();
+
+  const handleRecover = async () => {
+    if (!code.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your M-PESA receipt code or CHAN reference",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const recovered = await walletService.recoverTickets(code);
+      setPayment(recovered.payment);
+      setTickets(recovered.tickets);
+      setTicketIndex(0);
+      setShowETicket(true);
+    } catch (e) {
+      setPayment(null);
+      setTickets([]);
+      // The wallet service has already dropped a session the backend no longer accepts
+      if (e instanceof WalletServiceError && e.code === "UNAUTHORIZED") {
+        setSession(null);
+        return;
+      }
+      setError(e instanceof Error ? e.message : "Could not look up your payment");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const signOut = () => {
+    walletService.signOut();
+    setSession(null);
+    setPayment(null);
+    setTickets([]);
+    setError(null);
+  };
+
+  const openTicket = (index: number) => {
+    setTicketIndex(index);
+    setShowETicket(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <TopBar />
+      <div className="max-w-md mx-auto p-4">
+        <div className="flex items-center gap-3 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="h-8 w-8">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold flex-1">Recover Tickets</h1>
+          {session && (
+            <Button variant="ghost" size="sm" onClick={signOut}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          )}
+        </div>
+
+        {!session ? (
+          <WalletSignIn
+            onSignIn={() => setSession(walletService.getSession())}
+            defaultPhoneNumber={searchParams.get("phone") || ""}
+            description="Paid but didn't get your ticket? Enter the phone number you paid with. We'll text you a code, then look up your payment."
+            submitLabel="Continue"
+          />
+        ) : (
+          <Card className="mb-6">
+            <CardContent className="p-4 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Enter the receipt code from the M-PESA message for your payment from
+                +{session.phoneNumber} (e.g. SAE3YULR0Y), or your CHAN reference.
+              </p>
+              <div>
+                <Label htmlFor="recover-code" className="text-sm">M-PESA Receipt Code or CHAN Reference</Label>
+                <Input
+                  id="recover-code"
+                  placeholder="SAE3YULR0Y"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="mt-1 uppercase"
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                className="w-full bg-orange-500 hover:bg-orange-600"
+                onClick={handleRecover}
+                disabled={isSearching}
+              >
+                {isSearching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isSearching ? "Checking Payment..." : "Find My Tickets"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {payment && tickets.length > 0 && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="text-sm">
+                <p className="font-semibold">Payment confirmed</p>
+                <p className="text-muted-foreground">
+                  KES {payment.amount}{payment.receipt ? ` · M-PESA ${payment.receipt}` : ""} · {payment.reference}
+                </p>
+              </div>
+              {tickets.map((ticket, index) => (
+                <Button
+                  key={ticket.ticketId}
+                  variant="outline"
+                  className="w-full justify-between"
+                  onClick={() => openTicket(index)}
+                >
+                  <span className="flex items-center gap-2">
+                    <Ticket className="w-4 h-4" />
+                    {ticket.teamA} vs {ticket.teamB} · {ticket.ticketType}
+                  </span>
+                  <span className="text-xs text-muted-foreground">#{ticket.ticketId}</span>
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {tickets.length > 0 && (
+        <ETicket
+          isOpen={showETicket}
+          onClose={() => setShowETicket(false)}
+          ticketData={tickets[ticketIndex]}
+          navigation={tickets.length > 1 ? {
+            index: ticketIndex,
+            total: tickets.length,
+            onPrevious: () => setTicketIndex((index) => Math.max(index - 1, 0)),
+            onNext: () => setTicketIndex((index) => Math.min(index + 1, tickets.length - 1))
+          } : undefined}
+          onTicketChange={(updated) => setTickets((prev) => prev.map((ticket) => (
+            ticket.ticketId === updated.ticketId ? updated : ticket
+          )))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Recover;
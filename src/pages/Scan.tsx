@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import jsQR from "jsqr";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Camera, CameraOff, CheckCircle, Download, RefreshCw, Wifi, WifiOff, XCircle, AlertTriangle } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import TopBar from "@/components/TopBar";
+import { scanService, type ScanOutcome } from "@/lib/scan-service";
+import { countManifestTickets } from "@/lib/scan-db";
+import type { ScanConflict } from "@/lib/scan-types";
+
+const SETTINGS_KEY = "chan-gate-scanner-settings";
+const SYNC_INTERVAL = 30000; // 30 seconds
+const RESCAN_DELAY = 2500; // Ignore the same QR code for 2.5 seconds
+
+const resultStyles = {
+  ADMITTED: { label: "Admit", className: "bg-green-600 text-white", icon: CheckCircle },
+  DUPLICATE: { label: "Already scanned", className: "bg-red-600 text-white", icon: XCircle },
+  INVALID: { label: "Invalid ticket", className: "bg-red-600 text-white", icon: XCircle },
+  WRONG_MATCH: { label: "Wrong match", className: "bg-yellow-500 text-black", icon: AlertTriangle },
+};
+
+const loadSettings = () => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+const Scan = () => {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastTokenRef = useRef<{ token: string; at: number } | null>(null);
+  const busyRef = useRef(false);
+
+  const [matchId, setMatchId] = useState<string>(loadSettings().matchId || "1");
+  const [gate, setGate] = useState<string>(loadSettings().gate || "");
+  const [gateKey, setGateKey] = useState<string>(loadSettings().gateKey || "");
+  const [manifestCount, setManifestCount] = useState(0);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastOutcome, setLastOutcome] = useState<ScanOutcome | null>(null);
+  const [conflicts, setConflicts] = useState<ScanConflict[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ matchId, gate, gateKey }));
+  }, [matchId, gate, gateKey]);
+
+  useEffect(() => {
+    countManifestTickets(matchId).then(setManifestCount).catch(() => setManifestCount(0));
+    scanService.countPendingScans().then(setPendingCount).catch(() => setPendingCount(0));
+  }, [matchId]);
+
+  const syncScans = useCallback(async () => {
+    if (!gateKey || !navigator.onLine) {
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const result = await scanService.syncScans(gateKey);
+      if (result.conflicts.length > 0) {
+        setConflicts(prev => [
+          ...result.conflicts,
+          ...prev.filter(existing => !result.conflicts.some(conflict => conflict.ticketId === existing.ticketId))
+        ]);
+      }
+    } catch (error) {
+      console.error("Scan sync error:", error);
+    } finally {
+      setIsSyncing(false);
+      setPendingCount(await scanService.countPendingScans());
+    }
+  }, [gateKey]);
+
+  // Sync queued scans when connectivity comes back, and periodically while online
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncScans();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const interval = setInterval(syncScans, SYNC_INTERVAL);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(interval);
+    };
+  }, [syncScans]);
+
+  const handleDownloadManifest = async () => {
+    if (!matchId || !gateKey) {
+      toast({
+        title: "Missing Information",
+        description: "Enter the match ID and gate access key first",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsDownloading(true);
+    try {
+      const count = await scanService.downloadManifest(matchId, gateKey);
+      setManifestCount(count);
+      toast({
+        title: "Tickets Downloaded",
+        description: `${count} tickets stored on this device`,
+      });
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not download the ticket list",
+        variant: "destructive"
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleToken = useCallback(async (token: string) => {
+    const now = Date.now();
+    const last = lastTokenRef.current;
+    if (busyRef.current || (last && last.token === token && now - last.at < RESCAN_DELAY)) {
+      return;
+    }
+
+    busyRef.current = true;
+    lastTokenRef.current = { token, at: now };
+    try {
+      const outcome = await scanService.scan(token, matchId, gate);
+      setLastOutcome(outcome);
+      setPendingCount(await scanService.countPendingScans());
+      if (navigator.vibrate) {
+        navigator.vibrate(outcome.result === "ADMITTED" ? 100 : [100, 50, 100]);
+      }
+    } catch (error) {
+      console.error("Scan error:", error);
+    } finally {
+      busyRef.current = false;
+    }
+  }, [matchId, gate]);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  const startCamera = async () => {
+    if (!gate) {
+      toast({
+        title: "Gate Required",
+        description: "Enter the gate you are scanning at",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" }
+      });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsScanning(true);
+    } catch (error) {
+      toast({
+        title: "Camera Unavailable",
+        description: "Allow camera access to scan tickets",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Decode frames from the camera while scanning
+  useEffect(() => {
+    if (!isScanning) {
+      return;
+    }
+
+    let frame: number;
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          if (code?.data) {
+            handleToken(code.data);
+          }
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isScanning, handleToken]);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const outcomeStyle = lastOutcome ? resultStyles[lastOutcome.result] : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <TopBar />
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/")}
+            className="h-8 w-8"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold">Gate Scanner</h1>
+          <div className="ml-auto flex items-center gap-2 text-sm">
+            {isOnline ? (
+              <Wifi className="h-4 w-4 text-green-600" />
+            ) : (
+              <WifiOff className="h-4 w-4 text-red-600" />
+            )}
+            <span className="text-muted-foreground">{isOnline ? "Online" : "Offline"}</span>
+          </div>
+        </div>
+
+        {/* Gate Setup */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Gate setup</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="match-id" className="text-sm">Match ID</Label>
+                <Input
+                  id="match-id"
+                  value={matchId}
+                  onChange={(e) => setMatchId(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="gate" className="text-sm">Gate</Label>
+                <Input
+                  id="gate"
+                  placeholder="Gate 1"
+                  value={gate}
+                  onChange={(e) => setGate(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="gate-key" className="text-sm">Access Key</Label>
+              <Input
+                id="gate-key"
+                type="password"
+                value={gateKey}
+                onChange={(e) => setGateKey(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <Button
+              onClick={handleDownloadManifest}
+              disabled={isDownloading || !isOnline}
+              variant="outline"
+              className="w-full"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {isDownloading ? "Downloading..." : "Download Ticket List"}
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              {manifestCount} tickets stored on this device for match {matchId}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Scanner */}
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="relative bg-black rounded-lg overflow-hidden aspect-square">
+              <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+              <canvas ref={canvasRef} className="hidden" />
+              {!isScanning && (
+                <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">
+                  Camera is off
+                </div>
+              )}
+            </div>
+
+            <Button
+              onClick={isScanning ? stopCamera : startCamera}
+              className="w-full bg-orange-500 hover:bg-orange-600 h-12"
+            >
+              {isScanning ? (
+                <>
+                  <CameraOff className="w-4 h-4 mr-2" />
+                  Stop Scanning
+                </>
+              ) : (
+                <>
+                  <Camera className="w-4 h-4 mr-2" />
+                  Start Scanning
+                </>
+              )}
+            </Button>
+
+            {lastOutcome && outcomeStyle && (
+              <div className={`p-4 rounded-lg ${outcomeStyle.className}`}>
+                <div className="flex items-center gap-2">
+                  <outcomeStyle.icon className="w-6 h-6" />
+                  <p className="text-xl font-bold">{outcomeStyle.label}</p>
+                </div>
+                {lastOutcome.ticket && (
+                  <p className="text-sm mt-1">
+                    #{lastOutcome.ticket.ticketId} · {lastOutcome.ticket.ticketType} · {lastOutcome.ticket.attendeeName || lastOutcome.ticket.holderName}
+                  </p>
+                )}
+                {lastOutcome.result === "ADMITTED" && lastOutcome.ticket?.attendeeName && (
+                  <div className="mt-2 p-2 rounded-md bg-black/20 text-sm">
+                    <p className="font-semibold">Check ID: {lastOutcome.ticket.attendeeName}</p>
+                    {lastOutcome.ticket.attendeeIdNumber && <p>ID number {lastOutcome.ticket.attendeeIdNumber}</p>}
+                    {lastOutcome.ticket.attendeePhone && <p>Phone {lastOutcome.ticket.attendeePhone}</p>}
+                  </div>
+                )}
+                {lastOutcome.previousScan && (
+                  <p className="text-sm mt-1">
+                    First scanned at {lastOutcome.previousScan.gate} on {new Date(lastOutcome.previousScan.scannedAt).toLocaleTimeString()}
+                  </p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Sync Status */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">
+                {pendingCount} scan{pendingCount === 1 ? "" : "s"} waiting to sync
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={syncScans}
+                disabled={isSyncing || !isOnline || !gateKey}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+                Sync
+              </Button>
+            </div>
+
+            {conflicts.length > 0 && (
+              <div className="border-t pt-3 space-y-2">
+                <h4 className="font-semibold text-sm text-red-600">Scanned at more than one gate</h4>
+                {conflicts.map(conflict => (
+                  <div key={conflict.ticketId} className="bg-muted p-2 rounded-md text-xs">
+                    <p className="font-semibold">#{conflict.ticketId}</p>
+                    {conflict.scans.map(scan => (
+                      <p key={`${scan.deviceId}-${scan.scannedAt}`} className="text-muted-foreground">
+                        {scan.gate} · {new Date(scan.scannedAt).toLocaleTimeString()}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Scan;
@@ -6,40 +6,46 @@ import QRCode from "qrcode";
 import { ArrowLeft, Download, Mail, Share2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import TopBar from "@/components/TopBar";
+import type { TicketRecord } from "@/lib/ticket-types";
+import { ticketService } from "@/lib/ticket-service";
+import { useMatch } from "@/hooks/use-matches";
 
 const TicketConfirmation = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { 
+    ticket,
+    matchId,
     ticketType = "Ordinary", 
     customerName = "Curtis Karithi",
-    customerEmail = "",
     quantity = 1,
     price = "KES 250",
     paymentMethod = "mpesa"
-  } = location.state || {};
+  } = (location.state || {}) as {
+    ticket?: TicketRecord;
+    matchId?: string;
+    ticketType?: string;
+    customerName?: string;
+    quantity?: number;
+    price?: string;
+    paymentMethod?: string;
+  };
   
   const [qrCodeUrl, setQrCodeUrl] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const { data: match } = useMatch(ticket?.matchId || matchId);
+  const matchTitle = match ? `${match.teamA} vs ${match.teamB}` : "CHAN Match";
+  const matchWhen = match ? `${match.date}, ${match.time}` : "";
 
   useEffect(() => {
-    // Generate QR code
+    // Only tickets issued by the backend carry a signed token worth encoding
+    if (!ticket?.qrToken) {
+      return;
+    }
+
     const generateQR = async () => {
       try {
-        const ticketData = {
-          ticketNo: "#96B01605",
-          match: "Kenya Vs Mauritania",
-          venue: "Moi Sports Centre Kasarani",
-          type: ticketType,
-          attendee: customerName,
-          quantity: quantity,
-          price: price,
-          section: "17-Lower",
-          gate: "Gate 1",
-          row: "10"
-        };
-        
-        const qrString = JSON.stringify(ticketData);
-        const url = await QRCode.toDataURL(qrString);
+        const url = await QRCode.toDataURL(ticket.qrToken);
         setQrCodeUrl(url);
       } catch (err) {
         console.error("Failed to generate QR code:", err);
@@ -47,22 +53,44 @@ const TicketConfirmation = () => {
     };
 
     generateQR();
-  }, [ticketType, customerName, quantity, price]);
+  }, [ticket]);
 
-  const handleEmailTicket = () => {
-    if (!customerEmail) {
+  const handleEmailTicket = async () => {
+    // Only tickets issued by the backend to this buyer can be emailed
+    if (!ticket?.accessToken) {
       toast({
-        title: "Email Required",
-        description: "Please provide an email address to send the ticket.",
+        title: "No Ticket Yet",
+        description: "Your ticket can be emailed once it has been issued.",
         variant: "destructive"
       });
       return;
     }
-    
-    toast({
-      title: "Ticket Sent",
-      description: `Ticket has been sent to ${customerEmail}`,
-    });
+
+    if (!ticket.holderEmail) {
+      toast({
+        title: "No Email Address",
+        description: "This ticket was bought without an email address, so it can't be emailed.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const email = await ticketService.emailTicket(ticket.ticketId, { accessToken: ticket.accessToken });
+      toast({
+        title: "Ticket Sent",
+        description: `Ticket is on its way to ${email.recipient}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Email Failed",
+        description: error instanceof Error ? error.message : "Failed to send the ticket. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
   };
 
   const handleDownloadTicket = () => {
@@ -70,9 +98,9 @@ const TicketConfirmation = () => {
     const ticketContent = `
 CHAN 2024 - Digital Ticket
 ========================
-Match: Kenya vs Mauritania
-Date: 3 Aug 2025, 15:00
-Venue: Moi Sports Centre Kasarani
+Match: ${matchTitle}
+Date: ${matchWhen}
+Venue: ${match?.venue || ""}
 Ticket Type: ${ticketType}
 Quantity: ${quantity}
 Price: ${price}
@@ -101,7 +129,9 @@ Payment: ${paymentMethod.toUpperCase()}
     if (navigator.share) {
       navigator.share({
         title: 'CHAN 2024 Ticket',
-        text: `My ticket for Kenya vs Mauritania on 3 Aug 2025 at Moi Sports Centre Kasarani`,
+        text: match
+          ? `My ticket for ${matchTitle} on ${match.date} at ${match.venue}`
+          : `My ticket for ${matchTitle}`,
         url: window.location.href,
       });
     } else {
@@ -150,14 +180,14 @@ Payment: ${paymentMethod.toUpperCase()}
           <CardContent className="p-4 space-y-4">
             {/* Match Details */}
             <div className="text-center border-b pb-4">
-              <h3 className="font-bold text-lg mb-2">Kenya Vs Mauritania</h3>
-              <p className="text-sm text-muted-foreground">3 Aug 2025, 15:00</p>
+              <h3 className="font-bold text-lg mb-2">{matchTitle}</h3>
+              <p className="text-sm text-muted-foreground">{matchWhen}</p>
             </div>
 
             {/* Venue */}
             <div className="text-center border-b pb-4">
               <h4 className="font-semibold">VENUE</h4>
-              <p className="text-sm">Moi Sports Centre Kasarani</p>
+              <p className="text-sm">{match?.venue || "—"}</p>
             </div>
 
             {/* Ticket Details */}
@@ -168,7 +198,7 @@ Payment: ${paymentMethod.toUpperCase()}
               </div>
               <div>
                 <p className="text-muted-foreground">TICKET NO.</p>
-                <p className="font-semibold">#96B01605</p>
+                <p className="font-semibold">{ticket ? `#${ticket.ticketId}` : "—"}</p>
               </div>
               <div>
                 <p className="text-muted-foreground">QUANTITY</p>
@@ -189,16 +219,16 @@ Payment: ${paymentMethod.toUpperCase()}
             {/* Seating Details */}
             <div className="grid grid-cols-3 gap-4 text-sm border-t pt-4">
               <div>
-                <p className="text-muted-foreground">SEAT</p>
-                <p className="font-semibold">Gate 1</p>
+                <p className="text-muted-foreground">GATE</p>
+                <p className="font-semibold">{ticket?.gate || "—"}</p>
               </div>
               <div>
                 <p className="text-muted-foreground">SECTION</p>
-                <p className="font-semibold">17-Lower</p>
+                <p className="font-semibold">{ticket?.section || "—"}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">ROW</p>
-                <p className="font-semibold">10</p>
+                <p className="text-muted-foreground">ROW / SEAT</p>
+                <p className="font-semibold">{ticket ? `${ticket.row} / ${ticket.seat}` : "—"}</p>
               </div>
             </div>
 
@@ -220,10 +250,11 @@ Payment: ${paymentMethod.toUpperCase()}
           <div className="grid grid-cols-2 gap-3">
             <Button 
               onClick={handleEmailTicket}
+              disabled={isSending}
               className="bg-primary hover:bg-primary/90 text-primary-foreground"
             >
               <Mail className="w-4 h-4 mr-2" />
-              Email
+              {isSending ? "Sending..." : "Email"}
             </Button>
             <Button 
               onClick={handleDownloadTicket}
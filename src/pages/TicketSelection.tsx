@@ -1,88 +1,84 @@
 import { useState, useEffect } from "react";
 import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Minus, Plus } from "lucide-react";
+import { format } from "date-fns";
 import TopBar from "@/components/TopBar";
 import PaymentModal from "@/components/PaymentModal";
+import { ticketService } from "@/lib/ticket-service";
+import { MatchServiceError } from "@/lib/match-service";
+import { useMatch } from "@/hooks/use-matches";
+import type { PricedOrderItem } from "@/lib/ticket-types";
+
+// Show how many tickets are left once a tier drops to this many
+const LOW_STOCK_THRESHOLD = 50;
 
 const TicketSelection = () => {
   const navigate = useNavigate();
   const { matchId } = useParams();
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
-  const [selectedTicket, setSelectedTicket] = useState<{
-    type: string;
-    basePrice: number;
-    totalAmount: string;
-  } | null>(null);
-
-  // Match data
-  const matches = {
-    "1": {
-      homeTeam: "MAD",
-      awayTeam: "MAR",
-      venue: "Moi Sports Centre Kasarani",
-      tickets: [
-        {
-          type: "Regular",
-          basePrice: 200,
-          price: "KES 200",
-          description: "Gates open 15:00 hrs",
-          available: true
-        },
-        {
-          type: "VIP",
-          basePrice: 500,
-          price: "KES 500",
-          description: "Gates open 15:00 hrs, VIP seating",
-          available: true
-        }
-      
-      ]
-    },
-    "2": {
-      homeTeam: "TZ",
-      awayTeam: "MAR",
-      venue: "Benjamin Mkapa National Stadium",
-      tickets: [
-        {
-          type: "Regular",
-          basePrice: 50,
-          price: "KES 50",
-          description: "Gates open 15:00 hrs",
-          available: true
-        },
-        {
-          type: "VIP",
-          basePrice: 130,
-          price: "KES 130",
-          description: "Gates open 15:00 hrs, VIP seating",
-          available: true
-        }
-      ]
-    }
-  };
+  // Tickets picked per tier
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
 
-  const currentMatch = matches[matchId as keyof typeof matches];
-  const [matchDetails, setMatchDetails] = useState(currentMatch);
+  const { data: matchDetails, error } = useMatch(matchId);
 
   useEffect(() => {
-    if (!currentMatch) {
+    if (error instanceof MatchServiceError && error.code === 'MATCH_NOT_FOUND') {
       // If invalid match ID, redirect to home
       navigate('/');
     }
-    setMatchDetails(currentMatch);
-  }, [currentMatch, navigate]);
+  }, [error, navigate]);
+
+  const ticketTypes = matchDetails?.tiers || [];
+
+  const { data: inventory } = useQuery({
+    queryKey: ["inventory", matchId],
+    queryFn: () => ticketService.getInventory(matchId as string),
+    enabled: !!matchDetails,
+    refetchInterval: 30000
+  });
 
-  const ticketTypes = matchDetails?.tickets || [];
+  const { data: limits } = useQuery({
+    queryKey: ["order-limits"],
+    queryFn: () => ticketService.getOrderLimits(),
+    staleTime: Infinity
+  });
 
-  const handleGetTicket = (ticketType: string, basePrice: number) => {
-    setSelectedTicket({
-      type: ticketType,
-      basePrice,
-      totalAmount: `KES ${basePrice}`
+  const getAvailable = (ticketType: string) =>
+    inventory?.find((tier) => tier.type === ticketType)?.available;
+
+  const orderItems: PricedOrderItem[] = ticketTypes
+    .filter((ticket) => quantities[ticket.type] > 0)
+    .map((ticket) => ({ ticketType: ticket.type, quantity: quantities[ticket.type], unitPrice: ticket.price }));
+  const ticketCount = orderItems.reduce((total, item) => total + item.quantity, 0);
+  const orderTotal = orderItems.reduce((total, item) => total + item.quantity * item.unitPrice, 0);
+
+  // Label for a tier outside its sale window, or null while it is on sale
+  const getSaleWindowLabel = (saleStartsAt: string | null, saleEndsAt: string | null) => {
+    const now = Date.now();
+    if (saleStartsAt && new Date(saleStartsAt).getTime() > now) {
+      return `Sales open ${format(new Date(saleStartsAt), "d MMM, HH:mm")}`;
+    }
+    if (saleEndsAt && new Date(saleEndsAt).getTime() <= now) {
+      return "Sales closed";
+    }
+    return null;
+  };
+
+  // Most of a tier the customer can still add: what is left, within the order cap
+  const getMaxQuantity = (ticketType: string) => {
+    const current = quantities[ticketType] || 0;
+    const orderRoom = limits ? limits.maxTicketsPerOrder - ticketCount + current : Infinity;
+    return Math.min(getAvailable(ticketType) ?? Infinity, orderRoom);
+  };
+
+  const changeQuantity = (ticketType: string, change: number) => {
+    setQuantities((prev) => {
+      const quantity = Math.max(0, Math.min((prev[ticketType] || 0) + change, getMaxQuantity(ticketType)));
+      return { ...prev, [ticketType]: quantity };
     });
-    setPaymentModalOpen(true);
   };
 
   return (
@@ -103,46 +99,112 @@ const TicketSelection = () => {
             <h1 className="text-lg font-semibold">Available tickets</h1>
             {matchDetails && (
               <p className="text-sm text-muted-foreground">
-                {matchDetails.homeTeam} vs {matchDetails.awayTeam} - {matchDetails.venue}
+                {matchDetails.teamA} vs {matchDetails.teamB} - {matchDetails.venue}
               </p>
             )}
           </div>
         </div>
 
+        {error && !(error instanceof MatchServiceError && error.code === 'MATCH_NOT_FOUND') && (
+          <p className="text-sm text-destructive mb-4">We couldn't load tickets for this match. Please refresh to try again.</p>
+        )}
+
         {/* Ticket Limit Notice */}
         <div className="mb-6">
           <div className="flex items-center gap-2 mb-4">
             <p className="text-sm text-muted-foreground bg-muted p-2 rounded-md w-full">
-              Note: Limited to 1 ticket per person for this event
+              {limits
+                ? `Note: Up to ${limits.maxTicketsPerOrder} tickets per order and ${limits.maxTicketsPerPhone} per phone number for this event`
+                : "Note: Each ticket admits one person"}
             </p>
           </div>
         </div>
 
         {/* Ticket Types */}
         <div className="space-y-4">
-          {ticketTypes.map((ticket) => (
-            <Card key={ticket.type} className="overflow-hidden">
-              <CardContent className="p-4">
-                <div className="flex justify-between items-start mb-3">
-                  <div>
-                    <h3 className="font-semibold text-lg">{ticket.type}</h3>
-                    <p className="text-sm text-muted-foreground">{ticket.description}</p>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-bold text-lg">{ticket.price}</p>
+          {ticketTypes.map((ticket) => {
+            const available = getAvailable(ticket.type);
+            const soldOut = available === 0;
+            const saleWindowLabel = getSaleWindowLabel(ticket.saleStartsAt, ticket.saleEndsAt);
+            const unavailable = soldOut || !!saleWindowLabel;
+
+            return (
+              <Card key={ticket.type} className={`overflow-hidden ${unavailable ? "opacity-60" : ""}`}>
+                <CardContent className="p-4">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="font-semibold text-lg">{ticket.type}</h3>
+                      <p className="text-sm text-muted-foreground">{ticket.description}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold text-lg">KES {ticket.price}</p>
+                      {!unavailable && available !== undefined && available <= LOW_STOCK_THRESHOLD && (
+                        <p className="text-xs text-destructive">Only {available} left</p>
+                      )}
+                    </div>
                   </div>
-                </div>
-                <Button 
-                  className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
-                  onClick={() => handleGetTicket(ticket.type, ticket.basePrice)}
-                >
-                  Get Now
-                </Button>
-              </CardContent>
-            </Card>
-          ))}
+                  {unavailable ? (
+                    <Button className="w-full" disabled>
+                      {soldOut ? "Sold Out" : saleWindowLabel}
+                    </Button>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">Quantity</span>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label={`Remove a ${ticket.type} ticket`}
+                          onClick={() => changeQuantity(ticket.type, -1)}
+                          disabled={!quantities[ticket.type]}
+                        >
+                          <Minus className="h-4 w-4" />
+                        </Button>
+                        <span className="w-6 text-center font-semibold">{quantities[ticket.type] || 0}</span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label={`Add a ${ticket.type} ticket`}
+                          onClick={() => changeQuantity(ticket.type, 1)}
+                          disabled={(quantities[ticket.type] || 0) >= getMaxQuantity(ticket.type)}
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
+        {/* Order Summary */}
+        {ticketCount > 0 && (
+          <Card className="mt-6">
+            <CardContent className="p-4 space-y-3">
+              {orderItems.map((item) => (
+                <div key={item.ticketType} className="flex justify-between text-sm">
+                  <span>{item.quantity} × {item.ticketType}</span>
+                  <span>KES {item.quantity * item.unitPrice}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-bold border-t pt-2">
+                <span>Total</span>
+                <span>KES {orderTotal}</span>
+              </div>
+              <Button
+                className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
+                onClick={() => setPaymentModalOpen(true)}
+              >
+                Get {ticketCount} {ticketCount === 1 ? "Ticket" : "Tickets"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Footer */}
         <div className="mt-8 text-center">
           <p className="text-xs text-muted-foreground">chan.mookah.com</p>
@@ -150,16 +212,12 @@ const TicketSelection = () => {
       </div>
 
       {/* Payment Modal */}
-      {selectedTicket && (
+      {ticketCount > 0 && (
         <PaymentModal
           isOpen={paymentModalOpen}
           onClose={() => setPaymentModalOpen(false)}
-          amount={selectedTicket.totalAmount}
-          ticketDetails={{
-            type: selectedTicket.type,
-            quantity: 1,
-            matchId: matchId || "1"
-          }}
+          matchId={matchId || "1"}
+          items={orderItems}
         />
       )}
     </div>
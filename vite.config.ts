@@ -1,27 +1,45 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// VITE_ variables are inlined into the browser bundle, so anything that looks like a
+// credential must live in the backend's environment instead
+const SECRET_NAME_PATTERN = /SECRET|TOKEN|PASSWORD|PRIVATE|CREDENTIAL|AUTH|API_?KEY/i;
+const SECRET_VALUE_PATTERN = /^(Basic|Bearer)\s/i;
+
+const rejectSecretEnv = (mode: string): Plugin => ({
+  name: "reject-secret-env",
+  configResolved() {
+    const env = loadEnv(mode, process.cwd(), "VITE_");
+    const secrets = Object.entries(env)
+      .filter(([name, value]) => SECRET_NAME_PATTERN.test(name) || SECRET_VALUE_PATTERN.test(value))
+      .map(([name]) => name);
+
+    if (secrets.length > 0) {
+      throw new Error(
+        `Refusing to expose secret-looking variables to the browser: ${secrets.join(", ")}. ` +
+        "Move them to backend-example/.env without the VITE_ prefix."
+      );
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
     proxy: {
-      '/api/payhero': {
-        target: 'https://backend.payhero.co.ke/api/v2',
+      // The backend, which also proxies PayHero
+      '/api': {
+        target: process.env.API_PROXY_TARGET || 'http://localhost:5000',
         changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/payhero/, ''),
-        secure: true,
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        }
       }
     }
   },
   plugins: [
+    rejectSecretEnv(mode),
     react(),
     mode === 'development' &&
     componentTagger(),